@@ -1,4 +1,4 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, Redirect } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
@@ -7,10 +7,20 @@ import { ThemeProvider } from "@/components/theme-provider";
 import { useAuth } from "@/hooks/useAuth";
 import NotFound from "@/pages/not-found";
 import Landing from "@/pages/landing";
+import AuthPage from "@/pages/auth";
 import Home from "@/pages/home";
 import StudyGroups from "@/pages/study-groups";
+import StudyGroupPage from "@/pages/study-group";
 import Community from "@/pages/community";
 import InterviewPrep from "@/pages/interview-prep";
+import TopicPage from "@/pages/topic";
+import LearningPaths from "@/pages/learning-paths";
+import LearningPathPage from "@/pages/learning-path";
+import QuizPage from "@/pages/quiz";
+import QuizEditor from "@/pages/quiz-editor";
+import FlashcardEditor from "@/pages/flashcard-editor";
+import QuizAttemptPage from "@/pages/quiz-attempt";
+import FlashcardsReview from "@/pages/flashcards-review";
 import { AiChatbot } from "./components/ai-chatbot";
 
 function Router() {
@@ -20,13 +30,29 @@ function Router() {
     <>
       <Switch>
         {isLoading || !isAuthenticated ? (
-          <Route path="/" component={Landing} />
+          <>
+            <Route path="/" component={Landing} />
+            <Route path="/auth" component={AuthPage} />
+          </>
         ) : (
           <>
             <Route path="/" component={Home} />
+            <Route path="/auth">
+              <Redirect to="/" />
+            </Route>
             <Route path="/study-groups" component={StudyGroups} />
+            <Route path="/study-groups/:id" component={StudyGroupPage} />
             <Route path="/community" component={Community} />
             <Route path="/interview-prep" component={InterviewPrep} />
+            <Route path="/topics/:id" component={TopicPage} />
+            <Route path="/topics/:topicId/quizzes/new" component={QuizEditor} />
+            <Route path="/topics/:id/flashcards" component={FlashcardEditor} />
+            <Route path="/paths" component={LearningPaths} />
+            <Route path="/paths/:id" component={LearningPathPage} />
+            <Route path="/quizzes/:id" component={QuizPage} />
+            <Route path="/quizzes/:id/edit" component={QuizEditor} />
+            <Route path="/quiz-attempts/:id" component={QuizAttemptPage} />
+            <Route path="/flashcards/review" component={FlashcardsReview} />
           </>
         )}
         <Route component={NotFound} />
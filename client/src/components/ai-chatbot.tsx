@@ -1,50 +1,205 @@
 import { useState, useRef, useEffect } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Send, Bot, X, Loader2 } from "lucide-react";
-import { apiRequest } from "@/lib/queryClient";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Send, Bot, X, Loader2, History, Plus, Trash2, BookOpen } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
+import { useAiStream } from "@/hooks/use-ai-stream";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
 import { cn } from "@/lib/utils";
 
+interface Citation {
+  index: number;
+  chunkId: string;
+  topicId: string;
+  topicTitle: string;
+  source: string | null;
+  chunkIndex: number;
+  excerpt: string;
+}
+
 interface Message {
+  id: string;
   role: 'user' | 'model';
-  parts: { text: string }[];
+  content: string;
+  citations?: Citation[] | null;
+}
+
+interface Conversation {
+  id: string;
+  topicId: string | null;
+  topicTitle: string | null;
+  title: string | null;
+  updatedAt: string;
+}
+
+interface ConversationDetail extends Conversation {
+  messages: Message[];
+}
+
+interface Topic {
+  id: string;
+  title: string;
+}
+
+// Remembers the open conversation so a reload picks up where the student left off
+const ACTIVE_CONVERSATION_KEY = "tutor-conversation";
+const GENERAL_TOPIC = "general";
+
+// Where a tutor answer came from; each entry expands to the passage it was given
+function CitationList({ citations }: { citations: Citation[] }) {
+  return (
+    <div className="mt-2 pt-2 border-t border-border space-y-1" data-testid="list-citations">
+      <p className="text-xs font-medium text-muted-foreground">Sources</p>
+      {citations.map((citation) => (
+        <details key={citation.chunkId} className="text-xs text-muted-foreground">
+          <summary className="cursor-pointer">
+            [{citation.index}] {citation.topicTitle}
+            {citation.source ? ` · ${citation.source}` : ""} · passage {citation.chunkIndex + 1}
+          </summary>
+          <p className="mt-1 pl-3 italic">{citation.excerpt}</p>
+          <Link href={`/topics/${citation.topicId}`} className="pl-3 text-primary hover:underline">
+            Open topic
+          </Link>
+        </details>
+      ))}
+    </div>
+  );
 }
 
 export function AiChatbot() {
   const [isOpen, setIsOpen] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const [input, setInput] = useState("");
-  const [history, setHistory] = useState<Message[]>([]);
+  const [pendingPrompt, setPendingPrompt] = useState<string | null>(null);
+  const [topicId, setTopicId] = useState(GENERAL_TOPIC);
+  const [conversationId, setConversationId] = useState<string | null>(
+    () => localStorage.getItem(ACTIVE_CONVERSATION_KEY),
+  );
   const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
   const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const chatStream = useAiStream();
+
+  const { data: conversations = [] } = useQuery<Conversation[]>({
+    queryKey: ["/api/chat/conversations"],
+    enabled: isOpen,
+  });
+
+  const { data: conversation, error: conversationError } = useQuery<ConversationDetail>({
+    queryKey: ["/api/chat/conversations", conversationId],
+    enabled: isOpen && !!conversationId,
+  });
+
+  const { data: topics = [] } = useQuery<Topic[]>({
+    queryKey: ["/api/topics"],
+    enabled: isOpen,
+  });
+
+  const openConversation = (id: string | null) => {
+    chatStream.cancel();
+    setConversationId(id);
+    setShowHistory(false);
+    if (id) {
+      localStorage.setItem(ACTIVE_CONVERSATION_KEY, id);
+    } else {
+      localStorage.removeItem(ACTIVE_CONVERSATION_KEY);
+    }
+  };
+
+  // The remembered conversation may have been deleted elsewhere
+  useEffect(() => {
+    if (conversationError) openConversation(null);
+  }, [conversationError]);
 
   const chatMutation = useMutation({
     mutationFn: async (prompt: string) => {
-      const response = await apiRequest("POST", "/api/ai/chat", { prompt, history });
-      return response.json();
+      let id = conversationId;
+      if (!id) {
+        const response = await apiRequest("POST", "/api/chat/conversations", {
+          topicId: topicId === GENERAL_TOPIC ? undefined : topicId,
+        });
+        const created: Conversation = await response.json();
+        id = created.id;
+        openConversation(id);
+      }
+      return chatStream.start(`/api/chat/conversations/${id}/messages`, { prompt });
     },
-    onSuccess: (data) => {
-      setHistory((prev) => [
-        ...prev,
-        { role: 'model', parts: [{ text: data.response }] },
-      ]);
+    onSettled: async () => {
+      // Both sides of the exchange are saved server-side; reload rather than patch locally
+      await queryClient.invalidateQueries({ queryKey: ["/api/chat/conversations"] });
+      setPendingPrompt(null);
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "The tutor couldn't answer. Please try again.",
+        variant: "destructive",
+      });
     },
   });
 
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/chat/conversations/${id}`);
+      return id;
+    },
+    onSuccess: (id) => {
+      if (id === conversationId) openConversation(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/conversations"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete conversation.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Stop generating as soon as the chat is closed
+  useEffect(() => {
+    if (!isOpen) chatStream.cancel();
+  }, [isOpen, chatStream.cancel]);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || chatMutation.isPending) return;
 
-    const userMessage: Message = { role: 'user', parts: [{ text: input }] };
-    setHistory((prev) => [...prev, userMessage]);
+    setPendingPrompt(input);
     chatMutation.mutate(input);
     setInput("");
   };
 
+  const messages = conversationId ? conversation?.messages ?? [] : [];
+  const pendingCitations = (chatStream.events.citations as Citation[] | undefined) ?? [];
+
   useEffect(() => {
     // Scroll to the bottom when new messages are added
     if (scrollAreaRef.current) {
@@ -53,7 +208,39 @@ export function AiChatbot() {
         behavior: "smooth",
       });
     }
-  }, [history]);
+  }, [messages.length, pendingPrompt, chatStream.text]);
+
+  const renderBubble = (key: string, role: Message['role'], content: React.ReactNode) => (
+    <div
+      key={key}
+      className={cn(
+        "flex items-start gap-3",
+        role === 'user' ? "justify-end" : ""
+      )}
+    >
+      {role === 'model' && (
+        <Avatar className="w-8 h-8">
+          <AvatarFallback className="bg-primary text-white">AI</AvatarFallback>
+        </Avatar>
+      )}
+      <div
+        className={cn(
+          "p-3 rounded-lg max-w-xs",
+          role === 'user'
+            ? "bg-primary text-white"
+            : "bg-muted"
+        )}
+      >
+        {content}
+      </div>
+      {role === 'user' && (
+        <Avatar className="w-8 h-8">
+          <AvatarImage src={user?.profileImageUrl || undefined} />
+          <AvatarFallback>{user?.firstName?.[0] || 'U'}</AvatarFallback>
+        </Avatar>
+      )}
+    </div>
+  );
 
   return (
     <>
@@ -67,87 +254,165 @@ export function AiChatbot() {
       </div>
 
       {isOpen && (
-        <Card className="fixed bottom-24 right-6 z-50 w-80 h-96 flex flex-col shadow-2xl">
-          <CardHeader className="flex flex-row items-center justify-between">
-            <CardTitle className="text-lg">AI Tutor</CardTitle>
-            <Button variant="ghost" size="icon" onClick={() => setIsOpen(false)}>
-              <X className="h-4 w-4" />
-            </Button>
+        <Card className="fixed bottom-24 right-6 z-50 w-96 h-[28rem] flex flex-col shadow-2xl">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 py-3">
+            <div className="min-w-0">
+              <CardTitle className="text-lg">AI Tutor</CardTitle>
+              {conversation?.topicTitle && !showHistory && (
+                <Badge variant="secondary" className="mt-1 max-w-full truncate" data-testid="badge-chat-topic">
+                  <BookOpen className="mr-1 h-3 w-3" />
+                  {conversation.topicTitle}
+                </Badge>
+              )}
+            </div>
+            <div className="flex items-center">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setShowHistory(!showHistory)}
+                title="Conversations"
+                data-testid="button-chat-history"
+              >
+                <History className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => openConversation(null)}
+                title="New conversation"
+                data-testid="button-chat-new"
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => setIsOpen(false)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
           </CardHeader>
-          <CardContent className="flex-1 flex flex-col p-0">
-            <ScrollArea className="flex-1 p-4" ref={scrollAreaRef}>
-              <div className="space-y-4">
-                {history.map((msg, index) => (
-                  <div
-                    key={index}
-                    className={cn(
-                      "flex items-start gap-3",
-                      msg.role === 'user' ? "justify-end" : ""
+          <CardContent className="flex-1 flex flex-col p-0 min-h-0">
+            {showHistory ? (
+              <ScrollArea className="flex-1 p-4">
+                {conversations.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-8">No conversations yet</p>
+                ) : (
+                  <div className="space-y-2">
+                    {conversations.map((item) => (
+                      <div
+                        key={item.id}
+                        className={cn(
+                          "flex items-center gap-2 p-2 rounded-lg hover:bg-muted cursor-pointer",
+                          item.id === conversationId && "bg-muted"
+                        )}
+                        onClick={() => openConversation(item.id)}
+                        data-testid={`conversation-${item.id}`}
+                      >
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium truncate">{item.title || "New conversation"}</p>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {item.topicTitle ?? "General"} · {new Date(item.updatedAt).toLocaleDateString()}
+                          </p>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 shrink-0"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            deleteMutation.mutate(item.id);
+                          }}
+                          disabled={deleteMutation.isPending}
+                          data-testid={`button-delete-conversation-${item.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </ScrollArea>
+            ) : (
+              <>
+                <ScrollArea className="flex-1 p-4" ref={scrollAreaRef}>
+                  <div className="space-y-4">
+                    {!conversationId && (
+                      <div className="space-y-2">
+                        <p className="text-sm text-muted-foreground">
+                          Pick a topic so the tutor can use your study material, or just ask away.
+                        </p>
+                        <Select value={topicId} onValueChange={setTopicId}>
+                          <SelectTrigger data-testid="select-chat-topic">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent className="z-[60]">
+                            <SelectItem value={GENERAL_TOPIC}>General question</SelectItem>
+                            {topics.map((topic) => (
+                              <SelectItem key={topic.id} value={topic.id}>
+                                {topic.title}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
                     )}
-                  >
-                    {msg.role === 'model' && (
-                      <Avatar className="w-8 h-8">
-                        <AvatarFallback className="bg-primary text-white">AI</AvatarFallback>
-                      </Avatar>
+                    {messages.map((msg) =>
+                      renderBubble(
+                        msg.id,
+                        msg.role,
+                        <>
+                          <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
+                          {msg.citations && msg.citations.length > 0 && <CitationList citations={msg.citations} />}
+                        </>
+                      )
                     )}
-                    <div
-                      className={cn(
-                        "p-3 rounded-lg max-w-xs",
-                        msg.role === 'user'
-                          ? "bg-primary text-white"
-                          : "bg-muted"
-                      )}
-                    >
-                      <p className="text-sm">{msg.parts[0].text}</p>
-                    </div>
-                    {msg.role === 'user' && (
-                      <Avatar className="w-8 h-8">
-                        <AvatarImage src={user?.profileImageUrl || undefined} />
-                        <AvatarFallback>{user?.firstName?.[0] || 'U'}</AvatarFallback>
-                      </Avatar>
+                    {pendingPrompt && (
+                      <>
+                        {renderBubble("pending-user", 'user', <p className="text-sm whitespace-pre-wrap">{pendingPrompt}</p>)}
+                        {renderBubble(
+                          "pending-model",
+                          'model',
+                          chatStream.text ? (
+                            <>
+                              <p className="text-sm whitespace-pre-wrap">{chatStream.text}</p>
+                              {pendingCitations.length > 0 && <CitationList citations={pendingCitations} />}
+                            </>
+                          ) : (
+                            <Loader2 className="h-5 w-5 animate-spin" />
+                          )
+                        )}
+                      </>
                     )}
                   </div>
-                ))}
-                {chatMutation.isPending && (
-                  <div className="flex items-start gap-3">
-                    <Avatar className="w-8 h-8">
-                      <AvatarFallback className="bg-primary text-white">AI</AvatarFallback>
-                    </Avatar>
-                    <div className="p-3 rounded-lg bg-muted">
-                      <Loader2 className="h-5 w-5 animate-spin" />
-                    </div>
+                </ScrollArea>
+                <form onSubmit={handleSubmit} className="p-4 border-t">
+                  <div className="relative">
+                    <Textarea
+                      placeholder="Ask me anything..."
+                      value={input}
+                      onChange={(e) => setInput(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                          e.preventDefault();
+                          handleSubmit(e);
+                        }
+                      }}
+                      className="pr-12 resize-none"
+                      rows={1}
+                    />
+                    <Button
+                      type="submit"
+                      size="icon"
+                      className="absolute top-1/2 right-2 -translate-y-1/2 w-8 h-8"
+                      disabled={chatMutation.isPending}
+                    >
+                      <Send className="w-4 h-4" />
+                    </Button>
                   </div>
-                )}
-              </div>
-            </ScrollArea>
-            <form onSubmit={handleSubmit} className="p-4 border-t">
-              <div className="relative">
-                <Textarea
-                  placeholder="Ask me anything..."
-                  value={input}
-                  onChange={(e) => setInput(e.target.value)}
-                  onKeyDown={(e) => {
-                    if (e.key === 'Enter' && !e.shiftKey) {
-                      e.preventDefault();
-                      handleSubmit(e);
-                    }
-                  }}
-                  className="pr-12 resize-none"
-                  rows={1}
-                />
-                <Button
-                  type="submit"
-                  size="icon"
-                  className="absolute top-1/2 right-2 -translate-y-1/2 w-8 h-8"
-                  disabled={chatMutation.isPending}
-                >
-                  <Send className="w-4 h-4" />
-                </Button>
-              </div>
-            </form>
+                </form>
+              </>
+            )}
           </CardContent>
         </Card>
       )}
     </>
   );
-}
\ No newline at end of file
+}
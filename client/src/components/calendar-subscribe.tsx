@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { CalendarPlus, Copy, RefreshCw } from "lucide-react";
+
+interface CalendarSubscribeProps {
+  // Only this group's sessions; all of the user's groups when left out
+  groupId?: string;
+}
+
+// A subscription link to study sessions for calendar apps, with a way to revoke it
+export function CalendarSubscribe({ groupId }: CalendarSubscribeProps) {
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: feed } = useQuery<{ url: string }>({
+    queryKey: ["/api/calendar", groupId ? `feed?groupId=${groupId}` : "feed"],
+    enabled: open,
+  });
+  // webcal:// opens the subscribe prompt of the system calendar app
+  const webcalUrl = feed?.url.replace(/^https?:/, "webcal:");
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/calendar/feed/reset");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar"] });
+      toast({ title: "Link Reset", description: "Calendars subscribed with the old link will stop updating." });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to reset the calendar link. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyLink = async () => {
+    if (!feed) return;
+    await navigator.clipboard.writeText(feed.url);
+    toast({ title: "Link Copied", description: "Paste it into your calendar app's \"subscribe by URL\" option." });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-subscribe-calendar">
+          <CalendarPlus className="mr-2 h-4 w-4" />
+          Add to Calendar
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Subscribe to Study Sessions</DialogTitle>
+          <DialogDescription>
+            {groupId
+              ? "Add this group's sessions to Google Calendar, Apple Calendar or Outlook."
+              : "Add the sessions of every group you're in to Google Calendar, Apple Calendar or Outlook."}{" "}
+            Your calendar picks up changes automatically. Keep the link private: anyone with it can see the
+            schedule.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex gap-2">
+          <Input readOnly value={feed?.url ?? "Loading..."} data-testid="input-calendar-url" />
+          <Button variant="outline" size="icon" onClick={copyLink} disabled={!feed} title="Copy link">
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="flex justify-between gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => resetMutation.mutate()}
+            disabled={resetMutation.isPending}
+            data-testid="button-reset-calendar"
+          >
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Reset Link
+          </Button>
+          {webcalUrl && (
+            <Button size="sm" asChild>
+              <a href={webcalUrl}>Open in Calendar App</a>
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
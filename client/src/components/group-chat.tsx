@@ -0,0 +1,243 @@
+import { useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { useToast } from "@/hooks/use-toast";
+import { useRealtime } from "@/hooks/use-realtime";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { format } from "date-fns";
+import { Loader2, MessageCircle, Send } from "lucide-react";
+import type { ServerMessage } from "@shared/realtime";
+import type { GroupChatMessage, PublicUser } from "@shared/schema";
+
+// Resend "typing" this often while the user keeps typing; others drop it after TYPING_EXPIRY_MS
+const TYPING_RESEND_MS = 3000;
+const TYPING_EXPIRY_MS = 6000;
+
+interface GroupChatProps {
+  groupId: string;
+  currentUserId?: string;
+}
+
+const displayName = (user: PublicUser) => user.firstName || user.lastName || "Anonymous";
+
+const getInitials = (user: PublicUser) => {
+  const first = user.firstName?.[0] || "";
+  const last = user.lastName?.[0] || "";
+  return (first + last).toUpperCase() || "U";
+};
+
+// Live chat for a study group's members, with who's online and who's typing
+export function GroupChat({ groupId, currentUserId }: GroupChatProps) {
+  const [messages, setMessages] = useState<GroupChatMessage[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [joined, setJoined] = useState(false);
+  const [online, setOnline] = useState<PublicUser[]>([]);
+  const [typing, setTyping] = useState<Record<string, { user: PublicUser; at: number }>>({});
+  const [input, setInput] = useState("");
+  const [loadingEarlier, setLoadingEarlier] = useState(false);
+  const lastTypingSentRef = useRef(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const handleMessage = (message: ServerMessage) => {
+    if (message.type === "error") {
+      toast({ title: "Chat Error", description: message.message, variant: "destructive" });
+      return;
+    }
+    if (message.groupId !== groupId) return;
+    switch (message.type) {
+      case "group:joined":
+        setMessages(message.messages);
+        setHasMore(message.hasMore);
+        setOnline(message.online);
+        setJoined(true);
+        break;
+      case "group:message":
+        setMessages((current) => [...current, message.message]);
+        setTyping(({ [message.message.userId]: _, ...rest }) => rest);
+        break;
+      case "group:typing":
+        setTyping(({ [message.user.id]: _, ...rest }) =>
+          message.typing ? { ...rest, [message.user.id]: { user: message.user, at: Date.now() } } : rest,
+        );
+        break;
+      case "group:presence":
+        setOnline(message.online);
+        break;
+      case "group:removed":
+        setJoined(false);
+        queryClient.invalidateQueries({ queryKey: ["/api/study-groups"] });
+        break;
+    }
+  };
+
+  const { connected, send } = useRealtime(handleMessage);
+
+  // (Re)join the room whenever the socket (re)connects
+  useEffect(() => {
+    if (!connected) {
+      setJoined(false);
+      return;
+    }
+    send({ type: "group:join", groupId });
+    return () => {
+      send({ type: "group:leave", groupId });
+    };
+  }, [connected, groupId, send]);
+
+  // Forget typing indicators whose sender went quiet without saying so
+  useEffect(() => {
+    const timer = setInterval(() => {
+      setTyping((current) => {
+        const cutoff = Date.now() - TYPING_EXPIRY_MS;
+        const fresh = Object.entries(current).filter(([, entry]) => entry.at > cutoff);
+        return fresh.length === Object.keys(current).length ? current : Object.fromEntries(fresh);
+      });
+    }, 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Follow new messages at the bottom
+  const lastMessageId = messages[messages.length - 1]?.id;
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+  }, [lastMessageId]);
+
+  const loadEarlier = async () => {
+    if (messages.length === 0) return;
+    setLoadingEarlier(true);
+    try {
+      const response = await apiRequest("GET", `/api/study-groups/${groupId}/messages?before=${messages[0].id}`);
+      const page: { messages: GroupChatMessage[]; hasMore: boolean } = await response.json();
+      setMessages((current) => [...page.messages, ...current]);
+      setHasMore(page.hasMore);
+    } catch {
+      toast({ title: "Error", description: "Failed to load earlier messages.", variant: "destructive" });
+    } finally {
+      setLoadingEarlier(false);
+    }
+  };
+
+  const handleInput = (value: string) => {
+    setInput(value);
+    if (value.trim() && Date.now() - lastTypingSentRef.current > TYPING_RESEND_MS) {
+      lastTypingSentRef.current = Date.now();
+      send({ type: "group:typing", groupId, typing: true });
+    }
+  };
+
+  const stopTyping = () => {
+    if (lastTypingSentRef.current === 0) return;
+    lastTypingSentRef.current = 0;
+    send({ type: "group:typing", groupId, typing: false });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const content = input.trim();
+    if (!content) return;
+    if (send({ type: "group:message", groupId, content })) {
+      setInput("");
+      lastTypingSentRef.current = 0;
+    }
+  };
+
+  const typingNames = Object.values(typing)
+    .filter((entry) => entry.user.id !== currentUserId && online.some((user) => user.id === entry.user.id))
+    .map((entry) => displayName(entry.user));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-base flex items-center">
+          <MessageCircle className="mr-2 h-4 w-4" />
+          Group Chat
+        </CardTitle>
+        <div className="flex items-center gap-2" data-testid="text-chat-online">
+          <div className="flex -space-x-2">
+            {online.slice(0, 5).map((user) => (
+              <Avatar key={user.id} className="w-6 h-6 border-2 border-background" title={displayName(user)}>
+                <AvatarImage src={user.profileImageUrl || undefined} />
+                <AvatarFallback className="bg-primary text-white text-[10px]">{getInitials(user)}</AvatarFallback>
+              </Avatar>
+            ))}
+          </div>
+          <span className="text-xs text-muted-foreground">
+            <span className={cn("inline-block w-2 h-2 rounded-full mr-1", connected ? "bg-success" : "bg-muted-foreground")} />
+            {connected ? `${online.length} online` : "Reconnecting..."}
+          </span>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div ref={scrollRef} className="h-80 overflow-y-auto space-y-3 pr-1" data-testid="list-chat-messages">
+          {hasMore && (
+            <div className="text-center">
+              <Button variant="ghost" size="sm" onClick={loadEarlier} disabled={loadingEarlier} data-testid="button-load-earlier">
+                {loadingEarlier && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Load earlier messages
+              </Button>
+            </div>
+          )}
+          {!joined ? (
+            <div className="flex items-center justify-center h-full">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : messages.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center pt-8">No messages yet. Say hello!</p>
+          ) : (
+            messages.map((message) => {
+              const isOwn = message.userId === currentUserId;
+              return (
+                <div key={message.id} className={cn("flex gap-2", isOwn && "flex-row-reverse")}>
+                  <Avatar className="w-7 h-7">
+                    <AvatarImage src={message.user.profileImageUrl || undefined} />
+                    <AvatarFallback className="bg-primary text-white text-xs">{getInitials(message.user)}</AvatarFallback>
+                  </Avatar>
+                  <div className={cn("max-w-[75%]", isOwn && "text-right")}>
+                    <p className="text-xs text-muted-foreground mb-1">
+                      {isOwn ? "You" : displayName(message.user)} · {format(new Date(message.createdAt), "p")}
+                    </p>
+                    <div
+                      className={cn(
+                        "inline-block rounded-lg px-3 py-2 text-left",
+                        isOwn ? "bg-primary text-primary-foreground" : "bg-muted",
+                      )}
+                    >
+                      <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
+                    </div>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground h-4" data-testid="text-chat-typing">
+          {typingNames.length === 1
+            ? `${typingNames[0]} is typing...`
+            : typingNames.length > 1
+              ? `${typingNames.join(", ")} are typing...`
+              : ""}
+        </p>
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <Input
+            placeholder={connected ? "Message the group..." : "Reconnecting..."}
+            value={input}
+            onChange={(e) => handleInput(e.target.value)}
+            onBlur={stopTyping}
+            maxLength={2000}
+            disabled={!joined}
+            data-testid="input-chat-message"
+          />
+          <Button type="submit" size="icon" disabled={!joined || !input.trim()} data-testid="button-send-chat">
+            <Send className="h-4 w-4" />
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,371 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { ArrowRight, BookOpen, Copy, FileQuestion, Layers, Loader2, Share2, Trash2 } from "lucide-react";
+import type { GroupResourceKind, SharedGroupResource } from "@shared/schema";
+
+interface GroupResourcesProps {
+  groupId: string;
+  currentUserId?: string;
+  isMember: boolean;
+  canManage: boolean;
+}
+
+interface OwnTopic {
+  id: string;
+  title: string;
+}
+
+interface OwnQuiz {
+  id: string;
+  title: string;
+}
+
+const kindLabels: Record<GroupResourceKind, string> = {
+  topic: "Topic",
+  deck: "Flashcard Deck",
+  quiz: "Quiz",
+};
+
+const kindIcons: Record<GroupResourceKind, typeof BookOpen> = {
+  topic: BookOpen,
+  deck: Layers,
+  quiz: FileQuestion,
+};
+
+// Where the viewer's own copy opens
+const copyPath = (resource: SharedGroupResource) => {
+  switch (resource.kind) {
+    case "topic":
+      return `/topics/${resource.mine}`;
+    case "deck":
+      return `/topics/${resource.mine}/flashcards`;
+    case "quiz":
+      return `/quizzes/${resource.mine}`;
+  }
+};
+
+const itemCountLabel = (resource: SharedGroupResource) => {
+  if (resource.itemCount === null) return null;
+  return resource.kind === "deck" ? `${resource.itemCount} cards` : `${resource.itemCount} questions`;
+};
+
+// Topics, decks and quizzes members share with the group, with how far the group has got
+export function GroupResources({ groupId, currentUserId, isMember, canManage }: GroupResourcesProps) {
+  const [removing, setRemoving] = useState<SharedGroupResource | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: resources = [], isLoading } = useQuery<SharedGroupResource[]>({
+    queryKey: ["/api/study-groups", groupId, "resources"],
+  });
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const forkMutation = useMutation({
+    mutationFn: async (resource: SharedGroupResource) => {
+      const response = await apiRequest("POST", `/api/group-resources/${resource.id}/fork`);
+      return (await response.json()) as { created: boolean };
+    },
+    onSuccess: ({ created }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/study-groups", groupId, "resources"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/topics"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/quizzes"] });
+      toast({
+        title: created ? "Added to Your Library" : "Already in Your Library",
+        description: created
+          ? "Your copy tracks your own progress. Changes to the original won't affect it."
+          : "You already have everything from this.",
+      });
+    },
+    onError: (error) => handleError(error, "Failed to copy to your library. Please try again."),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (resourceId: string) => {
+      await apiRequest("DELETE", `/api/study-groups/${groupId}/resources/${resourceId}`);
+    },
+    onSuccess: () => {
+      setRemoving(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/study-groups", groupId, "resources"] });
+      toast({ title: "Removed", description: "It's no longer shared. Members keep their copies." });
+    },
+    onError: (error) => handleError(error, "Failed to remove. Please try again."),
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-base flex items-center">
+          <Share2 className="mr-2 h-4 w-4" />
+          Shared Material
+        </CardTitle>
+        {isMember && <ShareResourceDialog groupId={groupId} onError={handleError} />}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        ) : resources.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nothing shared yet. Share a topic, flashcard deck or quiz so everyone can study it.
+          </p>
+        ) : (
+          resources.map((resource) => {
+            const Icon = kindIcons[resource.kind];
+            const { progress } = resource;
+            const canRemove = canManage || resource.sharedBy === currentUserId;
+            return (
+              <div key={resource.id} className="rounded-md border p-3 space-y-2" data-testid={`resource-${resource.id}`}>
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <Badge variant="outline">
+                        <Icon className="mr-1 h-3 w-3" />
+                        {kindLabels[resource.kind]}
+                      </Badge>
+                      {itemCountLabel(resource) && (
+                        <span className="text-xs text-muted-foreground">{itemCountLabel(resource)}</span>
+                      )}
+                    </div>
+                    <p className="font-medium">{resource.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Shared by{" "}
+                      {resource.sharedBy === currentUserId ? "you" : resource.sharer?.firstName || "Anonymous"}
+                    </p>
+                  </div>
+                  {canRemove && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Stop sharing"
+                      onClick={() => setRemoving(resource)}
+                      data-testid={`button-remove-resource-${resource.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                {resource.note && <p className="text-sm">{resource.note}</p>}
+                <div className="space-y-1">
+                  <Progress value={progress.averagePercent} />
+                  <p className="text-xs text-muted-foreground" data-testid={`text-resource-progress-${resource.id}`}>
+                    Group average {progress.averagePercent}% · {progress.started} of {progress.members} started ·{" "}
+                    {progress.completed} finished
+                  </p>
+                </div>
+                {isMember && (
+                  <div className="flex gap-2">
+                    {resource.mine && (
+                      <Button size="sm" variant="outline" asChild>
+                        <Link href={copyPath(resource)} data-testid={`link-open-resource-${resource.id}`}>
+                          <ArrowRight className="mr-2 h-4 w-4" />
+                          Open
+                        </Link>
+                      </Button>
+                    )}
+                    {/* Decks can gain cards after being copied */}
+                    {(!resource.mine || (resource.kind === "deck" && resource.sharedBy !== currentUserId)) && (
+                      <Button
+                        size="sm"
+                        variant={resource.mine ? "ghost" : "default"}
+                        onClick={() => forkMutation.mutate(resource)}
+                        disabled={forkMutation.isPending}
+                        data-testid={`button-fork-resource-${resource.id}`}
+                      >
+                        {forkMutation.isPending && forkMutation.variables?.id === resource.id ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                          <Copy className="mr-2 h-4 w-4" />
+                        )}
+                        {resource.mine ? "Get New Cards" : "Add to My Library"}
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+
+      <AlertDialog open={removing !== null} onOpenChange={(open) => !open && setRemoving(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Stop sharing "{removing?.title}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              It will be removed from the group. Members who added it to their library keep their copies.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => removing && removeMutation.mutate(removing.id)}
+              disabled={removeMutation.isPending}
+              data-testid="button-confirm-remove-resource"
+            >
+              Stop Sharing
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
+
+interface ShareResourceDialogProps {
+  groupId: string;
+  onError: (error: Error, description: string) => void;
+}
+
+function ShareResourceDialog({ groupId, onError }: ShareResourceDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [kind, setKind] = useState<GroupResourceKind>("topic");
+  const [resourceId, setResourceId] = useState("");
+  const [note, setNote] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: topics = [] } = useQuery<OwnTopic[]>({
+    queryKey: ["/api/topics"],
+    enabled: open && kind !== "quiz",
+  });
+  const { data: quizzes = [] } = useQuery<OwnQuiz[]>({
+    queryKey: ["/api/quizzes"],
+    enabled: open && kind === "quiz",
+  });
+  const choices = kind === "quiz" ? quizzes : topics;
+
+  const shareMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/study-groups/${groupId}/resources`, {
+        kind,
+        id: resourceId,
+        note: note.trim() || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/study-groups", groupId, "resources"] });
+      setOpen(false);
+      setResourceId("");
+      setNote("");
+      toast({ title: "Shared", description: "Group members can now add it to their library." });
+    },
+    onError: (error) => onError(error, "Failed to share. It may already be shared with this group."),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" data-testid="button-share-resource">
+          <Share2 className="mr-2 h-4 w-4" />
+          Share
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share with the Group</DialogTitle>
+          <DialogDescription>
+            Members get their own copy to study, and the group sees how far everyone has got.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>What to share</Label>
+            <Select
+              value={kind}
+              onValueChange={(value) => {
+                setKind(value as GroupResourceKind);
+                setResourceId("");
+              }}
+            >
+              <SelectTrigger data-testid="select-resource-kind">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="topic">A topic</SelectItem>
+                <SelectItem value="deck">A topic's flashcards</SelectItem>
+                <SelectItem value="quiz">A quiz</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>{kind === "quiz" ? "Quiz" : "Topic"}</Label>
+            <Select value={resourceId} onValueChange={setResourceId}>
+              <SelectTrigger data-testid="select-resource">
+                <SelectValue placeholder={choices.length > 0 ? "Pick one of yours" : "Nothing to share yet"} />
+              </SelectTrigger>
+              <SelectContent>
+                {choices.map((choice) => (
+                  <SelectItem key={choice.id} value={choice.id}>
+                    {choice.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="resource-note">Note (Optional)</Label>
+            <Textarea
+              id="resource-note"
+              placeholder="e.g., Covers everything for Thursday's session"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={1000}
+            />
+          </div>
+          <Button
+            onClick={() => shareMutation.mutate()}
+            disabled={!resourceId || shareMutation.isPending}
+            className="w-full"
+            data-testid="button-submit-share"
+          >
+            {shareMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Share
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,513 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { RRule } from "rrule";
+import { addMonths, format, isSameDay, startOfMonth } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Calendar } from "@/components/ui/calendar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { CalendarSubscribe } from "@/components/calendar-subscribe";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { CalendarDays, Loader2, MapPin, Plus, Repeat, Trash2 } from "lucide-react";
+
+type RsvpStatus = "going" | "maybe" | "declined";
+
+interface SessionOccurrence {
+  sessionId: string;
+  title: string;
+  description?: string;
+  location?: string;
+  timeZone: string;
+  recurrence?: string;
+  durationMinutes: number;
+  startsAt: string;
+  endsAt: string;
+  going: number;
+  maybe: number;
+  declined: number;
+  myRsvp: RsvpStatus | null;
+}
+
+interface GroupSessionsProps {
+  groupId: string;
+  isMember: boolean;
+  canManage: boolean;
+}
+
+const rsvpLabels: Record<RsvpStatus, string> = {
+  going: "Going",
+  maybe: "Maybe",
+  declined: "Can't go",
+};
+
+const weekdays = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const describeRecurrence = (rule: string) => {
+  try {
+    return RRule.fromString(rule).toText();
+  } catch {
+    return "Repeats";
+  }
+};
+
+// The session's time where it's organized, shown when the viewer is elsewhere
+const organizerTime = (occurrence: SessionOccurrence) =>
+  new Intl.DateTimeFormat(undefined, { timeStyle: "short", timeZone: occurrence.timeZone }).format(
+    new Date(occurrence.startsAt),
+  );
+
+// A group's study sessions on a month calendar, with replies and scheduling for admins
+export function GroupSessions({ groupId, isMember, canManage }: GroupSessionsProps) {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>();
+  const [deleting, setDeleting] = useState<SessionOccurrence | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const from = month.toISOString();
+  const to = addMonths(month, 1).toISOString();
+  const { data: occurrences = [], isLoading } = useQuery<SessionOccurrence[]>({
+    queryKey: ["/api/study-groups", groupId, `sessions?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`],
+  });
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const rsvpMutation = useMutation({
+    mutationFn: async ({ occurrence, status }: { occurrence: SessionOccurrence; status: RsvpStatus }) => {
+      await apiRequest("PUT", `/api/group-sessions/${occurrence.sessionId}/rsvp`, {
+        occurrence: occurrence.startsAt,
+        status,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/study-groups", groupId] });
+    },
+    onError: (error) => handleError(error, "Failed to save your reply. Please try again."),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      await apiRequest("DELETE", `/api/group-sessions/${sessionId}`);
+    },
+    onSuccess: () => {
+      setDeleting(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/study-groups"] });
+      toast({ title: "Session Deleted", description: "It was removed from the group's calendar." });
+    },
+    onError: (error) => handleError(error, "Failed to delete session. Please try again."),
+  });
+
+  const now = new Date();
+  const shown = selectedDay
+    ? occurrences.filter((occurrence) => isSameDay(new Date(occurrence.startsAt), selectedDay))
+    : occurrences.filter((occurrence) => new Date(occurrence.endsAt) > now);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-base flex items-center">
+          <CalendarDays className="mr-2 h-4 w-4" />
+          Sessions
+        </CardTitle>
+        <div className="flex gap-2">
+          {isMember && <CalendarSubscribe groupId={groupId} />}
+          {canManage && <ScheduleSessionDialog groupId={groupId} />}
+        </div>
+      </CardHeader>
+      <CardContent className="flex flex-col md:flex-row gap-6">
+        <Calendar
+          mode="single"
+          month={month}
+          onMonthChange={(next) => {
+            setMonth(startOfMonth(next));
+            setSelectedDay(undefined);
+          }}
+          selected={selectedDay}
+          onSelect={setSelectedDay}
+          modifiers={{ hasSession: occurrences.map((occurrence) => new Date(occurrence.startsAt)) }}
+          modifiersClassNames={{ hasSession: "font-bold text-primary underline" }}
+          className="rounded-md border self-start"
+        />
+        <div className="flex-1 min-w-0 space-y-3">
+          <h4 className="text-sm font-medium text-muted-foreground">
+            {selectedDay ? format(selectedDay, "EEEE, MMMM d") : `Coming up in ${format(month, "MMMM")}`}
+          </h4>
+          {isLoading ? (
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          ) : shown.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No sessions scheduled.</p>
+          ) : (
+            shown.map((occurrence) => {
+              const start = new Date(occurrence.startsAt);
+              return (
+                <div
+                  key={`${occurrence.sessionId}-${occurrence.startsAt}`}
+                  className="rounded-md border p-3 space-y-2"
+                  data-testid={`session-${occurrence.sessionId}`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-medium">{occurrence.title}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {format(start, "EEE, MMM d · p")} – {format(new Date(occurrence.endsAt), "p")}
+                        {occurrence.timeZone !== browserTimeZone && (
+                          <span>
+                            {" "}
+                            ({organizerTime(occurrence)} {occurrence.timeZone})
+                          </span>
+                        )}
+                      </p>
+                    </div>
+                    {canManage && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Delete session"
+                        onClick={() => setDeleting(occurrence)}
+                        data-testid={`button-delete-session-${occurrence.sessionId}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                  {occurrence.recurrence && (
+                    <p className="text-xs text-muted-foreground flex items-center">
+                      <Repeat className="mr-1 h-3 w-3" />
+                      {describeRecurrence(occurrence.recurrence)}
+                    </p>
+                  )}
+                  {occurrence.location && (
+                    <p className="text-xs text-muted-foreground flex items-center">
+                      <MapPin className="mr-1 h-3 w-3" />
+                      {occurrence.location}
+                    </p>
+                  )}
+                  {occurrence.description && <p className="text-sm">{occurrence.description}</p>}
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-xs text-muted-foreground mr-auto">
+                      {occurrence.going} going · {occurrence.maybe} maybe
+                    </span>
+                    {isMember &&
+                      (Object.keys(rsvpLabels) as RsvpStatus[]).map((status) => (
+                        <Button
+                          key={status}
+                          size="sm"
+                          variant={occurrence.myRsvp === status ? "default" : "outline"}
+                          onClick={() => rsvpMutation.mutate({ occurrence, status })}
+                          disabled={rsvpMutation.isPending}
+                          data-testid={`button-rsvp-${status}-${occurrence.sessionId}`}
+                        >
+                          {rsvpLabels[status]}
+                        </Button>
+                      ))}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </CardContent>
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.title}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting?.recurrence
+                ? "Every occurrence of this repeating session will be removed, along with members' replies."
+                : "The session and members' replies will be removed."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && deleteMutation.mutate(deleting.sessionId)}
+              disabled={deleteMutation.isPending}
+              data-testid="button-confirm-delete-session"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
+
+type Repeat = "none" | "DAILY" | "WEEKLY" | "MONTHLY";
+type Ending = "never" | "count" | "until";
+
+// RRULE for the dialog's repeat settings. UNTIL has no Z, so the server reads it in the
+// session's own time zone.
+const buildRecurrence = (repeat: Repeat, days: string[], ending: Ending, count: number, until: string) => {
+  if (repeat === "none") return null;
+  const parts = [`FREQ=${repeat}`];
+  if (repeat === "WEEKLY" && days.length > 0) parts.push(`BYDAY=${days.join(",")}`);
+  if (ending === "count") parts.push(`COUNT=${count}`);
+  if (ending === "until" && until) parts.push(`UNTIL=${until.replace(/-/g, "")}T235959`);
+  return parts.join(";");
+};
+
+function ScheduleSessionDialog({ groupId }: { groupId: string }) {
+  const [open, setOpen] = useState(false);
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [location, setLocation] = useState("");
+  const [date, setDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [time, setTime] = useState("19:00");
+  const [duration, setDuration] = useState("60");
+  const [timeZone, setTimeZone] = useState(browserTimeZone);
+  const [repeat, setRepeat] = useState<Repeat>("none");
+  const [days, setDays] = useState<string[]>([]);
+  const [ending, setEnding] = useState<Ending>("never");
+  const [count, setCount] = useState(10);
+  const [until, setUntil] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/study-groups/${groupId}/sessions`, {
+        title,
+        description: description.trim() || null,
+        location: location.trim() || null,
+        start: `${date}T${time}`,
+        timeZone,
+        durationMinutes: Number(duration),
+        recurrence: buildRecurrence(repeat, days, ending, count, until),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/study-groups"] });
+      setOpen(false);
+      setTitle("");
+      setDescription("");
+      setLocation("");
+      setRepeat("none");
+      toast({ title: "Session Scheduled", description: "Members can see it on the group's calendar." });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to schedule session. Check the time zone and dates and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = () => {
+    if (!title.trim() || !date || !time) {
+      toast({ title: "Error", description: "Please enter a title, date and time.", variant: "destructive" });
+      return;
+    }
+    createMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" data-testid="button-schedule-session">
+          <Plus className="mr-2 h-4 w-4" />
+          Schedule
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Schedule a Session</DialogTitle>
+          <DialogDescription>Members see it in their own time zone and can reply to each occurrence.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="session-title">Title</Label>
+            <Input
+              id="session-title"
+              placeholder="e.g., Weekly problem solving"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              data-testid="input-session-title"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="session-date">Date</Label>
+              <Input id="session-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="session-time">Time</Label>
+              <Input id="session-time" type="time" value={time} onChange={(e) => setTime(e.target.value)} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label>Duration</Label>
+              <Select value={duration} onValueChange={setDuration}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {["30", "45", "60", "90", "120", "180"].map((minutes) => (
+                    <SelectItem key={minutes} value={minutes}>
+                      {minutes} minutes
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="session-timezone">Time zone</Label>
+              <Input
+                id="session-timezone"
+                list="session-timezones"
+                value={timeZone}
+                onChange={(e) => setTimeZone(e.target.value)}
+                data-testid="input-session-timezone"
+              />
+              <datalist id="session-timezones">
+                {Intl.supportedValuesOf("timeZone").map((zone) => (
+                  <option key={zone} value={zone} />
+                ))}
+              </datalist>
+            </div>
+          </div>
+          <div>
+            <Label>Repeat</Label>
+            <Select value={repeat} onValueChange={(value) => setRepeat(value as Repeat)}>
+              <SelectTrigger data-testid="select-session-repeat">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Doesn't repeat</SelectItem>
+                <SelectItem value="DAILY">Daily</SelectItem>
+                <SelectItem value="WEEKLY">Weekly</SelectItem>
+                <SelectItem value="MONTHLY">Monthly</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {repeat === "WEEKLY" && (
+            <ToggleGroup type="multiple" value={days} onValueChange={setDays} className="justify-start flex-wrap">
+              {weekdays.map((day) => (
+                <ToggleGroupItem key={day} value={day} size="sm" aria-label={day}>
+                  {day}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          )}
+          {repeat !== "none" && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Ends</Label>
+                <Select value={ending} onValueChange={(value) => setEnding(value as Ending)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="never">Never</SelectItem>
+                    <SelectItem value="count">After a number of sessions</SelectItem>
+                    <SelectItem value="until">On a date</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {ending === "count" && (
+                <div>
+                  <Label htmlFor="session-count">Sessions</Label>
+                  <Input
+                    id="session-count"
+                    type="number"
+                    min={1}
+                    max={500}
+                    value={count}
+                    onChange={(e) => setCount(Math.max(1, Number(e.target.value) || 1))}
+                  />
+                </div>
+              )}
+              {ending === "until" && (
+                <div>
+                  <Label htmlFor="session-until">Last date</Label>
+                  <Input id="session-until" type="date" value={until} onChange={(e) => setUntil(e.target.value)} />
+                </div>
+              )}
+            </div>
+          )}
+          <div>
+            <Label htmlFor="session-location">Location (Optional)</Label>
+            <Input
+              id="session-location"
+              placeholder="A room, or a video call link"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="session-description">Description (Optional)</Label>
+            <Textarea
+              id="session-description"
+              placeholder="What will you cover?"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <Button
+            onClick={handleSubmit}
+            disabled={createMutation.isPending}
+            className="w-full"
+            data-testid="button-submit-session"
+          >
+            {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Schedule Session
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -19,6 +20,7 @@ import {
   Loader2,
 } from "lucide-react";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { useAiStream } from "@/hooks/use-ai-stream";
 
 type DifficultyLevel = "beginner" | "intermediate" | "advanced";
 
@@ -39,23 +41,27 @@ export function LearningContent() {
   const [generatedContent, setGeneratedContent] = useState<string>("");
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
 
   // Fetch user topics
   const { data: topics, isLoading: topicsLoading } = useQuery<Topic[]>({
     queryKey: ["/api/topics"],
   });
 
-  // Generate AI explanation mutation
+  // Flashcards due for spaced-repetition review today
+  const { data: dueFlashcards } = useQuery<{ id: string }[]>({
+    queryKey: ["/api/flashcards/due"],
+  });
+
+  // Generate AI explanation mutation, streamed so the text appears as it is written
+  const explainStream = useAiStream();
   const explainMutation = useMutation({
-    mutationFn: async ({ topic, difficulty }: { topic: string; difficulty: DifficultyLevel }) => {
-      const response = await apiRequest("POST", "/api/ai/explain", {
-        topic,
-        difficulty,
-      });
-      return response.json();
-    },
-    onSuccess: (data) => {
-      setGeneratedContent(data.explanation);
+    mutationFn: ({ topic, difficulty }: { topic: string; difficulty: DifficultyLevel }) =>
+      explainStream.start("/api/ai/explain/stream", { topic, difficulty }),
+    onSuccess: (explanation) => {
+      // null means the stream was cancelled (e.g. the user navigated away)
+      if (explanation === null) return;
+      setGeneratedContent(explanation);
       toast({
         title: "Explanation Generated",
         description: "AI has generated a personalized explanation for your topic.",
@@ -132,11 +138,12 @@ export function LearningContent() {
       });
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       toast({
         title: "Quiz Generated",
         description: "A new quiz has been created for this topic.",
       });
+      setLocation(`/quizzes/${data.quiz.id}`);
     },
     onError: (error) => {
       if (isUnauthorizedError(error)) {
@@ -169,6 +176,7 @@ export function LearningContent() {
       return response.json();
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/flashcards/due"] });
       toast({
         title: "Flashcards Generated",
         description: "New flashcards have been created for this topic.",
@@ -194,6 +202,8 @@ export function LearningContent() {
     },
   });
 
+  const displayedContent = explainMutation.isPending ? explainStream.text : generatedContent;
+
   const handleGenerateExplanation = () => {
     if (!newTopic.trim()) {
       toast({
@@ -318,7 +328,7 @@ export function LearningContent() {
           </div>
 
           {/* AI Generated Content */}
-          {generatedContent && (
+          {displayedContent && (
             <Card className="border-l-4 border-l-primary">
               <CardContent className="pt-6">
                 <div className="flex items-start space-x-3">
@@ -328,7 +338,7 @@ export function LearningContent() {
                   <div className="flex-1">
                     <h4 className="font-semibold mb-2">{newTopic}</h4>
                     <div className="text-muted-foreground mb-3 whitespace-pre-wrap">
-                      {generatedContent}
+                      {displayedContent}
                     </div>
                     <div className="flex gap-2 mb-4">
                       <Badge variant="secondary" className="bg-primary/10 text-primary">
@@ -340,7 +350,7 @@ export function LearningContent() {
                     </div>
                     <Button
                       onClick={handleSaveTopic}
-                      disabled={createTopicMutation.isPending}
+                      disabled={createTopicMutation.isPending || explainMutation.isPending}
                       data-testid="button-save-topic"
                     >
                       {createTopicMutation.isPending ? (
@@ -395,9 +405,11 @@ export function LearningContent() {
                           </p>
                         </div>
                       </div>
-                      <Button size="sm" data-testid={`button-continue-${topic.id}`}>
-                        <Play className="mr-2 h-4 w-4" />
-                        Continue
+                      <Button size="sm" asChild data-testid={`button-continue-${topic.id}`}>
+                        <Link href={`/topics/${topic.id}`}>
+                          <Play className="mr-2 h-4 w-4" />
+                          {topic.progress > 0 ? "Continue" : "Start"}
+                        </Link>
                       </Button>
                     </div>
                     <div className="space-y-2">
@@ -495,6 +507,16 @@ export function LearningContent() {
                   ) : null}
                   Create Flashcards
                 </Button>
+                <Button
+                  asChild
+                  variant="outline"
+                  className="w-full mt-2"
+                  data-testid="button-review-flashcards"
+                >
+                  <Link href="/flashcards/review">
+                    Review Due Cards ({dueFlashcards?.length ?? 0})
+                  </Link>
+                </Button>
               </CardContent>
             </Card>
           </div>
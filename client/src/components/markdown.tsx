@@ -0,0 +1,12 @@
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { cn } from "@/lib/utils";
+
+// Renders AI-generated and uploaded study material. Raw HTML in the source is not rendered.
+export function Markdown({ children, className }: { children: string; className?: string }) {
+  return (
+    <div className={cn("prose prose-sm sm:prose-base dark:prose-invert max-w-none", className)}>
+      <ReactMarkdown remarkPlugins={[remarkGfm]}>{children}</ReactMarkdown>
+    </div>
+  );
+}
@@ -29,6 +29,11 @@ export function Navbar() {
           Dashboard
         </Button>
       </Link>
+      <Link href="/paths" data-testid="link-learning-paths">
+        <Button variant="ghost" className="text-foreground hover:text-primary">
+          Learning Paths
+        </Button>
+      </Link>
       <Link href="/study-groups" data-testid="link-study-groups">
         <Button variant="ghost" className="text-foreground hover:text-primary">
           Study Groups
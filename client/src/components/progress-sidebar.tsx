@@ -1,37 +1,76 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Trophy, Flame, Star, Upload, Brain, Users } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Trophy, Flame, Star, Upload, Brain, Users, Loader2 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 
+type UploadStatus = "idle" | "uploading" | "processing";
+
+// XHR rather than fetch so we get upload progress events
+function uploadFile(file: File, onProgress: (percent: number) => void, onUploaded: () => void) {
+  return new Promise<{ topic: { title: string } }>((resolve, reject) => {
+    const formData = new FormData();
+    formData.append("file", file);
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", "/api/upload");
+    xhr.withCredentials = true;
+    xhr.responseType = "json";
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress(Math.round((e.loaded / e.total) * 100));
+    };
+    xhr.upload.onload = onUploaded;
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(xhr.response);
+      } else {
+        reject(new Error(xhr.response?.message || xhr.statusText));
+      }
+    };
+    xhr.onerror = () => reject(new Error("Network error"));
+    xhr.send(formData);
+  });
+}
+
 export function ProgressSidebar() {
   const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [uploadStatus, setUploadStatus] = useState<UploadStatus>("idle");
+  const [uploadProgress, setUploadProgress] = useState(0);
 
   if (!user) return null;
 
   const handleFileUpload = () => {
     const input = document.createElement("input");
     input.type = "file";
-    input.accept = ".pdf,.txt,.doc,.docx";
+    input.accept = ".pdf,.txt,.md,.docx";
     input.onchange = async (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
-      if (file) {
-        const formData = new FormData();
-        formData.append("file", file);
-        
-        try {
-          const response = await fetch("/api/upload", {
-            method: "POST",
-            body: formData,
-          });
-          
-          if (response.ok) {
-            // Handle successful upload
-            console.log("File uploaded successfully");
-          }
-        } catch (error) {
-          console.error("Upload error:", error);
-        }
+      if (!file) return;
+
+      setUploadStatus("uploading");
+      setUploadProgress(0);
+      try {
+        const data = await uploadFile(file, setUploadProgress, () => setUploadStatus("processing"));
+        queryClient.invalidateQueries({ queryKey: ["/api/topics"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+        toast({
+          title: "Content Uploaded",
+          description: `"${data.topic.title}" has been added to your topics.`,
+        });
+      } catch (error) {
+        toast({
+          title: "Upload Failed",
+          description: (error as Error).message,
+          variant: "destructive",
+        });
+      } finally {
+        setUploadStatus("idle");
       }
     };
     input.click();
@@ -114,11 +153,26 @@ export function ProgressSidebar() {
           <Button
             className="w-full bg-primary text-primary-foreground hover:opacity-90"
             onClick={handleFileUpload}
+            disabled={uploadStatus !== "idle"}
             data-testid="button-upload-content"
           >
-            <Upload className="mr-2 h-4 w-4" />
+            {uploadStatus === "idle" ? (
+              <Upload className="mr-2 h-4 w-4" />
+            ) : (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            )}
             Upload Content
           </Button>
+          {uploadStatus !== "idle" && (
+            <div className="space-y-1" data-testid="status-upload">
+              <Progress value={uploadStatus === "processing" ? 100 : uploadProgress} className="h-2" />
+              <p className="text-xs text-muted-foreground">
+                {uploadStatus === "uploading"
+                  ? `Uploading... ${uploadProgress}%`
+                  : "Extracting text and summarizing with AI..."}
+              </p>
+            </div>
+          )}
           
           <Button
             variant="outline"
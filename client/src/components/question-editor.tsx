@@ -0,0 +1,444 @@
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { ArrowDown, ArrowUp, CheckCircle2, Circle, CheckSquare, Plus, Square, Trash2, X } from "lucide-react";
+import {
+  questionDifficulties,
+  questionTypes,
+  quizQuestionSchema,
+  type QuestionType,
+  type QuizQuestion,
+} from "@shared/questions";
+
+export const questionTypeLabels: Record<QuestionType, string> = {
+  multiple_choice: "Multiple choice",
+  true_false: "True / false",
+  multi_select: "Multi-select",
+  fill_blank: "Fill in the blank",
+  ordering: "Ordering",
+  short_answer: "Short answer",
+};
+
+// How many options or items each list may hold, matching the shared question schema
+const listLimits = {
+  multiple_choice: { min: 2, max: 6 },
+  multi_select: { min: 2, max: 8 },
+  ordering: { min: 2, max: 8 },
+  fill_blank: { min: 1, max: 8 },
+};
+
+// A blank question of the given type, keeping the wording already typed when the type is switched
+export function emptyQuestion(type: QuestionType, from?: QuizQuestion): QuizQuestion {
+  const base = {
+    question: from?.question ?? "",
+    explanation: from?.explanation ?? "",
+    concept: from?.concept,
+    difficulty: from?.difficulty,
+  };
+  const options = from && "options" in from ? from.options : ["", "", "", ""];
+  switch (type) {
+    case "multiple_choice":
+      return { ...base, type, options, correctAnswer: 0 };
+    case "true_false":
+      return { ...base, type, correctAnswer: true };
+    case "multi_select":
+      return { ...base, type, options, correctAnswers: [0] };
+    case "fill_blank":
+      return { ...base, type, acceptedAnswers: [""] };
+    case "ordering":
+      return { ...base, type, items: from?.type === "ordering" ? from.items : ["", "", ""] };
+    case "short_answer":
+      return { ...base, type, rubric: "", sampleAnswer: "" };
+  }
+}
+
+// What is wrong with a question before it can be saved, or null if it is ready
+export function questionProblem(question: QuizQuestion): string | null {
+  const parsed = quizQuestionSchema.safeParse(question);
+  if (parsed.success) return null;
+  const issue = parsed.error.errors[0];
+  const field = issue.path[0];
+  if (field === "question") return "The question needs some text.";
+  if (field === "explanation") return "Add an explanation shown after answering.";
+  if (field === "options" || field === "items" || field === "acceptedAnswers") {
+    return "Fill in or remove the empty entries.";
+  }
+  if (field === "rubric" || field === "sampleAnswer") return "Short answers need a rubric and a model answer.";
+  return issue.message;
+}
+
+interface TextListProps {
+  values: string[];
+  min: number;
+  max: number;
+  placeholder: string;
+  onChange: (values: string[], removedIndex?: number) => void;
+  marker?: (index: number) => { active: boolean; onToggle: () => void; multiple: boolean };
+  reorderable?: boolean;
+  testId: string;
+}
+
+// Editable list of options, items or accepted answers
+function TextList({ values, min, max, placeholder, onChange, marker, reorderable, testId }: TextListProps) {
+  const move = (from: number, to: number) => {
+    const next = [...values];
+    [next[from], next[to]] = [next[to], next[from]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      {values.map((value, index) => {
+        const mark = marker?.(index);
+        const MarkIcon = mark?.multiple
+          ? mark.active
+            ? CheckSquare
+            : Square
+          : mark?.active
+            ? CheckCircle2
+            : Circle;
+        return (
+          <div key={index} className="flex items-center gap-2">
+            {mark && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                title="Mark as correct"
+                onClick={mark.onToggle}
+                data-testid={`${testId}-correct-${index}`}
+              >
+                <MarkIcon className={cn("h-4 w-4", mark.active ? "text-success" : "text-muted-foreground")} />
+              </Button>
+            )}
+            {reorderable && <span className="w-6 text-sm font-semibold text-muted-foreground">{index + 1}.</span>}
+            <Input
+              value={value}
+              placeholder={placeholder}
+              maxLength={500}
+              onChange={(e) => onChange(values.map((v, i) => (i === index ? e.target.value : v)))}
+              data-testid={`${testId}-${index}`}
+            />
+            {reorderable && (
+              <>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  disabled={index === 0}
+                  onClick={() => move(index, index - 1)}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  disabled={index === values.length - 1}
+                  onClick={() => move(index, index + 1)}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              disabled={values.length <= min}
+              onClick={() =>
+                onChange(
+                  values.filter((_, i) => i !== index),
+                  index,
+                )
+              }
+              data-testid={`${testId}-remove-${index}`}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={values.length >= max}
+        onClick={() => onChange([...values, ""])}
+        data-testid={`${testId}-add`}
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Add
+      </Button>
+    </div>
+  );
+}
+
+// Shifts answer indexes down past a removed option
+const afterRemoval = (indexes: number[], removed: number) =>
+  indexes.filter((i) => i !== removed).map((i) => (i > removed ? i - 1 : i));
+
+interface QuestionEditorProps {
+  index: number;
+  question: QuizQuestion;
+  onChange: (question: QuizQuestion) => void;
+  onRemove: () => void;
+  showProblems?: boolean;
+}
+
+// Form for one quiz question, with fields for its type's answer key
+export function QuestionEditor({ index, question, onChange, onRemove, showProblems }: QuestionEditorProps) {
+  const problem = showProblems ? questionProblem(question) : null;
+
+  const answerFields = () => {
+    switch (question.type) {
+      case "multiple_choice":
+        return (
+          <div className="space-y-2">
+            <Label>Options (mark the correct one)</Label>
+            <TextList
+              values={question.options}
+              {...listLimits.multiple_choice}
+              placeholder="Option"
+              testId={`input-option-${index}`}
+              marker={(i) => ({
+                active: question.correctAnswer === i,
+                multiple: false,
+                onToggle: () => onChange({ ...question, correctAnswer: i }),
+              })}
+              onChange={(options, removed) => {
+                const [correctAnswer = 0] =
+                  removed === undefined ? [question.correctAnswer] : afterRemoval([question.correctAnswer], removed);
+                onChange({ ...question, options, correctAnswer });
+              }}
+            />
+          </div>
+        );
+
+      case "true_false":
+        return (
+          <div className="space-y-2">
+            <Label>Correct answer</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {[true, false].map((value) => (
+                <Button
+                  key={String(value)}
+                  type="button"
+                  variant={question.correctAnswer === value ? "default" : "outline"}
+                  onClick={() => onChange({ ...question, correctAnswer: value })}
+                  data-testid={`button-correct-${value}-${index}`}
+                >
+                  {value ? "True" : "False"}
+                </Button>
+              ))}
+            </div>
+          </div>
+        );
+
+      case "multi_select":
+        return (
+          <div className="space-y-2">
+            <Label>Options (mark every correct one)</Label>
+            <TextList
+              values={question.options}
+              {...listLimits.multi_select}
+              placeholder="Option"
+              testId={`input-option-${index}`}
+              marker={(i) => ({
+                active: question.correctAnswers.includes(i),
+                multiple: true,
+                onToggle: () =>
+                  onChange({
+                    ...question,
+                    correctAnswers: question.correctAnswers.includes(i)
+                      ? question.correctAnswers.filter((c) => c !== i)
+                      : [...question.correctAnswers, i].sort((a, b) => a - b),
+                  }),
+              })}
+              onChange={(options, removed) =>
+                onChange({
+                  ...question,
+                  options,
+                  correctAnswers:
+                    removed === undefined ? question.correctAnswers : afterRemoval(question.correctAnswers, removed),
+                })
+              }
+            />
+          </div>
+        );
+
+      case "fill_blank":
+        return (
+          <div className="space-y-2">
+            <Label>Accepted answers</Label>
+            <p className="text-xs text-muted-foreground">
+              Mark the blank in the question with ___. Case and trailing punctuation are ignored when grading.
+            </p>
+            <TextList
+              values={question.acceptedAnswers}
+              {...listLimits.fill_blank}
+              placeholder="Accepted answer"
+              testId={`input-accepted-${index}`}
+              onChange={(acceptedAnswers) => onChange({ ...question, acceptedAnswers })}
+            />
+          </div>
+        );
+
+      case "ordering":
+        return (
+          <div className="space-y-2">
+            <Label>Items in the correct order</Label>
+            <p className="text-xs text-muted-foreground">Students see them shuffled.</p>
+            <TextList
+              values={question.items}
+              {...listLimits.ordering}
+              placeholder="Item"
+              reorderable
+              testId={`input-item-${index}`}
+              onChange={(items) => onChange({ ...question, items })}
+            />
+          </div>
+        );
+
+      case "short_answer":
+        return (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor={`rubric-${index}`}>Rubric</Label>
+              <Textarea
+                id={`rubric-${index}`}
+                value={question.rubric}
+                placeholder="What a correct answer must mention"
+                rows={3}
+                onChange={(e) => onChange({ ...question, rubric: e.target.value })}
+                data-testid={`input-rubric-${index}`}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`sample-${index}`}>Model answer</Label>
+              <Textarea
+                id={`sample-${index}`}
+                value={question.sampleAnswer}
+                rows={3}
+                onChange={(e) => onChange({ ...question, sampleAnswer: e.target.value })}
+                data-testid={`input-sample-answer-${index}`}
+              />
+            </div>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <Card className={cn(problem && "border-destructive")} data-testid={`card-question-editor-${index}`}>
+      <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+        <span className="font-semibold">Question {index + 1}</span>
+        <div className="flex items-center gap-2">
+          <Select
+            value={question.type}
+            onValueChange={(type) => onChange(emptyQuestion(type as QuestionType, question))}
+          >
+            <SelectTrigger className="w-44" data-testid={`select-question-type-${index}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {questionTypes.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {questionTypeLabels[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={onRemove}
+            data-testid={`button-remove-question-${index}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor={`question-${index}`}>Question</Label>
+          <Textarea
+            id={`question-${index}`}
+            value={question.question}
+            rows={2}
+            onChange={(e) => onChange({ ...question, question: e.target.value })}
+            data-testid={`input-question-${index}`}
+          />
+        </div>
+
+        {answerFields()}
+
+        <div className="space-y-2">
+          <Label htmlFor={`explanation-${index}`}>Explanation</Label>
+          <Textarea
+            id={`explanation-${index}`}
+            value={question.explanation}
+            placeholder="Shown with the results"
+            rows={2}
+            onChange={(e) => onChange({ ...question, explanation: e.target.value })}
+            data-testid={`input-explanation-${index}`}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor={`concept-${index}`}>Concept (optional)</Label>
+            <Input
+              id={`concept-${index}`}
+              value={question.concept ?? ""}
+              placeholder="What this question tests"
+              onChange={(e) => onChange({ ...question, concept: e.target.value || undefined })}
+              data-testid={`input-concept-${index}`}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Difficulty (optional)</Label>
+            <Select
+              value={question.difficulty ?? "unset"}
+              onValueChange={(value) =>
+                onChange({
+                  ...question,
+                  difficulty: value === "unset" ? undefined : (value as QuizQuestion["difficulty"]),
+                })
+              }
+            >
+              <SelectTrigger data-testid={`select-difficulty-${index}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="unset">Not set</SelectItem>
+                {questionDifficulties.map((difficulty) => (
+                  <SelectItem key={difficulty} value={difficulty}>
+                    {difficulty}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {problem && (
+          <p className="text-sm text-destructive" data-testid={`text-question-problem-${index}`}>
+            {problem}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,151 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { ArrowDown, ArrowUp, CheckSquare, Square } from "lucide-react";
+import type { PublicQuizQuestion, QuizAnswer } from "@shared/questions";
+
+interface QuestionInputProps {
+  question: PublicQuizQuestion;
+  answer: QuizAnswer | undefined;
+  onChange: (answer: QuizAnswer) => void;
+}
+
+const optionClass = (selected: boolean) =>
+  cn("w-full h-auto justify-start whitespace-normal text-left p-4", selected && "ring-2 ring-primary border-primary");
+
+// Answer controls for each question type in the quiz player
+export function QuestionInput({ question, answer, onChange }: QuestionInputProps) {
+  switch (question.type) {
+    case "multiple_choice":
+      return (
+        <div className="space-y-2">
+          {question.options.map((option, optionIndex) => (
+            <Button
+              key={optionIndex}
+              variant="outline"
+              className={optionClass(answer === optionIndex)}
+              onClick={() => onChange(optionIndex)}
+              data-testid={`button-option-${optionIndex}`}
+            >
+              {option}
+            </Button>
+          ))}
+        </div>
+      );
+
+    case "true_false":
+      return (
+        <div className="grid grid-cols-2 gap-2">
+          {[true, false].map((value) => (
+            <Button
+              key={String(value)}
+              variant="outline"
+              className={optionClass(answer === value)}
+              onClick={() => onChange(value)}
+              data-testid={`button-option-${value}`}
+            >
+              {value ? "True" : "False"}
+            </Button>
+          ))}
+        </div>
+      );
+
+    case "multi_select": {
+      const selected = Array.isArray(answer) ? (answer as number[]) : [];
+      const toggle = (optionIndex: number) =>
+        onChange(
+          selected.includes(optionIndex)
+            ? selected.filter((i) => i !== optionIndex)
+            : [...selected, optionIndex].sort((a, b) => a - b),
+        );
+      return (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">Select all that apply.</p>
+          {question.options.map((option, optionIndex) => {
+            const isSelected = selected.includes(optionIndex);
+            const Icon = isSelected ? CheckSquare : Square;
+            return (
+              <Button
+                key={optionIndex}
+                variant="outline"
+                className={optionClass(isSelected)}
+                onClick={() => toggle(optionIndex)}
+                data-testid={`button-option-${optionIndex}`}
+              >
+                <Icon className="mr-3 h-4 w-4 shrink-0" />
+                {option}
+              </Button>
+            );
+          })}
+        </div>
+      );
+    }
+
+    case "fill_blank":
+      return (
+        <Input
+          placeholder="Fill in the blank"
+          value={typeof answer === "string" ? answer : ""}
+          maxLength={500}
+          onChange={(e) => onChange(e.target.value)}
+          data-testid="input-fill-blank"
+        />
+      );
+
+    case "ordering": {
+      // Until the student moves something, the items stay in the order they were dealt
+      const items = Array.isArray(answer) ? (answer as string[]) : question.items;
+      const move = (from: number, to: number) => {
+        const next = [...items];
+        [next[from], next[to]] = [next[to], next[from]];
+        onChange(next);
+      };
+      return (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">Put these in the right order.</p>
+          {items.map((item, index) => (
+            <div
+              key={item}
+              className="flex items-center gap-2 rounded-lg border p-3 text-sm"
+              data-testid={`ordering-item-${index}`}
+            >
+              <span className="font-semibold text-muted-foreground w-6">{index + 1}.</span>
+              <span className="flex-1">{item}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={index === 0}
+                onClick={() => move(index, index - 1)}
+                data-testid={`button-move-up-${index}`}
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={index === items.length - 1}
+                onClick={() => move(index, index + 1)}
+                data-testid={`button-move-down-${index}`}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    case "short_answer":
+      return (
+        <Textarea
+          placeholder="Write your answer"
+          value={typeof answer === "string" ? answer : ""}
+          maxLength={2000}
+          rows={5}
+          onChange={(e) => onChange(e.target.value)}
+          data-testid="input-short-answer"
+        />
+      );
+  }
+}
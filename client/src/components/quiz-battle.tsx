@@ -0,0 +1,396 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { QuestionInput } from "@/components/question-input";
+import { useToast } from "@/hooks/use-toast";
+import { useRealtime } from "@/hooks/use-realtime";
+import { cn } from "@/lib/utils";
+import { CheckCircle, Loader2, Play, Swords, Trophy, XCircle } from "lucide-react";
+import { BATTLE_SECONDS_PER_QUESTION } from "@shared/realtime";
+import type { QuizBattleResult, QuizBattleState, ServerMessage } from "@shared/realtime";
+import type { PublicQuizQuestion, QuizAnswer } from "@shared/questions";
+import type { PublicUser } from "@shared/schema";
+
+interface QuizBattleProps {
+  groupId: string;
+  currentUserId?: string;
+  isMember: boolean;
+  canManage: boolean;
+}
+
+interface HostableQuiz {
+  id: string;
+  title: string;
+  questionCount: number;
+}
+
+interface AskedQuestion {
+  index: number;
+  question: PublicQuizQuestion;
+  deadline: number;
+}
+
+interface Reveal {
+  index: number;
+  correctAnswer: string;
+  explanation: string;
+  result?: QuizBattleResult;
+}
+
+const secondsOptions = [10, BATTLE_SECONDS_PER_QUESTION.default, 30, 60];
+
+const displayName = (user: PublicUser) => user.firstName || user.lastName || "Anonymous";
+
+const getInitials = (user: PublicUser) => {
+  const first = user.firstName?.[0] || "";
+  const last = user.lastName?.[0] || "";
+  return (first + last).toUpperCase() || "U";
+};
+
+// Live quiz battles: a group admin hosts a quiz, members answer against the clock and
+// everyone watches the leaderboard after each question
+export function QuizBattle({ groupId, currentUserId, isMember, canManage }: QuizBattleProps) {
+  const [battle, setBattle] = useState<QuizBattleState | null>(null);
+  const [watching, setWatching] = useState(false);
+  const [asked, setAsked] = useState<AskedQuestion | null>(null);
+  const [answer, setAnswer] = useState<QuizAnswer | undefined>();
+  const [locked, setLocked] = useState(false);
+  const [progress, setProgress] = useState<{ answered: number; players: number } | null>(null);
+  const [reveal, setReveal] = useState<Reveal | null>(null);
+  const [saved, setSaved] = useState<{ attemptId?: string; xpGained?: number } | null>(null);
+  const [quizId, setQuizId] = useState("");
+  const [secondsPerQuestion, setSecondsPerQuestion] = useState(String(BATTLE_SECONDS_PER_QUESTION.default));
+  const [now, setNow] = useState(() => Date.now());
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: quizzes = [] } = useQuery<HostableQuiz[]>({
+    queryKey: ["/api/quizzes"],
+    enabled: canManage,
+  });
+
+  const handleMessage = (message: ServerMessage) => {
+    if (message.type === "error") {
+      toast({ title: "Quiz Battle", description: message.message, variant: "destructive" });
+      return;
+    }
+    if (message.groupId !== groupId) return;
+    switch (message.type) {
+      case "battle:state":
+        setWatching(true);
+        // A new battle, or none at all, starts from a clean slate
+        if (message.battle?.id !== battle?.id) {
+          setAsked(null);
+          setReveal(null);
+          setSaved(null);
+        }
+        setBattle(message.battle);
+        break;
+      case "battle:question":
+        setAsked({ index: message.index, question: message.question, deadline: new Date(message.deadline).getTime() });
+        setAnswer(undefined);
+        setLocked(message.answered);
+        setProgress(null);
+        setReveal(null);
+        break;
+      case "battle:progress":
+        setProgress({ answered: message.answered, players: message.players });
+        break;
+      case "battle:reveal":
+        setReveal({
+          index: message.index,
+          correctAnswer: message.correctAnswer,
+          explanation: message.explanation,
+          result: message.result,
+        });
+        break;
+      case "battle:finished":
+        setSaved({ attemptId: message.attemptId, xpGained: message.xpGained });
+        if (message.attemptId) {
+          queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/quiz-attempts"] });
+        }
+        break;
+    }
+  };
+
+  const { connected, send } = useRealtime(handleMessage);
+
+  // (Re)watch the group's battle whenever the socket (re)connects
+  useEffect(() => {
+    if (!connected) {
+      setWatching(false);
+      return;
+    }
+    send({ type: "battle:watch", groupId });
+    return () => {
+      send({ type: "battle:unwatch", groupId });
+    };
+  }, [connected, groupId, send]);
+
+  // Ticks the countdown while a question is open
+  const questionOpen = battle?.status === "question";
+  useEffect(() => {
+    if (!questionOpen) return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [questionOpen]);
+
+  const isPlayer = battle?.standings.some((standing) => standing.user.id === currentUserId) ?? false;
+  const secondsLeft = asked ? Math.max(0, Math.ceil((asked.deadline - now) / 1000)) : 0;
+
+  const lockIn = () => {
+    if (!asked) return;
+    // An ordering question left as dealt is answered in that order
+    const given = answer ?? (asked.question.type === "ordering" ? asked.question.items : null);
+    if (send({ type: "battle:answer", groupId, questionIndex: asked.index, answer: given })) {
+      setLocked(true);
+    }
+  };
+
+  const hostBattle = () => {
+    if (!quizId) {
+      toast({ title: "Error", description: "Pick a quiz to host.", variant: "destructive" });
+      return;
+    }
+    send({ type: "battle:host", groupId, quizId, secondsPerQuestion: Number(secondsPerQuestion) });
+  };
+
+  const standings = battle && battle.standings.length > 0 && (
+    <div className="space-y-2" data-testid="list-battle-standings">
+      {battle.standings.map((standing, rank) => (
+        <div
+          key={standing.user.id}
+          className={cn(
+            "flex items-center gap-3 rounded-md px-3 py-2",
+            standing.user.id === currentUserId ? "bg-primary/10" : "bg-muted/50",
+          )}
+        >
+          <span className="w-6 text-sm font-semibold text-muted-foreground">{rank + 1}</span>
+          <Avatar className="w-7 h-7">
+            <AvatarImage src={standing.user.profileImageUrl || undefined} />
+            <AvatarFallback className="bg-primary text-white text-xs">{getInitials(standing.user)}</AvatarFallback>
+          </Avatar>
+          <span className="flex-1 text-sm truncate">
+            {standing.user.id === currentUserId ? "You" : displayName(standing.user)}
+          </span>
+          {battle.status !== "lobby" && (
+            <span className="text-xs text-muted-foreground">{standing.correct} correct</span>
+          )}
+          {battle.status !== "lobby" && <span className="text-sm font-semibold w-14 text-right">{standing.points}</span>}
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-base flex items-center">
+          <Swords className="mr-2 h-4 w-4" />
+          Quiz Battle
+        </CardTitle>
+        {battle && battle.status !== "lobby" && battle.status !== "finished" && (
+          <Badge variant="outline">
+            Question {battle.questionIndex + 1} of {battle.questionCount}
+          </Badge>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!watching ? (
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        ) : !battle ? (
+          canManage ? (
+            <div className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                Host one of your quizzes. Members answer each question against the clock, and faster correct
+                answers score more.
+              </p>
+              <div className="grid sm:grid-cols-[1fr_auto] gap-3">
+                <div>
+                  <Label>Quiz</Label>
+                  <Select value={quizId} onValueChange={setQuizId}>
+                    <SelectTrigger data-testid="select-battle-quiz">
+                      <SelectValue placeholder={quizzes.length > 0 ? "Pick a quiz" : "You haven't made any quizzes yet"} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {quizzes.map((quiz) => (
+                        <SelectItem key={quiz.id} value={quiz.id}>
+                          {quiz.title} ({quiz.questionCount} questions)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Time per question</Label>
+                  <Select value={secondsPerQuestion} onValueChange={setSecondsPerQuestion}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {secondsOptions.map((seconds) => (
+                        <SelectItem key={seconds} value={String(seconds)}>
+                          {seconds} seconds
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <Button onClick={hostBattle} disabled={!connected} data-testid="button-host-battle">
+                <Swords className="mr-2 h-4 w-4" />
+                Open Lobby
+              </Button>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No quiz battle right now. Group admins can host one, and it will show up here.
+            </p>
+          )
+        ) : battle.status === "lobby" ? (
+          <div className="space-y-3">
+            <p className="text-sm">
+              <span className="font-medium">{displayName(battle.host)}</span> is hosting{" "}
+              <span className="font-medium">{battle.quizTitle}</span>: {battle.questionCount} questions,{" "}
+              {battle.secondsPerQuestion} seconds each.
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {battle.standings.length === 0
+                ? "Waiting for players..."
+                : `${battle.standings.length} ${battle.standings.length === 1 ? "player" : "players"} ready`}
+            </p>
+            {standings}
+            <div className="flex flex-wrap gap-2">
+              {isMember && !isPlayer && (
+                <Button onClick={() => send({ type: "battle:join", groupId })} data-testid="button-join-battle">
+                  Join Battle
+                </Button>
+              )}
+              {canManage && (
+                <>
+                  <Button
+                    onClick={() => send({ type: "battle:start", groupId })}
+                    disabled={battle.standings.length === 0}
+                    data-testid="button-start-battle"
+                  >
+                    <Play className="mr-2 h-4 w-4" />
+                    Start
+                  </Button>
+                  <Button variant="outline" onClick={() => send({ type: "battle:cancel", groupId })}>
+                    Cancel
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        ) : battle.status === "finished" ? (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Trophy className="h-5 w-5 text-warning" />
+              <p className="font-medium">
+                {battle.standings[0]
+                  ? `${battle.standings[0].user.id === currentUserId ? "You win" : `${displayName(battle.standings[0].user)} wins`} ${battle.quizTitle}!`
+                  : `${battle.quizTitle} is over.`}
+              </p>
+            </div>
+            {standings}
+            <div className="flex flex-wrap items-center gap-2">
+              {saved?.attemptId && (
+                <>
+                  <span className="text-sm text-muted-foreground mr-auto">+{saved.xpGained} XP</span>
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href={`/quiz-attempts/${saved.attemptId}`} data-testid="link-battle-attempt">
+                      Review Your Answers
+                    </Link>
+                  </Button>
+                </>
+              )}
+              {canManage && (
+                <Button size="sm" onClick={() => send({ type: "battle:cancel", groupId })} data-testid="button-close-battle">
+                  Close
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {asked && battle.status === "question" && (
+              <div className="space-y-3">
+                <div className="flex items-center gap-3">
+                  <Progress value={(secondsLeft / battle.secondsPerQuestion) * 100} className="flex-1" />
+                  <span className="text-sm font-semibold w-8 text-right" data-testid="text-battle-countdown">
+                    {secondsLeft}s
+                  </span>
+                </div>
+                <p className="font-medium">{asked.question.question}</p>
+                {!isPlayer ? (
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm text-muted-foreground">You're watching this battle.</p>
+                    {isMember && (
+                      <Button size="sm" onClick={() => send({ type: "battle:join", groupId })}>
+                        Join Battle
+                      </Button>
+                    )}
+                  </div>
+                ) : locked ? (
+                  <p className="text-sm text-muted-foreground" data-testid="text-battle-locked">
+                    Answer locked in.
+                    {progress && ` ${progress.answered} of ${progress.players} players have answered.`}
+                  </p>
+                ) : (
+                  <>
+                    <QuestionInput question={asked.question} answer={answer} onChange={setAnswer} />
+                    <Button onClick={lockIn} disabled={secondsLeft === 0} data-testid="button-lock-answer">
+                      Lock In
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
+            {reveal && battle.status === "reveal" && (
+              <div className="rounded-md border p-3 space-y-1">
+                {reveal.result && (
+                  <p
+                    className={cn(
+                      "font-medium flex items-center",
+                      reveal.result.isCorrect ? "text-success" : "text-destructive",
+                    )}
+                  >
+                    {reveal.result.isCorrect ? (
+                      <CheckCircle className="mr-2 h-4 w-4" />
+                    ) : (
+                      <XCircle className="mr-2 h-4 w-4" />
+                    )}
+                    {reveal.result.isCorrect
+                      ? `Correct! +${reveal.result.points}`
+                      : reveal.result.answered
+                        ? "Not quite."
+                        : "Time's up."}
+                  </p>
+                )}
+                <p className="text-sm">
+                  Answer: <span className="font-medium">{reveal.correctAnswer}</span>
+                </p>
+                <p className="text-sm text-muted-foreground">{reveal.explanation}</p>
+              </div>
+            )}
+            {standings}
+            {canManage && (
+              <Button variant="ghost" size="sm" onClick={() => send({ type: "battle:cancel", groupId })}>
+                End Battle
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { CheckCircle2, XCircle, Trophy, RotateCcw, Brain, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  formatAnswer,
+  formatCorrectAnswer,
+  isUnanswered,
+  type QuizAnswer,
+  type QuizQuestion,
+} from "@shared/questions";
+
+export type GradedQuestion = QuizQuestion & {
+  selected: QuizAnswer;
+  isCorrect: boolean;
+  feedback?: string;
+};
+
+// Options a choice question offered, marked with what was correct and what was picked
+function OptionList({ question }: { question: GradedQuestion }) {
+  if (question.type !== "multiple_choice" && question.type !== "multi_select") return null;
+  const correct = question.type === "multiple_choice" ? [question.correctAnswer] : question.correctAnswers;
+  const selected = Array.isArray(question.selected)
+    ? (question.selected as number[])
+    : typeof question.selected === "number"
+      ? [question.selected]
+      : [];
+
+  return (
+    <>
+      {question.options.map((option, optionIndex) => (
+        <div
+          key={optionIndex}
+          className={cn(
+            "p-3 rounded-lg border text-sm",
+            correct.includes(optionIndex) && "border-success bg-success/10",
+            selected.includes(optionIndex) &&
+              !correct.includes(optionIndex) &&
+              "border-destructive bg-destructive/10",
+          )}
+        >
+          {option}
+        </div>
+      ))}
+    </>
+  );
+}
+
+export interface QuizAttemptResult {
+  attempt: {
+    id: string;
+    quizId: string;
+    status?: string;
+    score: number;
+    totalQuestions: number;
+    completedAt: string;
+    analysis?: string | null;
+  };
+  quizTitle: string;
+  score: number;
+  totalQuestions: number;
+  results: GradedQuestion[];
+  xpGained?: number;
+}
+
+interface QuizResultsProps {
+  result: QuizAttemptResult;
+  onRetake?: () => void;
+}
+
+export function QuizResults({ result, onRetake }: QuizResultsProps) {
+  const percentage = Math.round((result.score / Math.max(result.totalQuestions, 1)) * 100);
+  const [analysis, setAnalysis] = useState(result.attempt.analysis ?? null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const analysisMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/quiz-attempts/${result.attempt.id}/analysis`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setAnalysis(data.analysis);
+      queryClient.invalidateQueries({ queryKey: ["/api/quiz-attempts", result.attempt.id] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to analyze your performance. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-l-4 border-l-primary">
+        <CardContent className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center space-x-3">
+              <div className="w-12 h-12 bg-success rounded-full flex items-center justify-center">
+                <Trophy className="h-6 w-6 text-white" />
+              </div>
+              <div>
+                <h2 className="text-2xl font-bold" data-testid="text-quiz-score">
+                  {result.score}/{result.totalQuestions} correct
+                </h2>
+                <p className="text-muted-foreground">
+                  {result.quizTitle}
+                  {result.attempt.status === "expired" && " · Submitted when time ran out"}
+                </p>
+              </div>
+            </div>
+            {result.xpGained !== undefined && (
+              <Badge variant="secondary" className="bg-success/10 text-success text-base">
+                +{result.xpGained} XP
+              </Badge>
+            )}
+          </div>
+          <Progress value={percentage} className="h-2" />
+          <div className="flex gap-2 mt-4">
+            {onRetake && (
+              <Button onClick={onRetake} data-testid="button-retake-quiz">
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Retake Quiz
+              </Button>
+            )}
+            <Button variant="outline" asChild>
+              <Link href="/">Back to Dashboard</Link>
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center">
+            <Brain className="mr-2 h-5 w-5 text-primary" />
+            AI Performance Analysis
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {analysis ? (
+            <div className="text-muted-foreground whitespace-pre-wrap" data-testid="text-quiz-analysis">
+              {analysis}
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                Get feedback on the concepts you missed and what to study next.
+              </p>
+              <Button
+                onClick={() => analysisMutation.mutate()}
+                disabled={analysisMutation.isPending}
+                data-testid="button-analyze-quiz"
+              >
+                {analysisMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Brain className="mr-2 h-4 w-4" />
+                )}
+                Analyze My Performance
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {result.results.map((question, index) => (
+        <Card key={index} data-testid={`card-result-${index}`}>
+          <CardHeader>
+            <CardTitle className="text-base flex items-start gap-2">
+              {question.isCorrect ? (
+                <CheckCircle2 className="h-5 w-5 text-success flex-shrink-0" />
+              ) : (
+                <XCircle className="h-5 w-5 text-destructive flex-shrink-0" />
+              )}
+              <span>
+                {index + 1}. {question.question}
+              </span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {question.type === "multiple_choice" || question.type === "multi_select" ? (
+              <OptionList question={question} />
+            ) : (
+              <div className="space-y-1 text-sm">
+                {!isUnanswered(question.selected) && (
+                  <p>
+                    <span className="font-semibold">Your answer: </span>
+                    {formatAnswer(question, question.selected)}
+                  </p>
+                )}
+                {!question.isCorrect && (
+                  <p>
+                    <span className="font-semibold">
+                      {question.type === "short_answer" ? "Model answer: " : "Correct answer: "}
+                    </span>
+                    {formatCorrectAnswer(question)}
+                  </p>
+                )}
+              </div>
+            )}
+            {question.feedback && (
+              <p className="text-sm" data-testid={`text-feedback-${index}`}>
+                <span className="font-semibold">Feedback: </span>
+                {question.feedback}
+              </p>
+            )}
+            {isUnanswered(question.selected) && (
+              <p className="text-sm text-muted-foreground">You skipped this question.</p>
+            )}
+            <p className="text-sm text-muted-foreground pt-2">
+              <span className="font-semibold text-foreground">Explanation: </span>
+              {question.explanation}
+            </p>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
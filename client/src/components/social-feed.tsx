@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { Link } from "wouter";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -44,9 +45,10 @@ interface StudyGroup {
   name: string;
   description?: string;
   memberCount: number;
-  nextSession?: string;
+  nextSession: string | null;
   creator: User;
   isActive: boolean;
+  myRole: "admin" | "member" | null;
 }
 
 export function SocialFeed() {
@@ -349,23 +351,31 @@ export function SocialFeed() {
                         <>
                           {" • "}
                           <Calendar className="inline h-3 w-3 mr-1" />
-                          Next: {formatDistanceToNow(new Date(group.nextSession))}
+                          Next: {formatDistanceToNow(new Date(group.nextSession), { addSuffix: true })}
                         </>
                       )}
                     </p>
-                    <Button
-                      size="sm"
-                      className="w-full"
-                      variant={group.isActive ? "default" : "outline"}
-                      onClick={() => joinGroupMutation.mutate(group.id)}
-                      disabled={joinGroupMutation.isPending}
-                      data-testid={`button-join-group-${group.id}`}
-                    >
-                      {joinGroupMutation.isPending ? (
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      ) : null}
-                      {group.isActive ? "Join Now" : "Schedule"}
-                    </Button>
+                    {group.myRole ? (
+                      <Button size="sm" className="w-full" variant="outline" asChild>
+                        <Link href={`/study-groups/${group.id}`} data-testid={`link-open-group-${group.id}`}>
+                          Open Group
+                        </Link>
+                      </Button>
+                    ) : (
+                      <Button
+                        size="sm"
+                        className="w-full"
+                        variant={group.isActive ? "default" : "outline"}
+                        onClick={() => joinGroupMutation.mutate(group.id)}
+                        disabled={joinGroupMutation.isPending}
+                        data-testid={`button-join-group-${group.id}`}
+                      >
+                        {joinGroupMutation.isPending && joinGroupMutation.variables === group.id ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : null}
+                        {group.isActive ? "Join Now" : "Schedule"}
+                      </Button>
+                    )}
                   </CardContent>
                 </Card>
               ))}
@@ -0,0 +1,166 @@
+import { useLocation } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { ArrowDownRight, ArrowUpRight, HelpCircle, Loader2, Target } from "lucide-react";
+
+type DifficultyLevel = "beginner" | "intermediate" | "advanced";
+
+interface TopicMastery {
+  attempts: number;
+  mastery: number | null;
+  targetDifficulty: "easy" | "medium" | "hard";
+  missedDifficulty: "easy" | "medium" | "hard" | null;
+  weakConcepts: string[];
+  recommendedDifficulty: DifficultyLevel | null;
+}
+
+interface TopicMasteryCardProps {
+  topicId: string;
+  title: string;
+  difficulty: string;
+}
+
+const levels: DifficultyLevel[] = ["beginner", "intermediate", "advanced"];
+
+// Shows what the student's quiz history says about a topic and offers a quiz aimed at their weak spots
+export function TopicMasteryCard({ topicId, title, difficulty }: TopicMasteryCardProps) {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: mastery } = useQuery<TopicMastery>({
+    queryKey: ["/api/topics", topicId, "mastery"],
+  });
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const quizMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/ai/quiz", { topic: title, topicId, questionCount: 5 });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/topics", topicId, "quizzes"] });
+      setLocation(`/quizzes/${data.quiz.id}`);
+    },
+    onError: (error) => handleError(error, "Failed to generate quiz. Please try again."),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (level: DifficultyLevel) => {
+      const response = await apiRequest("POST", `/api/topics/${topicId}/regenerate`, { difficulty: level });
+      return response.json();
+    },
+    onSuccess: (_data, level) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/topics"] });
+      toast({ title: "Topic Updated", description: `This topic is now explained at the ${level} level.` });
+    },
+    onError: (error) => handleError(error, "Failed to change the topic's level. Please try again."),
+  });
+
+  const recommended = mastery?.recommendedDifficulty;
+  const isLevelUp = !!recommended && levels.indexOf(recommended) > levels.indexOf(difficulty as DifficultyLevel);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center">
+          <Target className="mr-2 h-4 w-4" />
+          Mastery
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!mastery || mastery.mastery === null ? (
+          <p className="text-sm text-muted-foreground">
+            Take a quiz on this topic and the next ones will adapt to what you get wrong.
+          </p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span>
+                  Based on your last {mastery.attempts} quiz{mastery.attempts === 1 ? "" : "zes"}
+                </span>
+                <span className="font-medium" data-testid="text-topic-mastery">
+                  {mastery.mastery}%
+                </span>
+              </div>
+              <Progress value={mastery.mastery} className="h-2" />
+            </div>
+
+            {mastery.weakConcepts.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Keep practising</p>
+                <div className="flex flex-wrap gap-2">
+                  {mastery.weakConcepts.map((concept) => (
+                    <Badge key={concept} variant="secondary" data-testid="badge-weak-concept">
+                      {concept}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {recommended && (
+              <div className="flex items-center justify-between gap-4 rounded-md border px-3 py-2 text-sm">
+                <span className="flex items-center">
+                  {isLevelUp ? (
+                    <ArrowUpRight className="mr-2 h-4 w-4 text-success" />
+                  ) : (
+                    <ArrowDownRight className="mr-2 h-4 w-4 text-muted-foreground" />
+                  )}
+                  {isLevelUp
+                    ? `You're ready for the ${recommended} level.`
+                    : `The ${recommended} level may help you build a stronger base.`}
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={regenerateMutation.isPending}
+                  onClick={() => regenerateMutation.mutate(recommended)}
+                  data-testid="button-apply-recommendation"
+                >
+                  {regenerateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Switch to {recommended}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+
+        <Button
+          className="w-full"
+          onClick={() => quizMutation.mutate()}
+          disabled={quizMutation.isPending}
+          data-testid="button-adaptive-quiz"
+        >
+          {quizMutation.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <HelpCircle className="mr-2 h-4 w-4" />
+          )}
+          {mastery?.mastery == null ? "Take a Quiz" : "Take an Adaptive Quiz"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
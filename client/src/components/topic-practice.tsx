@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { BookOpen, ClipboardList, Pencil, Play, Plus, Trash2 } from "lucide-react";
+
+interface TopicQuiz {
+  id: string;
+  title: string;
+  questionCount: number;
+  timeLimitSeconds: number | null;
+  readOnly: boolean; // a copy of a shared quiz, which can't be edited
+}
+
+interface TopicPracticeProps {
+  topicId: string;
+}
+
+// A topic's quizzes, with links to write new ones and manage its flashcards
+export function TopicPractice({ topicId }: TopicPracticeProps) {
+  const [deleting, setDeleting] = useState<TopicQuiz | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: quizzes = [] } = useQuery<TopicQuiz[]>({
+    queryKey: ["/api/topics", topicId, "quizzes"],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (quizId: string) => {
+      await apiRequest("DELETE", `/api/quizzes/${quizId}`);
+    },
+    onSuccess: () => {
+      setDeleting(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/topics", topicId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/quiz-attempts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/learning-paths"] });
+      toast({ title: "Quiz Deleted", description: "The quiz and its attempts were removed." });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to delete quiz. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center">
+          <ClipboardList className="mr-2 h-4 w-4" />
+          Practice
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {quizzes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No quizzes yet. Write one or let AI draft it.</p>
+        ) : (
+          quizzes.map((quiz) => (
+            <div key={quiz.id} className="flex items-center gap-1 text-sm" data-testid={`row-quiz-${quiz.id}`}>
+              <span className="flex-1 truncate">{quiz.title}</span>
+              {quiz.timeLimitSeconds && <Badge variant="secondary">Exam</Badge>}
+              <Button variant="ghost" size="icon" asChild title="Take quiz">
+                <Link href={`/quizzes/${quiz.id}`}>
+                  <Play className="h-4 w-4" />
+                </Link>
+              </Button>
+              {!quiz.readOnly && (
+                <Button variant="ghost" size="icon" asChild title="Edit quiz">
+                  <Link href={`/quizzes/${quiz.id}/edit`} data-testid={`link-edit-quiz-${quiz.id}`}>
+                    <Pencil className="h-4 w-4" />
+                  </Link>
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Delete quiz"
+                onClick={() => setDeleting(quiz)}
+                data-testid={`button-delete-quiz-${quiz.id}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))
+        )}
+        <div className="grid grid-cols-2 gap-2 pt-2">
+          <Button variant="outline" size="sm" asChild>
+            <Link href={`/topics/${topicId}/quizzes/new`} data-testid="link-new-quiz">
+              <Plus className="mr-2 h-4 w-4" />
+              New Quiz
+            </Link>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <Link href={`/topics/${topicId}/flashcards`} data-testid="link-manage-flashcards">
+              <BookOpen className="mr-2 h-4 w-4" />
+              Flashcards
+            </Link>
+          </Button>
+        </div>
+      </CardContent>
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.title}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your attempts at this quiz and their results will be deleted too. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+              disabled={deleteMutation.isPending}
+              data-testid="button-confirm-delete-quiz"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
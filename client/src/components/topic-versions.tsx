@@ -0,0 +1,176 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { cn } from "@/lib/utils";
+import { formatDistanceToNow } from "date-fns";
+import { Brain, GraduationCap, History, Loader2, RefreshCw, Zap } from "lucide-react";
+
+type DifficultyLevel = "beginner" | "intermediate" | "advanced";
+
+interface TopicVersion {
+  id: string;
+  difficulty: string;
+  content: string;
+  aiGenerated: boolean;
+  createdAt: string;
+}
+
+interface TopicVersionsProps {
+  topicId: string;
+  difficulty: string;
+  content?: string | null;
+}
+
+const difficultyOptions = [
+  { value: "beginner" as const, label: "Like I'm 10", icon: Brain },
+  { value: "intermediate" as const, label: "Quick Revision", icon: Zap },
+  { value: "advanced" as const, label: "College Level", icon: GraduationCap },
+];
+
+const difficultyLabel = (difficulty: string) =>
+  difficultyOptions.find((option) => option.value === difficulty)?.label ?? difficulty;
+
+// Lets a student regenerate a topic at another difficulty and switch between the renderings kept so far
+export function TopicVersions({ topicId, difficulty, content }: TopicVersionsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: versions = [] } = useQuery<TopicVersion[]>({
+    queryKey: ["/api/topics", topicId, "versions"],
+  });
+
+  const refreshTopic = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/topics"] });
+  };
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (level: DifficultyLevel) => {
+      const response = await apiRequest("POST", `/api/topics/${topicId}/regenerate`, { difficulty: level });
+      return response.json();
+    },
+    onSuccess: (_data, level) => {
+      refreshTopic();
+      toast({
+        title: "Topic Regenerated",
+        description: `Now showing the ${difficultyLabel(level)} version.`,
+      });
+    },
+    onError: (error) => handleError(error, "Failed to regenerate this topic. Please try again."),
+  });
+
+  const activateMutation = useMutation({
+    mutationFn: async (versionId: string) => {
+      const response = await apiRequest("POST", `/api/topics/${topicId}/versions/${versionId}/activate`);
+      return response.json();
+    },
+    onSuccess: refreshTopic,
+    onError: (error) => handleError(error, "Failed to switch versions. Please try again."),
+  });
+
+  const isActive = (version: TopicVersion) => version.difficulty === difficulty && version.content === content;
+  const isBusy = regenerateMutation.isPending || activateMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Explain It Differently</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          {difficultyOptions.map((option) => {
+            // Versions come newest first, so this is the latest rendering at this level
+            const latest = versions.find((version) => version.difficulty === option.value);
+            const Icon = option.icon;
+            return (
+              <div key={option.value} className="flex gap-1">
+                <Button
+                  variant={difficulty === option.value ? "default" : "outline"}
+                  className="flex-1"
+                  disabled={isBusy || !latest || isActive(latest)}
+                  onClick={() => latest && activateMutation.mutate(latest.id)}
+                  title={latest ? `Switch to ${option.label}` : "Not generated yet"}
+                  data-testid={`button-switch-${option.value}`}
+                >
+                  <Icon className="mr-2 h-4 w-4" />
+                  {option.label}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  disabled={isBusy}
+                  onClick={() => regenerateMutation.mutate(option.value)}
+                  title={`Generate a new ${option.label} version`}
+                  data-testid={`button-regenerate-${option.value}`}
+                >
+                  {regenerateMutation.isPending && regenerateMutation.variables === option.value ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <RefreshCw className="h-4 w-4" />
+                  )}
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+
+        {versions.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium flex items-center">
+              <History className="mr-2 h-4 w-4" />
+              Saved versions
+            </p>
+            {versions.map((version) => (
+              <div
+                key={version.id}
+                className={cn(
+                  "flex items-center justify-between rounded-md border px-3 py-2 text-sm",
+                  isActive(version) && "border-primary bg-primary/5",
+                )}
+                data-testid={`version-${version.id}`}
+              >
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary">{difficultyLabel(version.difficulty)}</Badge>
+                  <span className="text-muted-foreground">
+                    {formatDistanceToNow(new Date(version.createdAt), { addSuffix: true })}
+                  </span>
+                </div>
+                {isActive(version) ? (
+                  <span className="text-xs text-primary font-medium">Showing</span>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={isBusy}
+                    onClick={() => activateMutation.mutate(version.id)}
+                    data-testid={`button-activate-${version.id}`}
+                  >
+                    Switch
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+interface StreamEvent {
+  event: string;
+  data: string;
+}
+
+// Splits a Server-Sent Events buffer into complete events plus the unfinished remainder
+function parseEvents(buffer: string): { events: StreamEvent[]; rest: string } {
+  const blocks = buffer.split("\n\n");
+  const rest = blocks.pop() ?? "";
+  const events = blocks.map((block) => {
+    let event = "message";
+    const data: string[] = [];
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+    }
+    return { event, data: data.join("\n") };
+  });
+  return { events, rest };
+}
+
+/**
+ * Streams text from one of the `/api/ai/.../stream` endpoints, exposing it as it
+ * arrives. Named events the server sends alongside the text (such as `citations`)
+ * are collected in `events`. The request is aborted on `cancel()`, on a new
+ * `start()` and on unmount.
+ */
+export function useAiStream() {
+  const [text, setText] = useState("");
+  const [events, setEvents] = useState<Record<string, unknown>>({});
+  const [isStreaming, setIsStreaming] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsStreaming(false);
+  }, []);
+
+  const reset = useCallback(() => {
+    cancel();
+    setText("");
+    setEvents({});
+  }, [cancel]);
+
+  // Resolves with the full text, or null if the stream was cancelled
+  const start = useCallback(
+    async (url: string, body: unknown): Promise<string | null> => {
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      setText("");
+      setEvents({});
+      setIsStreaming(true);
+
+      let fullText = "";
+      try {
+        const res = await fetch(url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+          credentials: "include",
+          signal: controller.signal,
+        });
+        if (!res.ok || !res.body) {
+          const message = (await res.text()) || res.statusText;
+          throw new Error(`${res.status}: ${message}`);
+        }
+
+        const reader = res.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = "";
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          const parsed = parseEvents(buffer + decoder.decode(value, { stream: true }));
+          buffer = parsed.rest;
+          for (const { event, data } of parsed.events) {
+            if (event === "error") {
+              throw new Error(JSON.parse(data).message || "Generation failed");
+            }
+            if (event === "message") {
+              fullText += JSON.parse(data).token;
+              setText(fullText);
+            } else if (event !== "done") {
+              const payload = JSON.parse(data);
+              setEvents((prev) => ({ ...prev, [event]: payload }));
+            }
+          }
+        }
+        return fullText;
+      } catch (error) {
+        if (controller.signal.aborted) return null;
+        throw error;
+      } finally {
+        if (controllerRef.current === controller) {
+          controllerRef.current = null;
+          setIsStreaming(false);
+        }
+      }
+    },
+    [],
+  );
+
+  useEffect(() => cancel, [cancel]);
+
+  return { text, events, isStreaming, start, cancel, reset };
+}
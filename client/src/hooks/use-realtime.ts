@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ClientMessage, ServerMessage } from "@shared/realtime";
+
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+
+/**
+ * Keeps a WebSocket to the server's `/ws` endpoint open while the component is
+ * mounted, reconnecting with exponential backoff when it drops. `connected`
+ * flips back to true after every reconnect, so components re-join their rooms
+ * by depending on it. `send` returns false while the socket is down.
+ */
+export function useRealtime(onMessage: (message: ServerMessage) => void) {
+  const [connected, setConnected] = useState(false);
+  const socketRef = useRef<WebSocket | null>(null);
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
+
+  useEffect(() => {
+    let disposed = false;
+    let attempts = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      const socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+      socketRef.current = socket;
+      socket.onopen = () => {
+        attempts = 0;
+        setConnected(true);
+      };
+      socket.onmessage = (event) => onMessageRef.current(JSON.parse(event.data));
+      socket.onclose = () => {
+        setConnected(false);
+        if (disposed) return;
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+        attempts += 1;
+        retryTimer = setTimeout(connect, delay);
+      };
+    };
+    connect();
+
+    return () => {
+      disposed = true;
+      clearTimeout(retryTimer);
+      socketRef.current?.close();
+    };
+  }, []);
+
+  const send = useCallback((message: ClientMessage) => {
+    const socket = socketRef.current;
+    if (socket?.readyState !== WebSocket.OPEN) return false;
+    socket.send(JSON.stringify(message));
+    return true;
+  }, []);
+
+  return { connected, send };
+}
@@ -1,14 +1,16 @@
 import { useQuery } from "@tanstack/react-query";
 import type { User } from "@shared/schema";
+import { getQueryFn } from "@/lib/queryClient";
 
 export function useAuth() {
-  const { data: user, isLoading } = useQuery<User>({
+  const { data: user, isLoading } = useQuery<User | null>({
     queryKey: ["/api/auth/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
     retry: false,
   });
 
   return {
-    user,
+    user: user ?? undefined,
     isLoading,
     isAuthenticated: !!user,
   };
@@ -0,0 +1,238 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Separator } from "@/components/ui/separator";
+import { Brain, Loader2 } from "lucide-react";
+import { SiGoogle } from "react-icons/si";
+import type { User } from "@shared/schema";
+
+// apiRequest errors look like `401: {"message":"..."}`
+const getErrorMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+};
+
+const googleErrors: Record<string, string> = {
+  google_unavailable: "Google sign-in is not configured on this server.",
+  google_failed: "Google sign-in failed. Please try again.",
+};
+
+export default function AuthPage() {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [firstName, setFirstName] = useState("");
+  const [lastName, setLastName] = useState("");
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // The Google callback redirects back here with ?error=... on failure
+  useEffect(() => {
+    const error = new URLSearchParams(window.location.search).get("error");
+    if (error && googleErrors[error]) {
+      toast({
+        title: "Login failed",
+        description: googleErrors[error],
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  const onAuthenticated = (user: User) => {
+    queryClient.setQueryData(["/api/auth/user"], user);
+    setLocation("/");
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: { email: string; password: string }) => {
+      const response = await apiRequest("POST", "/api/login", credentials);
+      return response.json();
+    },
+    onSuccess: onAuthenticated,
+    onError: (error) => {
+      toast({
+        title: "Login failed",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (data: {
+      email: string;
+      password: string;
+      firstName?: string;
+      lastName?: string;
+    }) => {
+      const response = await apiRequest("POST", "/api/register", data);
+      return response.json();
+    },
+    onSuccess: onAuthenticated,
+    onError: (error) => {
+      toast({
+        title: "Sign up failed",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleLogin = (e: React.FormEvent) => {
+    e.preventDefault();
+    loginMutation.mutate({ email, password });
+  };
+
+  const handleRegister = (e: React.FormEvent) => {
+    e.preventDefault();
+    registerMutation.mutate({
+      email,
+      password,
+      firstName: firstName.trim() || undefined,
+      lastName: lastName.trim() || undefined,
+    });
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-r from-primary to-secondary px-4">
+      <Card className="w-full max-w-md shadow-2xl">
+        <CardHeader className="text-center">
+          <div className="w-12 h-12 mx-auto mb-2 bg-gradient-to-r from-primary to-secondary rounded-lg flex items-center justify-center">
+            <Brain className="h-6 w-6 text-white" />
+          </div>
+          <CardTitle className="text-2xl">Welcome to EduAI Hub</CardTitle>
+          <CardDescription>Log in or create an account to start learning.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="login">
+            <TabsList className="grid w-full grid-cols-2 mb-4">
+              <TabsTrigger value="login" data-testid="tab-login">Log in</TabsTrigger>
+              <TabsTrigger value="register" data-testid="tab-register">Sign up</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="login">
+              <form onSubmit={handleLogin} className="space-y-4">
+                <div>
+                  <Label htmlFor="login-email">Email</Label>
+                  <Input
+                    id="login-email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    data-testid="input-login-email"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="login-password">Password</Label>
+                  <Input
+                    id="login-password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    data-testid="input-login-password"
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={loginMutation.isPending}
+                  data-testid="button-login-submit"
+                >
+                  {loginMutation.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : null}
+                  Log in
+                </Button>
+              </form>
+            </TabsContent>
+
+            <TabsContent value="register">
+              <form onSubmit={handleRegister} className="space-y-4">
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label htmlFor="register-first-name">First name</Label>
+                    <Input
+                      id="register-first-name"
+                      value={firstName}
+                      onChange={(e) => setFirstName(e.target.value)}
+                      data-testid="input-register-first-name"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="register-last-name">Last name</Label>
+                    <Input
+                      id="register-last-name"
+                      value={lastName}
+                      onChange={(e) => setLastName(e.target.value)}
+                      data-testid="input-register-last-name"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="register-email">Email</Label>
+                  <Input
+                    id="register-email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    data-testid="input-register-email"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="register-password">Password</Label>
+                  <Input
+                    id="register-password"
+                    type="password"
+                    minLength={8}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    data-testid="input-register-password"
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={registerMutation.isPending}
+                  data-testid="button-register-submit"
+                >
+                  {registerMutation.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : null}
+                  Create account
+                </Button>
+              </form>
+            </TabsContent>
+          </Tabs>
+
+          <div className="flex items-center gap-3 my-4">
+            <Separator className="flex-1" />
+            <span className="text-xs text-muted-foreground">or</span>
+            <Separator className="flex-1" />
+          </div>
+
+          <Button asChild variant="outline" className="w-full" data-testid="button-login-google">
+            <a href="/api/auth/google">
+              <SiGoogle className="mr-2 h-4 w-4" />
+              Continue with Google
+            </a>
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,422 @@
+import { useRef, useState } from "react";
+import { Link, useParams } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Navbar } from "@/components/navbar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { ArrowLeft, Check, Download, Loader2, Pencil, Plus, Save, Sparkles, Trash2, Upload, X } from "lucide-react";
+
+interface Topic {
+  id: string;
+  title: string;
+}
+
+interface Flashcard {
+  id: string;
+  front: string;
+  back: string;
+  nextReview: string;
+}
+
+interface CardDraft {
+  front: string;
+  back: string;
+}
+
+interface ImportResult {
+  imported: number;
+  skipped: number;
+}
+
+const DECK_FILE_TYPES = ".apkg,.csv,.tsv,.txt";
+
+const isComplete = (card: CardDraft) => card.front.trim() !== "" && card.back.trim() !== "";
+
+interface CardFieldsProps {
+  card: CardDraft;
+  onChange: (card: CardDraft) => void;
+  testId: string;
+}
+
+function CardFields({ card, onChange, testId }: CardFieldsProps) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 flex-1">
+      <div className="space-y-2">
+        <Label>Front</Label>
+        <Textarea
+          value={card.front}
+          rows={3}
+          maxLength={1000}
+          onChange={(e) => onChange({ ...card, front: e.target.value })}
+          data-testid={`input-front-${testId}`}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label>Back</Label>
+        <Textarea
+          value={card.back}
+          rows={3}
+          maxLength={2000}
+          onChange={(e) => onChange({ ...card, back: e.target.value })}
+          data-testid={`input-back-${testId}`}
+        />
+      </div>
+    </div>
+  );
+}
+
+// Writes, edits and deletes a topic's flashcards. AI-generated cards arrive as drafts
+// and are only saved once the student is happy with them.
+export default function FlashcardEditor() {
+  const { id } = useParams<{ id: string }>();
+  const [drafts, setDrafts] = useState<CardDraft[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<CardDraft>({ front: "", back: "" });
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: topic, isLoading } = useQuery<Topic>({
+    queryKey: ["/api/topics", id],
+  });
+
+  const { data: flashcards = [] } = useQuery<Flashcard[]>({
+    queryKey: ["/api/topics", id, "flashcards"],
+  });
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const refreshCards = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/topics", id, "flashcards"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/flashcards/due"] });
+  };
+
+  const draftMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/ai/flashcards", {
+        topic: topic?.title,
+        topicId: id,
+        cardCount: 10,
+        draft: true,
+      });
+      return response.json() as Promise<{ cards: CardDraft[] }>;
+    },
+    onSuccess: (data) => setDrafts((prev) => [...prev, ...data.cards]),
+    onError: (error) => handleError(error, "Failed to generate flashcards. Please try again."),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (cards: CardDraft[]) => {
+      const response = await apiRequest("POST", `/api/topics/${id}/flashcards`, { cards });
+      return response.json() as Promise<Flashcard[]>;
+    },
+    onSuccess: (saved) => {
+      setDrafts([]);
+      refreshCards();
+      toast({ title: "Flashcards Saved", description: `${saved.length} cards were added to your reviews.` });
+    },
+    onError: (error) => handleError(error, "Failed to save flashcards. Please try again."),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ cardId, card }: { cardId: string; card: CardDraft }) => {
+      const response = await apiRequest("PATCH", `/api/flashcards/${cardId}`, card);
+      return response.json();
+    },
+    onSuccess: () => {
+      setEditingId(null);
+      refreshCards();
+    },
+    onError: (error) => handleError(error, "Failed to update flashcard. Please try again."),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (cardId: string) => {
+      await apiRequest("DELETE", `/api/flashcards/${cardId}`);
+    },
+    onSuccess: refreshCards,
+    onError: (error) => handleError(error, "Failed to delete flashcard. Please try again."),
+  });
+
+  // Multipart upload, so it goes through fetch rather than apiRequest
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      const response = await fetch(`/api/topics/${id}/flashcards/import`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(`${response.status}: ${body?.message ?? response.statusText}`);
+      }
+      return response.json() as Promise<ImportResult>;
+    },
+    onSuccess: ({ imported, skipped }) => {
+      refreshCards();
+      toast({
+        title: "Flashcards Imported",
+        description:
+          skipped > 0
+            ? `${imported} cards were imported. ${skipped} without a front and back were skipped.`
+            : `${imported} cards were imported.`,
+      });
+    },
+    onError: (error) => handleError(error, error.message.replace(/^\d+: /, "")),
+  });
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) importMutation.mutate(file);
+  };
+
+  const handleSaveDrafts = () => {
+    if (!drafts.every(isComplete)) {
+      toast({
+        title: "Error",
+        description: "Every card needs a front and a back. Remove the ones you don't want.",
+        variant: "destructive",
+      });
+      return;
+    }
+    createMutation.mutate(drafts);
+  };
+
+  const startEditing = (card: Flashcard) => {
+    setEditingId(card.id);
+    setEditing({ front: card.front, back: card.back });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Button variant="ghost" asChild className="mb-4">
+          <Link href={`/topics/${id}`}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            {topic ? `Back to ${topic.title}` : "Back"}
+          </Link>
+        </Button>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : !topic ? (
+          <Card>
+            <CardContent className="p-12 text-center text-muted-foreground">
+              This topic could not be found.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            <h1 className="text-3xl font-bold" data-testid="text-flashcard-editor-title">
+              Flashcards: {topic.title}
+            </h1>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Import & Export</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <p className="text-sm text-muted-foreground">
+                  Import an Anki package (.apkg) or a CSV/TSV file with front and back columns. Review schedules
+                  come along where the file has them, and exports keep yours.
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <input
+                    ref={fileInput}
+                    type="file"
+                    accept={DECK_FILE_TYPES}
+                    className="hidden"
+                    onChange={handleImport}
+                    data-testid="input-import-deck"
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => fileInput.current?.click()}
+                    disabled={importMutation.isPending}
+                    data-testid="button-import-deck"
+                  >
+                    {importMutation.isPending ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Upload className="mr-2 h-4 w-4" />
+                    )}
+                    Import
+                  </Button>
+                  {flashcards.length > 0 &&
+                    (["csv", "apkg"] as const).map((format) => (
+                      <Button key={format} variant="outline" size="sm" asChild>
+                        <a
+                          href={`/api/topics/${id}/flashcards/export?format=${format}`}
+                          download
+                          data-testid={`link-export-${format}`}
+                        >
+                          <Download className="mr-2 h-4 w-4" />
+                          {format === "csv" ? "Export CSV" : "Export to Anki"}
+                        </a>
+                      </Button>
+                    ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+                <CardTitle className="text-lg">New Cards</CardTitle>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => draftMutation.mutate()}
+                    disabled={draftMutation.isPending}
+                    data-testid="button-draft-flashcards"
+                  >
+                    {draftMutation.isPending ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Sparkles className="mr-2 h-4 w-4" />
+                    )}
+                    Draft with AI
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setDrafts((prev) => [...prev, { front: "", back: "" }])}
+                    data-testid="button-add-flashcard"
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Card
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {drafts.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Write your own cards or draft some with AI. Drafts aren't saved until you save them.
+                  </p>
+                ) : (
+                  <>
+                    {drafts.map((draft, index) => (
+                      <div key={index} className="flex items-start gap-2 rounded-lg border p-4">
+                        <CardFields
+                          card={draft}
+                          testId={`draft-${index}`}
+                          onChange={(card) => setDrafts((prev) => prev.map((d, i) => (i === index ? card : d)))}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setDrafts((prev) => prev.filter((_, i) => i !== index))}
+                          data-testid={`button-remove-draft-${index}`}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button
+                      onClick={handleSaveDrafts}
+                      disabled={createMutation.isPending}
+                      data-testid="button-save-flashcards"
+                    >
+                      {createMutation.isPending ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Save className="mr-2 h-4 w-4" />
+                      )}
+                      Save {drafts.length} Card{drafts.length === 1 ? "" : "s"}
+                    </Button>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Saved Cards ({flashcards.length})</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {flashcards.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">This topic has no flashcards yet.</p>
+                ) : (
+                  flashcards.map((card) => (
+                    <div
+                      key={card.id}
+                      className="flex items-start gap-2 rounded-lg border p-4"
+                      data-testid={`card-flashcard-${card.id}`}
+                    >
+                      {editingId === card.id ? (
+                        <>
+                          <CardFields card={editing} testId={card.id} onChange={setEditing} />
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            disabled={!isComplete(editing) || updateMutation.isPending}
+                            onClick={() => updateMutation.mutate({ cardId: card.id, card: editing })}
+                            data-testid={`button-save-flashcard-${card.id}`}
+                          >
+                            <Check className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => setEditingId(null)}>
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </>
+                      ) : (
+                        <>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 flex-1 text-sm">
+                            <p className="font-medium whitespace-pre-wrap">{card.front}</p>
+                            <p className="text-muted-foreground whitespace-pre-wrap">{card.back}</p>
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => startEditing(card)}
+                            data-testid={`button-edit-flashcard-${card.id}`}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            disabled={deleteMutation.isPending}
+                            onClick={() => deleteMutation.mutate(card.id)}
+                            data-testid={`button-delete-flashcard-${card.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
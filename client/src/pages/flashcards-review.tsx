@@ -0,0 +1,196 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Navbar } from "@/components/navbar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { CheckCircle2, CreditCard, Loader2, RotateCcw } from "lucide-react";
+
+type ReviewRating = "again" | "hard" | "good" | "easy";
+
+interface DueFlashcard {
+  id: string;
+  topicId: string;
+  topicTitle: string;
+  front: string;
+  back: string;
+  nextReview: string;
+}
+
+const ratingOptions: { value: ReviewRating; label: string; className: string }[] = [
+  { value: "again", label: "Again", className: "bg-destructive text-white hover:bg-destructive/90" },
+  { value: "hard", label: "Hard", className: "bg-warning text-white hover:bg-warning/90" },
+  { value: "good", label: "Good", className: "bg-primary text-primary-foreground hover:bg-primary/90" },
+  { value: "easy", label: "Easy", className: "bg-success text-white hover:bg-success/90" },
+];
+
+export default function FlashcardsReview() {
+  const [queue, setQueue] = useState<DueFlashcard[]>([]);
+  const [reviewed, setReviewed] = useState(0);
+  const [flipped, setFlipped] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: dueCards, isLoading } = useQuery<DueFlashcard[]>({
+    queryKey: ["/api/flashcards/due"],
+  });
+
+  // Snapshot the due list when the session starts; reviews reshuffle it locally
+  useEffect(() => {
+    if (dueCards) {
+      setQueue(dueCards);
+      setReviewed(0);
+    }
+  }, [dueCards]);
+
+  // Refresh the dashboard's due count once the session is left
+  useEffect(() => {
+    return () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/flashcards/due"] });
+    };
+  }, [queryClient]);
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ cardId, rating }: { cardId: string; rating: ReviewRating }) => {
+      const response = await apiRequest("POST", `/api/flashcards/${cardId}/review`, { rating });
+      return response.json();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to save your review. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const card = queue[0];
+  const total = reviewed + queue.length;
+
+  const handleRate = (rating: ReviewRating) => {
+    if (!card) return;
+    reviewMutation.mutate({ cardId: card.id, rating });
+    setFlipped(false);
+    setQueue((prev) => {
+      const [current, ...rest] = prev;
+      // Cards marked "again" come back at the end of this session
+      return rating === "again" ? [...rest, current] : rest;
+    });
+    if (rating !== "again") {
+      setReviewed((r) => r + 1);
+    }
+  };
+
+  const handleRestart = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/flashcards/due"] });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Flashcard Review</h1>
+            <p className="text-muted-foreground">Spaced repetition keeps what you learn fresh</p>
+          </div>
+          <Badge variant="secondary" className="bg-accent/10 text-accent text-base" data-testid="text-due-count">
+            {dueCards?.length ?? 0} due today
+          </Badge>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : !card ? (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <CheckCircle2 className="h-16 w-16 mx-auto mb-4 text-success" />
+              <h3 className="text-lg font-semibold mb-2">All caught up!</h3>
+              <p className="text-muted-foreground mb-4">
+                {reviewed > 0
+                  ? `You reviewed ${reviewed} card${reviewed === 1 ? "" : "s"}. Come back later for more.`
+                  : "No flashcards are due right now."}
+              </p>
+              <div className="flex justify-center gap-2">
+                <Button variant="outline" onClick={handleRestart} data-testid="button-check-due">
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Check Again
+                </Button>
+                <Button asChild>
+                  <Link href="/">Back to Dashboard</Link>
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span>{card.topicTitle}</span>
+                <span>
+                  {reviewed}/{total} reviewed
+                </span>
+              </div>
+              <Progress value={(reviewed / Math.max(total, 1)) * 100} className="h-2" />
+            </div>
+
+            <Card
+              className="min-h-64 cursor-pointer hover:shadow-lg transition-all duration-300"
+              onClick={() => setFlipped((f) => !f)}
+              data-testid="card-flashcard"
+            >
+              <CardHeader>
+                <CardTitle className="text-sm text-muted-foreground flex items-center">
+                  <CreditCard className="mr-2 h-4 w-4" />
+                  {flipped ? "Answer" : "Question"}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="flex items-center justify-center text-center min-h-40">
+                <p className="text-xl font-semibold whitespace-pre-wrap" data-testid="text-flashcard">
+                  {flipped ? card.back : card.front}
+                </p>
+              </CardContent>
+            </Card>
+
+            {flipped ? (
+              <div className="grid grid-cols-4 gap-2">
+                {ratingOptions.map((option) => (
+                  <Button
+                    key={option.value}
+                    className={option.className}
+                    onClick={() => handleRate(option.value)}
+                    data-testid={`button-rate-${option.value}`}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+            ) : (
+              <Button className="w-full" onClick={() => setFlipped(true)} data-testid="button-flip">
+                Show Answer
+              </Button>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
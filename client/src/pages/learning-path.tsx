@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Navbar } from "@/components/navbar";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { cn } from "@/lib/utils";
+import { ArrowLeft, CheckCircle2, Circle, CircleDot, Loader2, Lock, Trash2 } from "lucide-react";
+
+type StepStatus = "locked" | "available" | "in_progress" | "completed";
+
+interface LearningPathStep {
+  id: string;
+  position: number;
+  prerequisites: number[];
+  progress: number;
+  bestScore?: number;
+  status: StepStatus;
+  topic: {
+    id: string;
+    title: string;
+    description?: string;
+    difficulty: string;
+    hasContent: boolean;
+  };
+}
+
+interface LearningPathDetail {
+  id: string;
+  goal: string;
+  title: string;
+  description?: string;
+  steps: LearningPathStep[];
+}
+
+const statusIcons = {
+  completed: CheckCircle2,
+  in_progress: CircleDot,
+  available: Circle,
+  locked: Lock,
+};
+
+const statusLabels: Record<StepStatus, string> = {
+  completed: "Completed",
+  in_progress: "In progress",
+  available: "Ready to start",
+  locked: "Locked",
+};
+
+export default function LearningPathPage() {
+  const { id } = useParams<{ id: string }>();
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: path, isLoading } = useQuery<LearningPathDetail>({
+    queryKey: ["/api/learning-paths", id],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/learning-paths/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.removeQueries({ queryKey: ["/api/learning-paths", id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/learning-paths"] });
+      toast({ title: "Learning Path Deleted", description: "Its topics are still in your library." });
+      setLocation("/paths");
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to delete learning path. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const steps = path?.steps ?? [];
+  const completed = steps.filter((step) => step.status === "completed").length;
+  const percent = steps.length > 0 ? Math.round((completed / steps.length) * 100) : 0;
+  const titleAt = (position: number) => steps.find((step) => step.position === position)?.topic.title;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Button variant="ghost" asChild className="mb-4">
+          <Link href="/paths">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            All Learning Paths
+          </Link>
+        </Button>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : !path ? (
+          <Card>
+            <CardContent className="p-12 text-center text-muted-foreground">
+              This learning path could not be found.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="mb-6">
+              <div className="flex items-start justify-between gap-4">
+                <h1 className="text-3xl font-bold mb-2" data-testid="text-path-title">
+                  {path.title}
+                </h1>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-destructive hover:text-destructive shrink-0"
+                  onClick={() => setIsDeleteOpen(true)}
+                  data-testid="button-delete-path"
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete
+                </Button>
+              </div>
+              {path.description && <p className="text-muted-foreground mb-2">{path.description}</p>}
+              <p className="text-sm text-muted-foreground mb-4">Goal: {path.goal}</p>
+              <div className="space-y-2 max-w-md">
+                <div className="flex justify-between text-sm">
+                  <span>
+                    {completed} of {steps.length} topics completed
+                  </span>
+                  <span data-testid="text-path-progress">{percent}%</span>
+                </div>
+                <Progress value={percent} className="h-2" />
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              {steps.map((step) => {
+                const Icon = statusIcons[step.status];
+                const isLocked = step.status === "locked";
+                const prerequisites = step.prerequisites.map(titleAt).filter(Boolean);
+                return (
+                  <Card
+                    key={step.id}
+                    className={cn(isLocked && "opacity-60", step.status === "completed" && "border-success/50")}
+                    data-testid={`step-${step.position}`}
+                  >
+                    <CardContent className="p-6 flex items-start gap-4">
+                      <Icon
+                        className={cn(
+                          "h-6 w-6 mt-0.5 shrink-0",
+                          step.status === "completed" ? "text-success" : "text-muted-foreground",
+                          step.status === "in_progress" && "text-primary",
+                        )}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex flex-wrap items-center gap-2 mb-1">
+                          <h3 className="font-semibold">
+                            {step.position + 1}. {step.topic.title}
+                          </h3>
+                          <Badge variant="secondary" className="capitalize">
+                            {step.topic.difficulty}
+                          </Badge>
+                          <span className="text-xs text-muted-foreground">{statusLabels[step.status]}</span>
+                        </div>
+                        {step.topic.description && (
+                          <p className="text-sm text-muted-foreground mb-2">{step.topic.description}</p>
+                        )}
+                        {prerequisites.length > 0 && (
+                          <p className="text-xs text-muted-foreground">Requires: {prerequisites.join(", ")}</p>
+                        )}
+                        {step.bestScore !== undefined && (
+                          <p className="text-xs text-muted-foreground">Best quiz score: {Math.round(step.bestScore)}%</p>
+                        )}
+                      </div>
+                      {isLocked ? (
+                        <Button variant="outline" size="sm" disabled data-testid={`button-step-${step.position}`}>
+                          Locked
+                        </Button>
+                      ) : (
+                        <Button
+                          variant={step.status === "completed" ? "outline" : "default"}
+                          size="sm"
+                          asChild
+                          data-testid={`button-step-${step.position}`}
+                        >
+                          <Link href={`/topics/${step.topic.id}`}>
+                            {step.status === "completed" ? "Review" : step.progress > 0 ? "Continue" : "Start"}
+                          </Link>
+                        </Button>
+                      )}
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          </>
+        )}
+
+        <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete this learning path?</AlertDialogTitle>
+              <AlertDialogDescription>
+                The path will be removed. Its topics, quizzes and flashcards stay in your library.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => deleteMutation.mutate()}
+                disabled={deleteMutation.isPending}
+                data-testid="button-confirm-delete-path"
+              >
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </main>
+    </div>
+  );
+}
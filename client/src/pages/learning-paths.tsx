@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { Link, useLocation } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Navbar } from "@/components/navbar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { formatDistanceToNow } from "date-fns";
+import { Loader2, Route, Sparkles } from "lucide-react";
+
+interface LearningPathSummary {
+  id: string;
+  goal: string;
+  title: string;
+  description?: string;
+  createdAt: string;
+  totalSteps: number;
+  completedSteps: number;
+}
+
+export default function LearningPaths() {
+  const [goal, setGoal] = useState("");
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: paths, isLoading } = useQuery<LearningPathSummary[]>({
+    queryKey: ["/api/learning-paths"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: { goal: string }) => {
+      const response = await apiRequest("POST", "/api/learning-paths", data);
+      return response.json();
+    },
+    onSuccess: (path: { id: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/learning-paths"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/topics"] });
+      setGoal("");
+      setLocation(`/paths/${path.id}`);
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to build a learning path. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCreate = () => {
+    if (goal.trim().length < 3) {
+      toast({ title: "Error", description: "Please describe what you want to learn.", variant: "destructive" });
+      return;
+    }
+    createMutation.mutate({ goal: goal.trim() });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold mb-2">Learning Paths</h1>
+          <p className="text-muted-foreground">
+            Tell us what you want to learn and get an ordered set of topics to work through
+          </p>
+        </div>
+
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Sparkles className="mr-2 h-5 w-5 text-primary" />
+              New Learning Path
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Textarea
+              placeholder="e.g. Learn machine learning from scratch, or get ready for a statistics exam"
+              value={goal}
+              maxLength={300}
+              onChange={(e) => setGoal(e.target.value)}
+              data-testid="input-path-goal"
+            />
+            <Button onClick={handleCreate} disabled={createMutation.isPending} data-testid="button-create-path">
+              {createMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Building your path...
+                </>
+              ) : (
+                <>
+                  <Route className="mr-2 h-4 w-4" />
+                  Build Path
+                </>
+              )}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : !paths?.length ? (
+          <Card>
+            <CardContent className="p-12 text-center text-muted-foreground">
+              You haven't created any learning paths yet.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {paths.map((path) => {
+              const percent = path.totalSteps > 0 ? Math.round((path.completedSteps / path.totalSteps) * 100) : 0;
+              return (
+                <Link key={path.id} href={`/paths/${path.id}`} data-testid={`link-path-${path.id}`}>
+                  <Card className="hover:shadow-md transition-shadow cursor-pointer">
+                    <CardContent className="p-6">
+                      <div className="flex items-start justify-between gap-4 mb-2">
+                        <h3 className="font-semibold text-lg">{path.title}</h3>
+                        <span className="text-xs text-muted-foreground shrink-0">
+                          {formatDistanceToNow(new Date(path.createdAt), { addSuffix: true })}
+                        </span>
+                      </div>
+                      {path.description && <p className="text-sm text-muted-foreground mb-4">{path.description}</p>}
+                      <div className="space-y-2">
+                        <div className="flex justify-between text-sm">
+                          <span>
+                            {path.completedSteps} of {path.totalSteps} topics completed
+                          </span>
+                          <span>{percent}%</span>
+                        </div>
+                        <Progress value={percent} className="h-2" />
+                      </div>
+                    </CardContent>
+                  </Card>
+                </Link>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Navbar } from "@/components/navbar";
+import { QuizResults, type QuizAttemptResult } from "@/components/quiz-results";
+import { Card, CardContent } from "@/components/ui/card";
+import { Loader2 } from "lucide-react";
+
+export default function QuizAttemptPage() {
+  const { id } = useParams<{ id: string }>();
+
+  const { data: result, isLoading } = useQuery<QuizAttemptResult>({
+    queryKey: ["/api/quiz-attempts", id],
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : !result ? (
+          <Card>
+            <CardContent className="p-12 text-center text-muted-foreground">
+              This quiz attempt could not be found.
+            </CardContent>
+          </Card>
+        ) : (
+          <QuizResults result={result} />
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,309 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Navbar } from "@/components/navbar";
+import { QuestionEditor, emptyQuestion, questionProblem, questionTypeLabels } from "@/components/question-editor";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { ArrowLeft, Loader2, Plus, Save, Sparkles } from "lucide-react";
+import { questionTypes, type QuestionType, type QuizQuestion } from "@shared/questions";
+
+interface EditableQuiz {
+  id: string;
+  topicId: string;
+  title: string;
+  questions: QuizQuestion[];
+  timeLimitSeconds: number | null;
+}
+
+interface Topic {
+  id: string;
+  title: string;
+}
+
+const draftSizes = [3, 5, 10];
+
+// Writes a new quiz for a topic (/topics/:topicId/quizzes/new) or edits one (/quizzes/:id/edit).
+// AI-generated questions land here as drafts and are only saved with the rest of the quiz.
+export default function QuizEditor() {
+  const params = useParams<{ id?: string; topicId?: string }>();
+  const quizId = params.id;
+  const [title, setTitle] = useState("");
+  const [timeLimit, setTimeLimit] = useState("");
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [loaded, setLoaded] = useState(!quizId);
+  const [showProblems, setShowProblems] = useState(false);
+  const [newType, setNewType] = useState<QuestionType>("multiple_choice");
+  const [draftSize, setDraftSize] = useState("5");
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: quiz, isLoading: quizLoading } = useQuery<EditableQuiz>({
+    queryKey: ["/api/quizzes", quizId, "questions"],
+    enabled: !!quizId,
+  });
+
+  const topicId = params.topicId ?? quiz?.topicId;
+  const { data: topic } = useQuery<Topic>({
+    queryKey: ["/api/topics", topicId],
+    enabled: !!topicId,
+  });
+
+  // Fill the form once, so a background refetch never overwrites unsaved edits
+  useEffect(() => {
+    if (!quiz || loaded) return;
+    setTitle(quiz.title);
+    setTimeLimit(quiz.timeLimitSeconds ? String(Math.round(quiz.timeLimitSeconds / 60)) : "");
+    setQuestions(quiz.questions);
+    setLoaded(true);
+  }, [quiz, loaded]);
+
+  useEffect(() => {
+    if (!quizId && topic && !title) setTitle(`${topic.title} Quiz`);
+  }, [quizId, topic]);
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const draftMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/ai/quiz", {
+        topic: topic?.title,
+        topicId,
+        questionCount: Number(draftSize),
+        draft: true,
+      });
+      return response.json() as Promise<{ questions: QuizQuestion[] }>;
+    },
+    onSuccess: (data) => {
+      setQuestions((prev) => [...prev, ...data.questions]);
+      toast({
+        title: "Questions Drafted",
+        description: `${data.questions.length} questions were added below. Review them, then save the quiz.`,
+      });
+    },
+    onError: (error) => handleError(error, "Failed to generate questions. Please try again."),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const minutes = Number(timeLimit);
+      const body = {
+        title,
+        questions,
+        timeLimitMinutes: timeLimit.trim() && minutes > 0 ? Math.round(minutes) : null,
+      };
+      const response = quizId
+        ? await apiRequest("PATCH", `/api/quizzes/${quizId}`, body)
+        : await apiRequest("POST", "/api/quizzes", { ...body, topicId });
+      return response.json() as Promise<EditableQuiz>;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/topics", saved.topicId, "quizzes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/quizzes", saved.id] });
+      toast({ title: "Quiz Saved", description: `"${saved.title}" has ${saved.questions.length} questions.` });
+      setLocation(`/topics/${saved.topicId}`);
+    },
+    onError: (error) => handleError(error, "Failed to save quiz. Please try again."),
+  });
+
+  const handleSave = () => {
+    if (!title.trim()) {
+      toast({ title: "Error", description: "Title is required.", variant: "destructive" });
+      return;
+    }
+    if (questions.length === 0) {
+      toast({ title: "Error", description: "Add at least one question.", variant: "destructive" });
+      return;
+    }
+    const incomplete = questions.findIndex((q) => questionProblem(q) !== null);
+    if (incomplete !== -1) {
+      setShowProblems(true);
+      toast({
+        title: "Error",
+        description: `Question ${incomplete + 1} isn't finished yet.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  const updateQuestion = (index: number, question: QuizQuestion) =>
+    setQuestions((prev) => prev.map((q, i) => (i === index ? question : q)));
+
+  const removeQuestion = (index: number) => setQuestions((prev) => prev.filter((_, i) => i !== index));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Button variant="ghost" asChild className="mb-4">
+          <Link href={topicId ? `/topics/${topicId}` : "/"}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            {topic ? `Back to ${topic.title}` : "Back"}
+          </Link>
+        </Button>
+
+        {quizId && !loaded ? (
+          quizLoading || quiz ? (
+            <div className="flex items-center justify-center py-16">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : (
+            <Card>
+              <CardContent className="p-12 text-center text-muted-foreground">
+                This quiz could not be found.
+              </CardContent>
+            </Card>
+          )
+        ) : (
+          <div className="space-y-6">
+            <div className="flex items-start justify-between gap-4">
+              <h1 className="text-3xl font-bold" data-testid="text-quiz-editor-title">
+                {quizId ? "Edit Quiz" : "New Quiz"}
+              </h1>
+              <Button onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-quiz">
+                {saveMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Save className="mr-2 h-4 w-4" />
+                )}
+                Save Quiz
+              </Button>
+            </div>
+
+            <Card>
+              <CardContent className="p-6 grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="space-y-2 sm:col-span-2">
+                  <Label htmlFor="quiz-title">Title</Label>
+                  <Input
+                    id="quiz-title"
+                    value={title}
+                    maxLength={200}
+                    onChange={(e) => setTitle(e.target.value)}
+                    data-testid="input-quiz-title"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="quiz-time-limit">Exam time limit (minutes)</Label>
+                  <Input
+                    id="quiz-time-limit"
+                    type="number"
+                    min={1}
+                    max={1440}
+                    value={timeLimit}
+                    placeholder="Untimed"
+                    onChange={(e) => setTimeLimit(e.target.value)}
+                    data-testid="input-quiz-time-limit"
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center">
+                  <Sparkles className="mr-2 h-4 w-4" />
+                  Draft questions with AI
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="flex flex-wrap items-center gap-2">
+                <Select value={draftSize} onValueChange={setDraftSize}>
+                  <SelectTrigger className="w-36" data-testid="select-draft-size">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {draftSizes.map((size) => (
+                      <SelectItem key={size} value={String(size)}>
+                        {size} questions
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  onClick={() => draftMutation.mutate()}
+                  disabled={draftMutation.isPending || !topic}
+                  data-testid="button-draft-questions"
+                >
+                  {draftMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Generate Drafts
+                </Button>
+                <p className="text-sm text-muted-foreground w-full">
+                  Drafts are added to the list below for you to edit. Nothing is saved until you save the quiz.
+                </p>
+              </CardContent>
+            </Card>
+
+            {questions.map((question, index) => (
+              <QuestionEditor
+                key={index}
+                index={index}
+                question={question}
+                showProblems={showProblems}
+                onChange={(updated) => updateQuestion(index, updated)}
+                onRemove={() => removeQuestion(index)}
+              />
+            ))}
+
+            <Card>
+              <CardContent className="p-6 flex flex-wrap items-center gap-2">
+                <Select value={newType} onValueChange={(value) => setNewType(value as QuestionType)}>
+                  <SelectTrigger className="w-48" data-testid="select-new-question-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {questionTypes.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {questionTypeLabels[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  onClick={() => setQuestions((prev) => [...prev, emptyQuestion(newType)])}
+                  data-testid="button-add-question"
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Question
+                </Button>
+                {quizId && (
+                  <p className="text-sm text-muted-foreground w-full">
+                    Attempts already started or finished keep the questions they were taken with.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,447 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Navbar } from "@/components/navbar";
+import { QuizResults, type QuizAttemptResult } from "@/components/quiz-results";
+import { QuestionInput } from "@/components/question-input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { cn } from "@/lib/utils";
+import { formatDistanceToNow } from "date-fns";
+import { ChevronLeft, ChevronRight, Clock, History, Loader2, Play, Send } from "lucide-react";
+import { isUnanswered, type PublicQuizQuestion, type QuizAnswer } from "@shared/questions";
+
+interface PublicQuiz {
+  id: string;
+  topicId: string;
+  title: string;
+  questions: PublicQuizQuestion[]; // empty for timed quizzes until an attempt starts
+  questionCount: number;
+  timeLimitSeconds: number | null;
+}
+
+interface QuizAttemptSummary {
+  id: string;
+  status: string;
+  score: number;
+  totalQuestions: number;
+  completedAt: string;
+}
+
+// An attempt as the server reports it while it is being taken
+interface AttemptState {
+  attempt: {
+    id: string;
+    status: string;
+    answers?: QuizAnswer[];
+    deadline?: string | null;
+  };
+  quiz?: { questions: PublicQuizQuestion[] };
+  serverTime?: string;
+}
+
+interface AttemptSession {
+  id: string;
+  questions: PublicQuizQuestion[]; // as the attempt is graded against
+  deadline: number | null; // in the server's clock, ms
+  clockOffset: number; // server clock minus ours, ms
+}
+
+// How long answers sit before they are autosaved
+const AUTOSAVE_DELAY_MS = 800;
+
+const practiceTimeLimits = [10, 20, 30, 60];
+
+const isConflict = (error: Error) => /^409: /.test(error.message);
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+// Milliseconds left on a timed attempt, ticking once a second; null when untimed
+function useRemainingTime(session: AttemptSession | null) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!session?.deadline) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [session?.deadline]);
+
+  if (!session?.deadline) return null;
+  return session.deadline - (now + session.clockOffset);
+}
+
+const toSession = (state: AttemptState): AttemptSession => ({
+  id: state.attempt.id,
+  questions: state.quiz?.questions ?? [],
+  deadline: state.attempt.deadline ? new Date(state.attempt.deadline).getTime() : null,
+  clockOffset: state.serverTime ? new Date(state.serverTime).getTime() - Date.now() : 0,
+});
+
+export default function QuizPage() {
+  const { id } = useParams<{ id: string }>();
+  const [current, setCurrent] = useState(0);
+  const [answers, setAnswers] = useState<QuizAnswer[]>([]);
+  const [session, setSession] = useState<AttemptSession | null>(null);
+  const [result, setResult] = useState<QuizAttemptResult | null>(null);
+  const [timeLimit, setTimeLimit] = useState("none");
+  const unsaved = useRef(false);
+  const autoSubmitted = useRef(false);
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: quiz, isLoading } = useQuery<PublicQuiz>({
+    queryKey: ["/api/quizzes", id],
+  });
+
+  const { data: attempts } = useQuery<QuizAttemptSummary[]>({
+    queryKey: ["/api/quizzes", id, "attempts"],
+  });
+
+  // An attempt left in progress, e.g. before a reload, is picked up where it was
+  const { data: currentAttempt, isLoading: currentLoading } = useQuery<AttemptState | null>({
+    queryKey: ["/api/quizzes", id, "attempts", "current"],
+  });
+
+  const remaining = useRemainingTime(session);
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  // The attempt was finished elsewhere or ran out of time; its results page has the outcome
+  const showFinishedAttempt = (attemptId: string) => {
+    queryClient.setQueryData(["/api/quizzes", id, "attempts", "current"], null);
+    queryClient.invalidateQueries({ queryKey: ["/api/quizzes", id, "attempts"] });
+    setLocation(`/quiz-attempts/${attemptId}`);
+  };
+
+  const resume = (state: AttemptState) => {
+    setSession(toSession(state));
+    setAnswers(state.attempt.answers ?? []);
+    setCurrent(0);
+    autoSubmitted.current = false;
+  };
+
+  useEffect(() => {
+    if (!currentAttempt || session || result) return;
+    if (currentAttempt.attempt.status === "in_progress") {
+      resume(currentAttempt);
+    } else {
+      showFinishedAttempt(currentAttempt.attempt.id);
+    }
+  }, [currentAttempt, session, result]);
+
+  const startMutation = useMutation({
+    mutationFn: async (minutes: number | undefined) => {
+      const response = await apiRequest("POST", `/api/quizzes/${id}/attempts/start`, {
+        timeLimitMinutes: minutes,
+      });
+      return response.json();
+    },
+    onSuccess: (data: AttemptState) => resume(data),
+    onError: (error) => handleError(error, "Failed to start the quiz. Please try again."),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ attemptId, saved }: { attemptId: string; saved: QuizAnswer[] }) => {
+      await apiRequest("PATCH", `/api/quiz-attempts/${attemptId}/answers`, { answers: saved });
+    },
+    onError: (error, { attemptId }) => {
+      if (isConflict(error)) {
+        showFinishedAttempt(attemptId);
+        return;
+      }
+      unsaved.current = true;
+    },
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async ({ attemptId, submitted }: { attemptId: string; submitted: QuizAnswer[] }) => {
+      const response = await apiRequest("POST", `/api/quiz-attempts/${attemptId}/submit`, {
+        answers: submitted,
+      });
+      return response.json();
+    },
+    onSuccess: (data: QuizAttemptResult) => {
+      setResult(data);
+      setSession(null);
+      unsaved.current = false;
+      queryClient.setQueryData(["/api/quizzes", id, "attempts", "current"], null);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/quiz-attempts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/quizzes", id, "attempts"], exact: true });
+      queryClient.invalidateQueries({ queryKey: ["/api/learning-paths"] });
+      if (quiz) {
+        queryClient.invalidateQueries({ queryKey: ["/api/topics", quiz.topicId, "mastery"] });
+      }
+    },
+    onError: (error, { attemptId }) => {
+      if (isConflict(error)) {
+        showFinishedAttempt(attemptId);
+        return;
+      }
+      handleError(error, "Failed to submit quiz. Please try again.");
+    },
+  });
+
+  const questions = session?.questions ?? quiz?.questions ?? [];
+  const question = questions[current];
+  const answeredCount = questions.filter((_, index) => !isUnanswered(answers[index])).length;
+  const savedAnswers = () => questions.map((_, index) => answers[index] ?? null);
+
+  // An ordering question left as dealt is answered in that order
+  const completeAnswers = () =>
+    questions.map((q, index) => answers[index] ?? (q.type === "ordering" ? q.items : null));
+
+  // Autosave shortly after the student stops changing answers
+  useEffect(() => {
+    if (!session || !unsaved.current) return;
+    const timer = setTimeout(() => {
+      unsaved.current = false;
+      saveMutation.mutate({ attemptId: session.id, saved: savedAnswers() });
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [answers, session]);
+
+  // Answers not yet autosaved are sent as the page is closed or reloaded
+  useEffect(() => {
+    if (!session) return;
+    const flush = () => {
+      if (!unsaved.current) return;
+      fetch(`/api/quiz-attempts/${session.id}/answers`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ answers: savedAnswers() }),
+        credentials: "include",
+        keepalive: true,
+      }).catch(() => {});
+    };
+    window.addEventListener("pagehide", flush);
+    return () => window.removeEventListener("pagehide", flush);
+  }, [answers, session]);
+
+  // Time's up: hand in whatever has been answered
+  useEffect(() => {
+    if (!session || remaining === null || remaining > 0 || autoSubmitted.current) return;
+    autoSubmitted.current = true;
+    toast({ title: "Time's Up", description: "Your answers have been submitted." });
+    submitMutation.mutate({ attemptId: session.id, submitted: completeAnswers() });
+  }, [remaining, session]);
+
+  const setAnswer = (answer: QuizAnswer) => {
+    unsaved.current = true;
+    setAnswers((prev) => {
+      const next = [...prev];
+      next[current] = answer;
+      return next;
+    });
+  };
+
+  const handleStart = () => {
+    startMutation.mutate(timeLimit === "none" ? undefined : parseInt(timeLimit, 10));
+  };
+
+  const handleSubmit = () => {
+    if (!session) return;
+    submitMutation.mutate({ attemptId: session.id, submitted: completeAnswers() });
+  };
+
+  const handleRetake = () => {
+    setResult(null);
+    setAnswers([]);
+    setCurrent(0);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {isLoading || currentLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : !quiz ? (
+          <Card>
+            <CardContent className="p-12 text-center text-muted-foreground">
+              This quiz could not be found.
+            </CardContent>
+          </Card>
+        ) : result ? (
+          <QuizResults result={result} onRetake={handleRetake} />
+        ) : !session ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-xl" data-testid="text-quiz-title">
+                {quiz.title}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-muted-foreground">
+                {quiz.questionCount} question{quiz.questionCount === 1 ? "" : "s"}
+              </p>
+              {quiz.timeLimitSeconds ? (
+                <p className="text-sm flex items-center" data-testid="text-exam-limit">
+                  <Clock className="mr-2 h-4 w-4 shrink-0" />
+                  Exam: {Math.round(quiz.timeLimitSeconds / 60)} minutes. The timer keeps running if you leave or
+                  reload the page, and your answers are submitted when it runs out.
+                </p>
+              ) : (
+                <div className="flex items-center gap-3">
+                  <Clock className="h-4 w-4 text-muted-foreground" />
+                  <Select value={timeLimit} onValueChange={setTimeLimit}>
+                    <SelectTrigger className="w-48" data-testid="select-time-limit">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No time limit</SelectItem>
+                      {practiceTimeLimits.map((minutes) => (
+                        <SelectItem key={minutes} value={String(minutes)}>
+                          {minutes} minutes
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <Button onClick={handleStart} disabled={startMutation.isPending} data-testid="button-start-quiz">
+                {startMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Play className="mr-2 h-4 w-4" />
+                )}
+                {quiz.timeLimitSeconds ? "Start Exam" : "Start Quiz"}
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <CardTitle className="text-xl" data-testid="text-quiz-title">
+                  {quiz.title}
+                </CardTitle>
+                <div className="flex items-center gap-3 shrink-0">
+                  {remaining !== null && (
+                    <Badge
+                      variant="secondary"
+                      className={cn(
+                        "text-base tabular-nums",
+                        remaining < 60 * 1000 && "bg-destructive/10 text-destructive",
+                      )}
+                      data-testid="text-time-remaining"
+                    >
+                      <Clock className="mr-1 h-4 w-4" />
+                      {formatRemaining(remaining)}
+                    </Badge>
+                  )}
+                  <span className="text-sm text-muted-foreground">
+                    Question {current + 1} of {questions.length}
+                  </span>
+                </div>
+              </div>
+              <Progress value={(answeredCount / Math.max(questions.length, 1)) * 100} className="h-2" />
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <h3 className="text-lg font-semibold" data-testid="text-question">
+                {question?.question}
+              </h3>
+              {question && (
+                <QuestionInput key={current} question={question} answer={answers[current]} onChange={setAnswer} />
+              )}
+              <div className="flex justify-between pt-4">
+                <Button
+                  variant="outline"
+                  onClick={() => setCurrent((c) => c - 1)}
+                  disabled={current === 0}
+                  data-testid="button-previous-question"
+                >
+                  <ChevronLeft className="mr-2 h-4 w-4" />
+                  Previous
+                </Button>
+                {current < questions.length - 1 ? (
+                  <Button onClick={() => setCurrent((c) => c + 1)} data-testid="button-next-question">
+                    Next
+                    <ChevronRight className="ml-2 h-4 w-4" />
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={handleSubmit}
+                    disabled={submitMutation.isPending}
+                    data-testid="button-submit-quiz"
+                  >
+                    {submitMutation.isPending ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Send className="mr-2 h-4 w-4" />
+                    )}
+                    Submit ({answeredCount}/{questions.length} answered)
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {attempts && attempts.length > 0 && (
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center">
+                <History className="mr-2 h-5 w-5" />
+                Previous Attempts
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {attempts.map((attempt) => (
+                <Link
+                  key={attempt.id}
+                  href={`/quiz-attempts/${attempt.id}`}
+                  className="flex justify-between p-3 rounded-lg border hover:bg-muted text-sm"
+                  data-testid={`link-attempt-${attempt.id}`}
+                >
+                  <span className="font-semibold">
+                    {attempt.score}/{attempt.totalQuestions}
+                    {attempt.status === "expired" && (
+                      <span className="ml-2 font-normal text-muted-foreground">(time ran out)</span>
+                    )}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {formatDistanceToNow(new Date(attempt.completedAt), { addSuffix: true })}
+                  </span>
+                </Link>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,315 @@
+import { useState } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Navbar } from "@/components/navbar";
+import { GroupChat } from "@/components/group-chat";
+import { GroupSessions } from "@/components/group-sessions";
+import { GroupResources } from "@/components/group-resources";
+import { QuizBattle } from "@/components/quiz-battle";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { format, formatDistanceToNow } from "date-fns";
+import { ArrowLeft, CalendarDays, Loader2, LogOut, ShieldCheck, UserMinus, Users } from "lucide-react";
+
+type GroupRole = "admin" | "member";
+
+interface GroupMember {
+  id: string;
+  firstName?: string;
+  lastName?: string;
+  profileImageUrl?: string;
+  level?: number;
+  role: GroupRole;
+  joinedAt: string;
+}
+
+interface StudyGroupDetail {
+  id: string;
+  name: string;
+  description?: string;
+  memberCount: number;
+  createdAt: string;
+  members: GroupMember[];
+  myRole: GroupRole | null;
+  nextSession: string | null;
+}
+
+type MemberAction = { kind: "remove" | "promote"; member: GroupMember };
+
+const memberName = (member: GroupMember) =>
+  [member.firstName, member.lastName].filter(Boolean).join(" ") || "Anonymous";
+
+const getInitials = (member: GroupMember) => {
+  const first = member.firstName?.[0] || "";
+  const last = member.lastName?.[0] || "";
+  return (first + last).toUpperCase() || "U";
+};
+
+export default function StudyGroupPage() {
+  const { id } = useParams<{ id: string }>();
+  const [confirming, setConfirming] = useState<MemberAction | "leave" | null>(null);
+  const [, setLocation] = useLocation();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: group, isLoading } = useQuery<StudyGroupDetail>({
+    queryKey: ["/api/study-groups", id],
+  });
+
+  const handleError = (error: Error, description: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({ title: "Error", description, variant: "destructive" });
+  };
+
+  const joinMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/study-groups/${id}/join`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/study-groups"] });
+      toast({ title: "Joined Study Group", description: "You've successfully joined the study group!" });
+    },
+    onError: (error) => handleError(error, "Failed to join study group."),
+  });
+
+  const leaveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/study-groups/${id}/leave`);
+    },
+    onSuccess: () => {
+      queryClient.removeQueries({ queryKey: ["/api/study-groups", id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/study-groups"] });
+      toast({ title: "Left Study Group", description: `You are no longer a member of ${group?.name}.` });
+      setLocation("/study-groups");
+    },
+    onError: (error) => handleError(error, "Failed to leave study group."),
+  });
+
+  const memberMutation = useMutation({
+    mutationFn: async ({ kind, member }: MemberAction) => {
+      if (kind === "remove") {
+        await apiRequest("DELETE", `/api/study-groups/${id}/members/${member.id}`);
+      } else {
+        await apiRequest("POST", `/api/study-groups/${id}/members/${member.id}/promote`);
+      }
+    },
+    onSuccess: (_, { kind, member }) => {
+      setConfirming(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/study-groups"] });
+      toast({
+        title: kind === "remove" ? "Member Removed" : "Member Promoted",
+        description:
+          kind === "remove"
+            ? `${memberName(member)} was removed from the group.`
+            : `${memberName(member)} is now a group admin.`,
+      });
+    },
+    onError: (error) => handleError(error, "Failed to update member. Please try again."),
+  });
+
+  const isAdmin = group?.myRole === "admin";
+  const canManage = isAdmin || user?.role === "admin";
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Button variant="ghost" asChild className="mb-4">
+          <Link href="/study-groups">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            All Study Groups
+          </Link>
+        </Button>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : !group ? (
+          <Card>
+            <CardContent className="p-12 text-center text-muted-foreground">
+              This study group could not be found.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <div className="flex items-start justify-between gap-4">
+                <h1 className="text-3xl font-bold mb-2" data-testid="text-group-title">
+                  {group.name}
+                </h1>
+                {group.myRole ? (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="shrink-0"
+                    onClick={() => setConfirming("leave")}
+                    data-testid="button-leave-group"
+                  >
+                    <LogOut className="mr-2 h-4 w-4" />
+                    Leave
+                  </Button>
+                ) : (
+                  <Button
+                    size="sm"
+                    className="shrink-0"
+                    onClick={() => joinMutation.mutate()}
+                    disabled={joinMutation.isPending}
+                    data-testid="button-join-group"
+                  >
+                    {joinMutation.isPending ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Users className="mr-2 h-4 w-4" />
+                    )}
+                    Join Group
+                  </Button>
+                )}
+              </div>
+              {group.description && <p className="text-muted-foreground mb-2">{group.description}</p>}
+              <p className="text-sm text-muted-foreground">
+                {group.memberCount} members · created {formatDistanceToNow(new Date(group.createdAt))} ago
+              </p>
+              {group.nextSession && (
+                <p className="text-sm text-primary flex items-center mt-1" data-testid="text-next-session">
+                  <CalendarDays className="mr-1 h-4 w-4" />
+                  Next session: {format(new Date(group.nextSession), "EEE, MMM d · p")}
+                </p>
+              )}
+            </div>
+
+            <GroupSessions groupId={group.id} isMember={group.myRole !== null} canManage={canManage} />
+
+            {(group.myRole || canManage) && (
+              <GroupResources
+                groupId={group.id}
+                currentUserId={user?.id}
+                isMember={group.myRole !== null}
+                canManage={canManage}
+              />
+            )}
+
+            {(group.myRole || canManage) && (
+              <QuizBattle
+                groupId={group.id}
+                currentUserId={user?.id}
+                isMember={group.myRole !== null}
+                canManage={canManage}
+              />
+            )}
+
+            {group.myRole && <GroupChat groupId={group.id} currentUserId={user?.id} />}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center">
+                  <Users className="mr-2 h-4 w-4" />
+                  Members
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {group.members.map((member) => (
+                  <div key={member.id} className="flex items-center gap-3" data-testid={`row-member-${member.id}`}>
+                    <Avatar className="w-8 h-8">
+                      <AvatarImage src={member.profileImageUrl || undefined} />
+                      <AvatarFallback className="bg-primary text-white text-xs">{getInitials(member)}</AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">
+                        {memberName(member)}
+                        {member.id === user?.id && <span className="text-muted-foreground"> (you)</span>}
+                      </p>
+                      <p className="text-xs text-muted-foreground">Level {member.level ?? 1}</p>
+                    </div>
+                    {member.role === "admin" && <Badge variant="secondary">Admin</Badge>}
+                    {canManage && member.id !== user?.id && member.role !== "admin" && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Make admin"
+                          onClick={() => memberMutation.mutate({ kind: "promote", member })}
+                          disabled={memberMutation.isPending}
+                          data-testid={`button-promote-member-${member.id}`}
+                        >
+                          <ShieldCheck className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Remove from group"
+                          onClick={() => setConfirming({ kind: "remove", member })}
+                          data-testid={`button-remove-member-${member.id}`}
+                        >
+                          <UserMinus className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        <AlertDialog open={confirming !== null} onOpenChange={(open) => !open && setConfirming(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>
+                {confirming === "leave"
+                  ? "Leave this study group?"
+                  : confirming && `Remove ${memberName(confirming.member)}?`}
+              </AlertDialogTitle>
+              <AlertDialogDescription>
+                {confirming === "leave"
+                  ? group?.memberCount === 1
+                    ? "You are the last member, so the group will be closed."
+                    : "You can join again later while the group is open."
+                  : "They can join the group again later."}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() =>
+                  confirming === "leave" ? leaveMutation.mutate() : confirming && memberMutation.mutate(confirming)
+                }
+                disabled={leaveMutation.isPending || memberMutation.isPending}
+                data-testid="button-confirm-group-action"
+              >
+                {confirming === "leave" ? "Leave" : "Remove"}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </main>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import { useState, useEffect } from "react";
+import { Link } from "wouter";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Navbar } from "@/components/navbar";
+import { CalendarSubscribe } from "@/components/calendar-subscribe";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -11,7 +13,7 @@ import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { apiRequest } from "@/lib/queryClient";
-import { formatDistanceToNow } from "date-fns";
+import { format, formatDistanceToNow, isToday, isTomorrow } from "date-fns";
 import {
   Users,
   Calendar,
@@ -23,6 +25,7 @@ import {
   Loader2,
   Search,
   Filter,
+  ArrowRight,
 } from "lucide-react";
 import {
   Dialog,
@@ -42,15 +45,24 @@ interface User {
   level?: number;
 }
 
+// "Today 7:00 PM", "Tomorrow 6:00 PM", "Sat, Oct 24 2:00 PM"
+const formatSessionTime = (value: string) => {
+  const date = new Date(value);
+  if (isToday(date)) return `Today ${format(date, "p")}`;
+  if (isTomorrow(date)) return `Tomorrow ${format(date, "p")}`;
+  return format(date, "EEE, MMM d p");
+};
+
 interface StudyGroup {
   id: string;
   name: string;
   description?: string;
   memberCount: number;
-  nextSession?: string;
+  nextSession: string | null;
   creator: User;
   isActive: boolean;
   createdAt: string;
+  myRole: "admin" | "member" | null;
 }
 
 export default function StudyGroups() {
@@ -78,7 +90,7 @@ export default function StudyGroups() {
   }, [isAuthenticated, isLoading, toast]);
 
   // Fetch study groups
-  const { data: studyGroups, isLoading: groupsLoading } = useQuery({
+  const { data: studyGroups, isLoading: groupsLoading } = useQuery<StudyGroup[]>({
     queryKey: ["/api/study-groups"],
     enabled: isAuthenticated,
   });
@@ -174,7 +186,13 @@ export default function StudyGroups() {
     });
   };
 
-  const filteredGroups = (studyGroups as StudyGroup[])?.filter((group) =>
+  // Groups meeting soonest, whether or not the user has joined them
+  const upcomingGroups = (studyGroups ?? [])
+    .filter((group) => group.nextSession)
+    .sort((a, b) => new Date(a.nextSession!).getTime() - new Date(b.nextSession!).getTime())
+    .slice(0, 3);
+
+  const filteredGroups = studyGroups?.filter((group) =>
     group.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     group.description?.toLowerCase().includes(searchTerm.toLowerCase())
   ) || [];
@@ -199,58 +217,61 @@ export default function StudyGroups() {
               Collaborate with peers, share knowledge, and learn together
             </p>
           </div>
-          
-          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-            <DialogTrigger asChild>
-              <Button className="bg-gradient-to-r from-primary to-secondary text-white mt-4 sm:mt-0" data-testid="button-create-group">
-                <Plus className="mr-2 h-4 w-4" />
-                Create Group
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Create New Study Group</DialogTitle>
-                <DialogDescription>
-                  Start a new study group and invite others to join your learning journey.
-                </DialogDescription>
-              </DialogHeader>
-              <div className="space-y-4">
-                <div>
-                  <Label htmlFor="group-name">Group Name</Label>
-                  <Input
-                    id="group-name"
-                    placeholder="e.g., React Developers Study Circle"
-                    value={newGroupName}
-                    onChange={(e) => setNewGroupName(e.target.value)}
-                    data-testid="input-group-name"
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="group-description">Description (Optional)</Label>
-                  <Textarea
-                    id="group-description"
-                    placeholder="What will this group focus on?"
-                    value={newGroupDescription}
-                    onChange={(e) => setNewGroupDescription(e.target.value)}
-                    data-testid="textarea-group-description"
-                  />
-                </div>
-                <Button
-                  onClick={handleCreateGroup}
-                  disabled={createGroupMutation.isPending}
-                  className="w-full"
-                  data-testid="button-submit-create-group"
-                >
-                  {createGroupMutation.isPending ? (
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  ) : (
-                    <Users className="mr-2 h-4 w-4" />
-                  )}
-                  Create Study Group
+
+          <div className="flex items-center gap-2 mt-4 sm:mt-0">
+            <CalendarSubscribe />
+            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+              <DialogTrigger asChild>
+                <Button className="bg-gradient-to-r from-primary to-secondary text-white" data-testid="button-create-group">
+                  <Plus className="mr-2 h-4 w-4" />
+                  Create Group
                 </Button>
-              </div>
-            </DialogContent>
-          </Dialog>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Create New Study Group</DialogTitle>
+                  <DialogDescription>
+                    Start a new study group and invite others to join your learning journey.
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <div>
+                    <Label htmlFor="group-name">Group Name</Label>
+                    <Input
+                      id="group-name"
+                      placeholder="e.g., React Developers Study Circle"
+                      value={newGroupName}
+                      onChange={(e) => setNewGroupName(e.target.value)}
+                      data-testid="input-group-name"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="group-description">Description (Optional)</Label>
+                    <Textarea
+                      id="group-description"
+                      placeholder="What will this group focus on?"
+                      value={newGroupDescription}
+                      onChange={(e) => setNewGroupDescription(e.target.value)}
+                      data-testid="textarea-group-description"
+                    />
+                  </div>
+                  <Button
+                    onClick={handleCreateGroup}
+                    disabled={createGroupMutation.isPending}
+                    className="w-full"
+                    data-testid="button-submit-create-group"
+                  >
+                    {createGroupMutation.isPending ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Users className="mr-2 h-4 w-4" />
+                    )}
+                    Create Study Group
+                  </Button>
+                </div>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
         {/* Search and Filters */}
@@ -275,86 +296,54 @@ export default function StudyGroups() {
           </CardContent>
         </Card>
 
-        {/* Featured Groups */}
-        <div className="mb-8">
-          <h2 className="text-2xl font-semibold mb-4">Featured Groups</h2>
-          <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
-            <Card className="bg-gradient-to-br from-primary/10 to-secondary/10 border-primary/20">
-              <CardContent className="p-6">
-                <div className="flex items-center justify-between mb-4">
-                  <Badge className="bg-primary text-white">Live Now</Badge>
-                  <div className="flex items-center text-sm text-muted-foreground">
-                    <Users className="mr-1 h-4 w-4" />
-                    24 members
-                  </div>
-                </div>
-                <h3 className="font-semibold text-lg mb-2">JavaScript Fundamentals</h3>
-                <p className="text-muted-foreground text-sm mb-4">
-                  Daily sessions covering ES6+, async programming, and modern JavaScript patterns.
-                </p>
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center text-sm text-muted-foreground">
-                    <Calendar className="mr-1 h-4 w-4" />
-                    Next: Today 7PM
-                  </div>
-                  <Button size="sm" data-testid="button-join-featured-1">
-                    Join Live
-                  </Button>
-                </div>
-              </CardContent>
-            </Card>
-
-            <Card className="bg-gradient-to-br from-success/10 to-emerald-100/50 border-success/20">
-              <CardContent className="p-6">
-                <div className="flex items-center justify-between mb-4">
-                  <Badge variant="outline" className="border-success text-success">Popular</Badge>
-                  <div className="flex items-center text-sm text-muted-foreground">
-                    <Users className="mr-1 h-4 w-4" />
-                    18 members
-                  </div>
-                </div>
-                <h3 className="font-semibold text-lg mb-2">Machine Learning Basics</h3>
-                <p className="text-muted-foreground text-sm mb-4">
-                  Introduction to ML algorithms, Python libraries, and practical projects.
-                </p>
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center text-sm text-muted-foreground">
-                    <Calendar className="mr-1 h-4 w-4" />
-                    Next: Tomorrow 6PM
-                  </div>
-                  <Button size="sm" variant="outline" data-testid="button-join-featured-2">
-                    Join Group
-                  </Button>
-                </div>
-              </CardContent>
-            </Card>
-
-            <Card className="bg-gradient-to-br from-warning/10 to-yellow-100 border-warning/20">
-              <CardContent className="p-6">
-                <div className="flex items-center justify-between mb-4">
-                  <Badge variant="outline" className="border-warning text-warning">New</Badge>
-                  <div className="flex items-center text-sm text-muted-foreground">
-                    <Users className="mr-1 h-4 w-4" />
-                    5 members
-                  </div>
-                </div>
-                <h3 className="font-semibold text-lg mb-2">System Design Study</h3>
-                <p className="text-muted-foreground text-sm mb-4">
-                  Prepare for technical interviews with system design practice sessions.
-                </p>
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center text-sm text-muted-foreground">
-                    <Calendar className="mr-1 h-4 w-4" />
-                    Next: Saturday 2PM
-                  </div>
-                  <Button size="sm" variant="outline" data-testid="button-join-featured-3">
-                    Join Group
-                  </Button>
-                </div>
-              </CardContent>
-            </Card>
+        {/* Upcoming Sessions */}
+        {upcomingGroups.length > 0 && (
+          <div className="mb-8">
+            <h2 className="text-2xl font-semibold mb-4">Upcoming Sessions</h2>
+            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {upcomingGroups.map((group) => (
+                <Card
+                  key={group.id}
+                  className="bg-gradient-to-br from-primary/10 to-secondary/10 border-primary/20"
+                  data-testid={`card-upcoming-${group.id}`}
+                >
+                  <CardContent className="p-6">
+                    <div className="flex items-center justify-between mb-4">
+                      {group.myRole ? (
+                        <Badge className="bg-primary text-white">Your Group</Badge>
+                      ) : (
+                        <Badge variant="outline">Open to Join</Badge>
+                      )}
+                      <div className="flex items-center text-sm text-muted-foreground">
+                        <Users className="mr-1 h-4 w-4" />
+                        {group.memberCount} members
+                      </div>
+                    </div>
+                    <h3 className="font-semibold text-lg mb-2">
+                      <Link href={`/study-groups/${group.id}`} className="hover:underline">
+                        {group.name}
+                      </Link>
+                    </h3>
+                    {group.description && (
+                      <p className="text-muted-foreground text-sm mb-4 line-clamp-2">{group.description}</p>
+                    )}
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center text-sm text-muted-foreground">
+                        <Calendar className="mr-1 h-4 w-4" />
+                        Next: {formatSessionTime(group.nextSession!)}
+                      </div>
+                      <Button size="sm" variant="outline" asChild>
+                        <Link href={`/study-groups/${group.id}`} data-testid={`link-upcoming-group-${group.id}`}>
+                          View
+                        </Link>
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
           </div>
-        </div>
+        )}
 
         {/* All Study Groups */}
         <div>
@@ -408,7 +397,9 @@ export default function StudyGroups() {
                     </div>
 
                     <h3 className="font-semibold text-lg mb-2" data-testid={`text-group-name-${group.id}`}>
-                      {group.name}
+                      <Link href={`/study-groups/${group.id}`} className="hover:text-primary">
+                        {group.name}
+                      </Link>
                     </h3>
                     
                     {group.description && (
@@ -432,28 +423,37 @@ export default function StudyGroups() {
                     {group.nextSession && (
                       <div className="flex items-center text-sm text-muted-foreground mb-4">
                         <Clock className="mr-1 h-4 w-4" />
-                        Next session: {formatDistanceToNow(new Date(group.nextSession))}
+                        Next session: {formatDistanceToNow(new Date(group.nextSession), { addSuffix: true })}
                       </div>
                     )}
 
                     <div className="flex space-x-2">
-                      <Button
-                        size="sm"
-                        className="flex-1"
-                        variant={group.isActive ? "default" : "outline"}
-                        onClick={() => joinGroupMutation.mutate(group.id)}
-                        disabled={joinGroupMutation.isPending}
-                        data-testid={`button-join-group-${group.id}`}
-                      >
-                        {joinGroupMutation.isPending ? (
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        ) : group.isActive ? (
-                          <Video className="mr-2 h-4 w-4" />
-                        ) : (
-                          <Users className="mr-2 h-4 w-4" />
-                        )}
-                        {group.isActive ? "Join Live" : "Join Group"}
-                      </Button>
+                      {group.myRole ? (
+                        <Button size="sm" className="flex-1" variant="outline" asChild>
+                          <Link href={`/study-groups/${group.id}`} data-testid={`link-open-group-${group.id}`}>
+                            <ArrowRight className="mr-2 h-4 w-4" />
+                            Open Group
+                          </Link>
+                        </Button>
+                      ) : (
+                        <Button
+                          size="sm"
+                          className="flex-1"
+                          variant={group.isActive ? "default" : "outline"}
+                          onClick={() => joinGroupMutation.mutate(group.id)}
+                          disabled={joinGroupMutation.isPending}
+                          data-testid={`button-join-group-${group.id}`}
+                        >
+                          {joinGroupMutation.isPending && joinGroupMutation.variables === group.id ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : group.isActive ? (
+                            <Video className="mr-2 h-4 w-4" />
+                          ) : (
+                            <Users className="mr-2 h-4 w-4" />
+                          )}
+                          {group.isActive ? "Join Live" : "Join Group"}
+                        </Button>
+                      )}
                       <Button size="sm" variant="ghost" data-testid={`button-message-group-${group.id}`}>
                         <MessageCircle className="h-4 w-4" />
                       </Button>
@@ -0,0 +1,502 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Navbar } from "@/components/navbar";
+import { Markdown } from "@/components/markdown";
+import { TopicVersions } from "@/components/topic-versions";
+import { TopicMasteryCard } from "@/components/topic-mastery";
+import { TopicPractice } from "@/components/topic-practice";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { cn } from "@/lib/utils";
+import { splitIntoSections } from "@shared/sections";
+import {
+  ArrowLeft,
+  CheckCircle2,
+  ChevronLeft,
+  ChevronRight,
+  Circle,
+  Loader2,
+  Pencil,
+  Trash2,
+} from "lucide-react";
+
+interface Topic {
+  id: string;
+  title: string;
+  description?: string;
+  difficulty: string;
+  content?: string;
+  progress: number;
+  readSections: number[] | null;
+  aiGenerated: boolean;
+}
+
+// Reports time spent with the page visible. Each stretch is sent when the tab is
+// hidden or the page is left, and the server logs it as a study session.
+function useStudyTimer(topicId: string) {
+  const activeSince = useRef<number | null>(null);
+  const elapsed = useRef(0);
+
+  useEffect(() => {
+    activeSince.current = document.visibilityState === "visible" ? Date.now() : null;
+    elapsed.current = 0;
+
+    const flush = () => {
+      if (activeSince.current !== null) {
+        elapsed.current += Date.now() - activeSince.current;
+        activeSince.current = null;
+      }
+      const durationSeconds = Math.round(elapsed.current / 1000);
+      elapsed.current = 0;
+      if (durationSeconds === 0) return;
+      // keepalive lets the request finish even if the tab is being closed
+      fetch(`/api/topics/${topicId}/progress`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ readSections: [], durationSeconds }),
+        credentials: "include",
+        keepalive: true,
+      }).catch(() => {});
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") {
+        activeSince.current = Date.now();
+      } else {
+        flush();
+      }
+    };
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      flush();
+    };
+  }, [topicId]);
+}
+
+export default function TopicPage() {
+  const { id } = useParams<{ id: string }>();
+  const [current, setCurrent] = useState<number | null>(null);
+  const [readSections, setReadSections] = useState<Set<number>>(new Set());
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [draft, setDraft] = useState({ title: "", description: "", content: "" });
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useStudyTimer(id);
+
+  const { data: topic, isLoading } = useQuery<Topic>({
+    queryKey: ["/api/topics", id],
+  });
+
+  const sections = useMemo(() => splitIntoSections(topic?.content), [topic?.content]);
+
+  // Start over from the saved progress whenever the topic or its content changes
+  useEffect(() => {
+    setCurrent(null);
+  }, [id, topic?.content]);
+
+  // Resume at the first section not read yet
+  useEffect(() => {
+    if (!topic || current !== null) return;
+    const read = new Set(topic.readSections ?? []);
+    setReadSections(read);
+    const firstUnread = sections.findIndex((_, index) => !read.has(index));
+    setCurrent(firstUnread === -1 ? 0 : firstUnread);
+  }, [topic, sections, current]);
+
+  const progressMutation = useMutation({
+    mutationFn: async (sectionIndex: number) => {
+      const response = await apiRequest("PATCH", `/api/topics/${id}/progress`, {
+        readSections: [sectionIndex],
+      });
+      return response.json();
+    },
+    onSuccess: (updated: Topic) => {
+      queryClient.setQueryData(["/api/topics", id], updated);
+      queryClient.invalidateQueries({ queryKey: ["/api/topics"], exact: true });
+      // Finishing a topic can unlock the next steps of a learning path
+      queryClient.invalidateQueries({ queryKey: ["/api/learning-paths"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to save your progress.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (updates: { title: string; description: string; content: string }) => {
+      const response = await apiRequest("PATCH", `/api/topics/${id}`, updates);
+      return response.json();
+    },
+    onSuccess: (updated: Topic) => {
+      queryClient.setQueryData(["/api/topics", id], updated);
+      queryClient.invalidateQueries({ queryKey: ["/api/topics"], exact: true });
+      setIsEditOpen(false);
+      toast({ title: "Topic Updated", description: "Your changes have been saved." });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to update topic. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/topics/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.removeQueries({ queryKey: ["/api/topics", id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/topics"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/flashcards/due"] });
+      toast({ title: "Topic Deleted", description: "The topic and its quizzes and flashcards were removed." });
+      setLocation("/");
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to delete topic. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openEditor = () => {
+    if (!topic) return;
+    setDraft({
+      title: topic.title,
+      description: topic.description ?? "",
+      content: topic.content ?? "",
+    });
+    setIsEditOpen(true);
+  };
+
+  const handleSave = () => {
+    if (!draft.title.trim()) {
+      toast({ title: "Error", description: "Title is required.", variant: "destructive" });
+      return;
+    }
+    updateMutation.mutate(draft);
+  };
+
+  const markRead = (sectionIndex: number) => {
+    if (readSections.has(sectionIndex)) return;
+    setReadSections((prev) => new Set(prev).add(sectionIndex));
+    progressMutation.mutate(sectionIndex);
+  };
+
+  const goTo = (sectionIndex: number) => {
+    setCurrent(sectionIndex);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const handleNext = () => {
+    if (current === null) return;
+    markRead(current);
+    if (current < sections.length - 1) goTo(current + 1);
+  };
+
+  const section = current !== null ? sections[current] : undefined;
+  const progress = topic?.progress ?? 0;
+  const isLast = current === sections.length - 1;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Button variant="ghost" asChild className="mb-4">
+          <Link href="/">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Dashboard
+          </Link>
+        </Button>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : !topic ? (
+          <Card>
+            <CardContent className="p-12 text-center text-muted-foreground">
+              This topic could not be found.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="mb-6">
+              <div className="flex items-start justify-between gap-4">
+                <h1 className="text-3xl font-bold mb-2" data-testid="text-topic-title">
+                  {topic.title}
+                </h1>
+                <div className="flex gap-2 shrink-0">
+                  <Button variant="outline" size="sm" onClick={openEditor} data-testid="button-edit-topic">
+                    <Pencil className="mr-2 h-4 w-4" />
+                    Edit
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-destructive hover:text-destructive"
+                    onClick={() => setIsDeleteOpen(true)}
+                    data-testid="button-delete-topic"
+                  >
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete
+                  </Button>
+                </div>
+              </div>
+              {topic.description && <p className="text-muted-foreground mb-3">{topic.description}</p>}
+              <div className="flex flex-wrap items-center gap-2 mb-4">
+                <Badge variant="secondary" className="capitalize">
+                  {topic.difficulty}
+                </Badge>
+                {topic.aiGenerated && (
+                  <Badge variant="secondary" className="bg-primary/10 text-primary">
+                    AI Generated
+                  </Badge>
+                )}
+              </div>
+              <div className="space-y-2 max-w-md">
+                <div className="flex justify-between text-sm">
+                  <span>Progress</span>
+                  <span data-testid="text-topic-progress">{progress}%</span>
+                </div>
+                <Progress value={progress} className="h-2" />
+              </div>
+            </div>
+
+            <div className="mb-6 grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-2">
+                <TopicVersions topicId={topic.id} difficulty={topic.difficulty} content={topic.content} />
+              </div>
+              <div className="space-y-6">
+                <TopicMasteryCard topicId={topic.id} title={topic.title} difficulty={topic.difficulty} />
+                <TopicPractice topicId={topic.id} />
+              </div>
+            </div>
+
+            {sections.length === 0 ? (
+              <Card>
+                <CardContent className="p-12 text-center text-muted-foreground">
+                  This topic has no content yet. Pick a level above to generate it.
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+                <Card className="lg:col-span-1 h-fit">
+                  <CardHeader>
+                    <CardTitle className="text-base">Sections</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-1">
+                    {sections.map((item, index) => (
+                      <button
+                        key={index}
+                        onClick={() => goTo(index)}
+                        className={cn(
+                          "w-full flex items-start gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted",
+                          index === current && "bg-muted font-medium",
+                        )}
+                        data-testid={`button-section-${index}`}
+                      >
+                        {readSections.has(index) ? (
+                          <CheckCircle2 className="h-4 w-4 mt-0.5 shrink-0 text-success" />
+                        ) : (
+                          <Circle className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                        )}
+                        <span>{item.title}</span>
+                      </button>
+                    ))}
+                  </CardContent>
+                </Card>
+
+                {section && current !== null && (
+                  <Card className="lg:col-span-3">
+                    <CardHeader>
+                      <div className="flex items-center justify-between">
+                        <CardTitle className="text-xl" data-testid="text-section-title">
+                          {section.title}
+                        </CardTitle>
+                        <span className="text-sm text-muted-foreground">
+                          {current + 1} of {sections.length}
+                        </span>
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      <Markdown>{section.body}</Markdown>
+                      <div className="flex justify-between pt-6 mt-6 border-t">
+                        <Button
+                          variant="outline"
+                          onClick={() => goTo(current - 1)}
+                          disabled={current === 0}
+                          data-testid="button-previous-section"
+                        >
+                          <ChevronLeft className="mr-2 h-4 w-4" />
+                          Previous
+                        </Button>
+                        {isLast ? (
+                          <Button
+                            onClick={handleNext}
+                            disabled={readSections.has(current)}
+                            data-testid="button-finish-topic"
+                          >
+                            <CheckCircle2 className="mr-2 h-4 w-4" />
+                            {readSections.has(current) ? "Completed" : "Mark as Read"}
+                          </Button>
+                        ) : (
+                          <Button onClick={handleNext} data-testid="button-next-section">
+                            Next
+                            <ChevronRight className="ml-2 h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </main>
+
+      <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Edit Topic</DialogTitle>
+            <DialogDescription>
+              Content is Markdown; headings start new sections.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="topic-title">Title</Label>
+              <Input
+                id="topic-title"
+                value={draft.title}
+                onChange={(e) => setDraft((d) => ({ ...d, title: e.target.value }))}
+                data-testid="input-topic-title"
+              />
+            </div>
+            <div>
+              <Label htmlFor="topic-description">Description (Optional)</Label>
+              <Input
+                id="topic-description"
+                value={draft.description}
+                onChange={(e) => setDraft((d) => ({ ...d, description: e.target.value }))}
+                data-testid="input-topic-description"
+              />
+            </div>
+            <div>
+              <Label htmlFor="topic-content">Content</Label>
+              <Textarea
+                id="topic-content"
+                value={draft.content}
+                onChange={(e) => setDraft((d) => ({ ...d, content: e.target.value }))}
+                className="min-h-80 font-mono text-sm"
+                data-testid="textarea-topic-content"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsEditOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={updateMutation.isPending} data-testid="button-save-topic">
+              {updateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Changes
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this topic?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its quizzes, flashcards and saved versions will be deleted too. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteMutation.mutate()}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-delete-topic"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
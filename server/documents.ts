@@ -0,0 +1,64 @@
+import path from "path";
+import mammoth from "mammoth";
+import { extractText as extractPdfText, getDocumentProxy } from "unpdf";
+
+export const SUPPORTED_EXTENSIONS = [".pdf", ".txt", ".md", ".docx"];
+
+const CHUNK_SIZE = 4000; // characters
+const CHUNK_OVERLAP = 200;
+
+export function isSupportedDocument(filename: string) {
+  return SUPPORTED_EXTENSIONS.includes(path.extname(filename).toLowerCase());
+}
+
+export async function extractDocumentText(file: { originalname: string; buffer: Buffer }): Promise<string> {
+  const extension = path.extname(file.originalname).toLowerCase();
+  let text: string;
+
+  switch (extension) {
+    case ".pdf": {
+      const pdf = await getDocumentProxy(new Uint8Array(file.buffer));
+      const result = await extractPdfText(pdf, { mergePages: true });
+      text = result.text;
+      break;
+    }
+    case ".docx": {
+      const result = await mammoth.extractRawText({ buffer: file.buffer });
+      text = result.value;
+      break;
+    }
+    case ".txt":
+    case ".md":
+      text = file.buffer.toString("utf-8");
+      break;
+    default:
+      throw new Error(`Unsupported file type: ${extension}`);
+  }
+
+  // Postgres text columns reject NUL bytes, which some PDFs contain
+  return text.replace(/\u0000/g, "").replace(/\r\n/g, "\n").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+// Splits text into overlapping chunks, preferring paragraph then sentence boundaries
+export function chunkText(text: string, size: number = CHUNK_SIZE, overlap: number = CHUNK_OVERLAP): string[] {
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    let end = Math.min(start + size, text.length);
+    if (end < text.length) {
+      const window = text.slice(start, end);
+      const breakAt = Math.max(window.lastIndexOf("\n\n"), window.lastIndexOf(". "));
+      if (breakAt > size / 2) {
+        end = start + breakAt + 1;
+      }
+    }
+
+    const chunk = text.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+    if (end >= text.length) break;
+    start = Math.max(end - overlap, start + 1);
+  }
+
+  return chunks;
+}
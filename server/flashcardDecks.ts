@@ -0,0 +1,496 @@
+// Flashcard deck files: CSV/TSV (including Anki's plain-text export) and Anki .apkg packages.
+// Packages use the legacy collection format (schema 11) that every Anki version can read.
+import path from "path";
+import { createHash } from "crypto";
+import JSZip from "jszip";
+import initSqlJs, { type Database, type SqlJsStatic } from "sql.js";
+import { flashcardContentSchema, type Flashcard } from "@shared/schema";
+
+export const DECK_EXTENSIONS = [".apkg", ".csv", ".tsv", ".txt"];
+
+// More than this in one file is almost certainly not a study deck
+export const MAX_IMPORT_CARDS = 5000;
+
+const DAY_SECONDS = 24 * 60 * 60;
+const FIELD_SEPARATOR = "\x1f";
+
+// The file isn't a deck we can read; surfaced to clients as a 400
+export class DeckFormatError extends Error {
+  readonly status = 400;
+  readonly code = "INVALID_DECK";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "DeckFormatError";
+  }
+}
+
+// A card read from a deck file. Scheduling is only set when the file carried it.
+export interface DeckCard {
+  front: string;
+  back: string;
+  difficulty?: number;
+  ease?: number;
+  interval?: number;
+  repetitions?: number;
+  nextReview?: Date;
+  lastReviewedAt?: Date;
+}
+
+export interface DeckImport {
+  cards: DeckCard[];
+  skipped: number; // rows or notes without a usable front and back
+}
+
+export function isSupportedDeck(filename: string) {
+  return DECK_EXTENSIONS.includes(path.extname(filename).toLowerCase());
+}
+
+export async function readDeck(file: { originalname: string; buffer: Buffer }): Promise<DeckImport> {
+  const extension = path.extname(file.originalname).toLowerCase();
+  const rows =
+    extension === ".apkg"
+      ? await readApkg(file.buffer)
+      : readDelimited(file.buffer.toString("utf-8"), extension);
+  if (rows.length > MAX_IMPORT_CARDS) {
+    throw new DeckFormatError(`Decks can have at most ${MAX_IMPORT_CARDS} cards; this one has ${rows.length}`);
+  }
+
+  const cards: DeckCard[] = [];
+  for (const row of rows) {
+    const content = flashcardContentSchema.safeParse({ front: row.front, back: row.back });
+    if (content.success) cards.push({ ...row, ...content.data });
+  }
+  return { cards, skipped: rows.length - cards.length };
+}
+
+// Anki fields are HTML; cards here are plain text, so markup and media references are dropped
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(div|p|li)>/gi, "\n")
+    .replace(/\[sound:[^\]]*\]/g, "")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+const textToHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/\n/g, "<br>");
+
+// CSV/TSV
+
+// Column names accepted in a header row, as written by exportCsv
+const csvColumns = ["front", "back", "difficulty", "ease", "interval", "repetitions", "next_review", "last_reviewed_at"];
+
+// Spreadsheets run a cell starting with one of these as a formula, so card text from a
+// shared deck could run code when an export is opened
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+// Separators Anki's "#separator:" header may name
+const namedSeparators: Record<string, string> = {
+  tab: "\t",
+  comma: ",",
+  semicolon: ";",
+  pipe: "|",
+  colon: ":",
+  space: " ",
+};
+
+// Splits delimited text into rows of fields, honouring RFC 4180 quoting
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ""));
+}
+
+const toInteger = (value: string | undefined) => {
+  const number = Number(value);
+  return value?.trim() && Number.isInteger(number) && number >= 0 ? number : undefined;
+};
+
+const toDate = (value: string | undefined) => {
+  const date = value?.trim() ? new Date(value) : undefined;
+  return date && !Number.isNaN(date.getTime()) ? date : undefined;
+};
+
+function readDelimited(raw: string, extension: string): DeckCard[] {
+  let delimiter = extension === ".csv" ? "," : "\t";
+  let isHtml = false;
+
+  // Anki's text export starts with "#key:value" lines such as #separator:tab and #html:true
+  const lines = raw.replace(/^\uFEFF/, "").split(/\r?\n/);
+  let start = 0;
+  for (; start < lines.length && /^#\w+:/.test(lines[start]); start++) {
+    const [key, value = ""] = lines[start].slice(1).split(":", 2);
+    if (key === "separator") delimiter = namedSeparators[value.trim().toLowerCase()] ?? value;
+    if (key === "html") isHtml = value.trim() === "true";
+  }
+
+  const rows = parseDelimited(lines.slice(start).join("\n"), delimiter);
+  const header = rows[0]?.map((name) => name.trim().toLowerCase());
+  const hasHeader = !!header && header.includes("front") && header.includes("back");
+  const columns = hasHeader ? header : csvColumns;
+  const clean = (value: string | undefined) => (isHtml ? htmlToText(value ?? "") : (value ?? "").trim());
+  // Undoes the ' our own export puts in front of formula-like text
+  const cleanText = (value: string | undefined) => {
+    const text = clean(value);
+    return text.startsWith("'") && FORMULA_TRIGGER.test(text.slice(1)) ? text.slice(1).trim() : text;
+  };
+
+  return rows.slice(hasHeader ? 1 : 0).map((fields) => {
+    const value = (column: string) => {
+      const index = columns.indexOf(column);
+      return index === -1 ? undefined : fields[index];
+    };
+    const difficulty = toInteger(value("difficulty"));
+    return {
+      front: cleanText(value("front")),
+      back: cleanText(value("back")),
+      difficulty: difficulty !== undefined && difficulty <= 3 ? difficulty : undefined,
+      ease: toInteger(value("ease")),
+      interval: toInteger(value("interval")),
+      repetitions: toInteger(value("repetitions")),
+      nextReview: toDate(value("next_review")),
+      lastReviewedAt: toDate(value("last_reviewed_at")),
+    };
+  });
+}
+
+const csvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Card text starting with a formula trigger goes out behind a ' so it stays plain text
+const textField = (value: string) => csvField(FORMULA_TRIGGER.test(value) ? `'${value}` : value);
+
+export function exportCsv(cards: Flashcard[]): string {
+  const rows = cards.map((card) =>
+    [
+      textField(card.front),
+      textField(card.back),
+      ...[
+        String(card.difficulty ?? 0),
+        String(card.ease ?? 250),
+        String(card.interval ?? 0),
+        String(card.repetitions ?? 0),
+        card.nextReview?.toISOString() ?? "",
+        card.lastReviewedAt?.toISOString() ?? "",
+      ].map(csvField),
+    ],
+  );
+  return [csvColumns, ...rows].map((fields) => fields.join(",")).join("\r\n") + "\r\n";
+}
+
+// Anki packages
+
+let sqlJs: Promise<SqlJsStatic> | undefined;
+const loadSqlJs = () => (sqlJs ??= initSqlJs());
+
+const queryRows = (db: Database, sql: string) => {
+  const [result] = db.exec(sql);
+  return result?.values ?? [];
+};
+
+async function readApkg(buffer: Buffer): Promise<DeckCard[]> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch {
+    throw new DeckFormatError("This file is not a valid Anki package");
+  }
+  // Newer Anki writes collection.anki21b, which only recent versions of Anki itself can read.
+  // collection.anki2 then holds a placeholder note, so it mustn't be used instead.
+  const collection =
+    zip.file("collection.anki21") ?? (zip.file("collection.anki21b") ? null : zip.file("collection.anki2"));
+  if (!collection) {
+    throw new DeckFormatError('Export the deck from Anki with "Support older Anki versions" ticked, then try again');
+  }
+
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database(await collection.async("uint8array"));
+  try {
+    const [[crt = 0] = []] = queryRows(db, "SELECT crt FROM col");
+    // The most recent review of each card says how it was last rated and when
+    const lastReviews = new Map<number, { ease: number; at: number }>();
+    for (const [cid, ease, id] of queryRows(db, "SELECT cid, ease, id FROM revlog ORDER BY id")) {
+      lastReviews.set(Number(cid), { ease: Number(ease), at: Number(id) });
+    }
+
+    // Only a note's first card: the front and back fields as written, not e.g. a reversed copy
+    const rows = queryRows(
+      db,
+      `SELECT c.id, n.flds, c.type, c.due, c.ivl, c.factor, c.reps, c.lapses
+       FROM cards c JOIN notes n ON n.id = c.nid
+       WHERE c.ord = 0 ORDER BY c.id`,
+    );
+    return rows.map(([id, flds, type, due, ivl, factor, reps, lapses]) => {
+      const [front = "", back = ""] = String(flds).split(FIELD_SEPARATOR);
+      const card: DeckCard = { front: htmlToText(front), back: htmlToText(back) };
+      if (Number(type) === 0) return card; // new: never studied
+
+      // Learning cards are due at a timestamp, review cards on a day counted from the collection's creation
+      const dueSeconds = Number(due) > 1_000_000_000 ? Number(due) : Number(crt) + Number(due) * DAY_SECONDS;
+      const review = lastReviews.get(Number(id));
+      return {
+        ...card,
+        difficulty: review ? Math.min(Math.max(review.ease - 1, 0), 3) : undefined,
+        ease: Number(factor) > 0 ? Math.round(Number(factor) / 10) : undefined,
+        interval: Number(ivl) > 0 ? Number(ivl) : 0,
+        repetitions: Number(type) === 2 ? Math.max(Number(reps) - Number(lapses), 1) : 0,
+        nextReview: new Date(dueSeconds * 1000),
+        lastReviewedAt: review ? new Date(review.at) : undefined,
+      };
+    });
+  } catch (error) {
+    if (error instanceof DeckFormatError) throw error;
+    throw new DeckFormatError("This Anki package's collection could not be read");
+  } finally {
+    db.close();
+  }
+}
+
+const COLLECTION_SCHEMA = `
+CREATE TABLE col (
+  id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+  ver integer not null, dty integer not null, usn integer not null, ls integer not null,
+  conf text not null, models text not null, decks text not null, dconf text not null, tags text not null
+);
+CREATE TABLE notes (
+  id integer primary key, guid text not null, mid integer not null, mod integer not null,
+  usn integer not null, tags text not null, flds text not null, sfld integer not null,
+  csum integer not null, flags integer not null, data text not null
+);
+CREATE TABLE cards (
+  id integer primary key, nid integer not null, did integer not null, ord integer not null,
+  mod integer not null, usn integer not null, type integer not null, queue integer not null,
+  due integer not null, ivl integer not null, factor integer not null, reps integer not null,
+  lapses integer not null, left integer not null, odue integer not null, odid integer not null,
+  flags integer not null, data text not null
+);
+CREATE TABLE revlog (
+  id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+  ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null,
+  type integer not null
+);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn ON notes (usn);
+CREATE INDEX ix_cards_usn ON cards (usn);
+CREATE INDEX ix_revlog_usn ON revlog (usn);
+CREATE INDEX ix_cards_nid ON cards (nid);
+CREATE INDEX ix_cards_sched ON cards (did, queue, due);
+CREATE INDEX ix_revlog_cid ON revlog (cid);
+CREATE INDEX ix_notes_csum ON notes (csum);
+`;
+
+// Fixed so that every export shares one note type in the student's Anki collection
+const MODEL_ID = 1700000000000;
+const DEFAULT_DECK_ID = 1;
+
+// Anki's duplicate check: the first 8 hex digits of the SHA-1 of the sort field
+const fieldChecksum = (text: string) => parseInt(createHash("sha1").update(text).digest("hex").slice(0, 8), 16);
+
+const startOfDaySeconds = (date: Date) => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return Math.floor(start.getTime() / 1000);
+};
+
+function collectionConfig(deckId: number, deckName: string, cardCount: number, now: number) {
+  const deck = (id: number, name: string) => ({
+    id,
+    name,
+    desc: "",
+    mod: now,
+    usn: -1,
+    collapsed: false,
+    browserCollapsed: false,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+    dyn: 0,
+    conf: 1,
+    extendNew: 0,
+    extendRev: 0,
+  });
+  const field = (name: string, ord: number) => ({
+    name,
+    ord,
+    sticky: false,
+    rtl: false,
+    font: "Arial",
+    size: 20,
+    media: [],
+  });
+
+  return {
+    conf: {
+      nextPos: cardCount + 1,
+      estTimes: true,
+      activeDecks: [deckId],
+      sortType: "noteFld",
+      timeLim: 0,
+      sortBackwards: false,
+      addToCur: true,
+      curDeck: deckId,
+      newSpread: 0,
+      dueCounts: true,
+      curModel: String(MODEL_ID),
+      collapseTime: 1200,
+    },
+    models: {
+      [MODEL_ID]: {
+        id: MODEL_ID,
+        name: "EduAI Basic",
+        type: 0,
+        mod: now,
+        usn: -1,
+        sortf: 0,
+        did: deckId,
+        tmpls: [
+          {
+            name: "Card 1",
+            ord: 0,
+            qfmt: "{{Front}}",
+            afmt: "{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}",
+            bqfmt: "",
+            bafmt: "",
+            did: null,
+          },
+        ],
+        flds: [field("Front", 0), field("Back", 1)],
+        css: ".card {\n  font-family: arial;\n  font-size: 20px;\n  text-align: center;\n  color: black;\n  background-color: white;\n}\n",
+        latexPre:
+          "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n",
+        latexPost: "\\end{document}",
+        latexsvg: false,
+        req: [[0, "any", [0]]],
+        tags: [],
+        vers: [],
+      },
+    },
+    decks: {
+      [DEFAULT_DECK_ID]: deck(DEFAULT_DECK_ID, "Default"),
+      [deckId]: deck(deckId, deckName),
+    },
+    dconf: {
+      1: {
+        id: 1,
+        name: "Default",
+        mod: 0,
+        usn: 0,
+        maxTaken: 60,
+        autoplay: true,
+        timer: 0,
+        replayq: true,
+        dyn: false,
+        new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: true, separate: true },
+        rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, minSpace: 1, ivlFct: 1, maxIvl: 36500, bury: true, hardFactor: 1.2 },
+        lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+      },
+    },
+  };
+}
+
+// Packages a topic's cards as an Anki deck. Cards already reviewed here keep their interval,
+// ease and due date, and their last rating is written to the review log.
+export async function exportApkg(cards: Flashcard[], deckName: string, now: Date = new Date()): Promise<Buffer> {
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+  try {
+    db.run(COLLECTION_SCHEMA);
+
+    const nowMs = now.getTime();
+    const nowSeconds = Math.floor(nowMs / 1000);
+    // Review cards are due on a day counted from crt, so it must not come after any of them
+    const earliest = Math.min(nowMs, ...cards.map((card) => card.nextReview?.getTime() ?? nowMs));
+    const crt = startOfDaySeconds(new Date(earliest));
+    const deckId = nowMs;
+    const config = collectionConfig(deckId, deckName, cards.length, nowSeconds);
+
+    db.run("INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')", [
+      crt,
+      nowMs,
+      nowMs,
+      JSON.stringify(config.conf),
+      JSON.stringify(config.models),
+      JSON.stringify(config.decks),
+      JSON.stringify(config.dconf),
+    ]);
+
+    const insertNote = db.prepare("INSERT INTO notes VALUES (?, ?, ?, ?, -1, '', ?, ?, ?, 0, '')");
+    const insertCard = db.prepare("INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, ?, ?, ?, ?, ?, ?, 0, 0, 0, 0, 0, '')");
+    const insertReview = db.prepare("INSERT INTO revlog VALUES (?, ?, -1, ?, ?, 0, ?, 0, 1)");
+    const usedReviewIds = new Set<number>();
+
+    cards.forEach((card, index) => {
+      const id = nowMs + index;
+      const ease = card.ease ?? 250;
+      const interval = card.interval ?? 0;
+      // The card's own id as guid, so importing a later export updates these notes instead of duplicating them
+      const fields = `${textToHtml(card.front)}${FIELD_SEPARATOR}${textToHtml(card.back)}`;
+      insertNote.run([id, card.id, MODEL_ID, nowSeconds, fields, card.front, fieldChecksum(card.front)]);
+
+      if (!card.lastReviewedAt) {
+        insertCard.run([id, id, deckId, nowSeconds, 0, 0, index + 1, 0, 0, 0]);
+        return;
+      }
+      const nextReview = card.nextReview ?? now;
+      const due = Math.max(0, Math.floor((startOfDaySeconds(nextReview) - crt) / DAY_SECONDS));
+      insertCard.run([id, id, deckId, nowSeconds, 2, 2, due, Math.max(interval, 1), ease * 10, card.repetitions ?? 0]);
+
+      let reviewId = card.lastReviewedAt.getTime();
+      while (usedReviewIds.has(reviewId)) reviewId++;
+      usedReviewIds.add(reviewId);
+      insertReview.run([reviewId, id, (card.difficulty ?? 2) + 1, interval, ease * 10]);
+    });
+    insertNote.free();
+    insertCard.free();
+    insertReview.free();
+
+    const zip = new JSZip();
+    zip.file("collection.anki2", db.export());
+    zip.file("media", "{}");
+    return await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,124 @@
+import type { PublicQuizQuestion, QuizAnswer, QuizQuestion } from "@shared/questions";
+import { isUnanswered } from "@shared/questions";
+import { gradeShortAnswer, type ShortAnswerGrade } from "./gemini";
+
+export type GradedQuestion = QuizQuestion & {
+  selected: QuizAnswer;
+  isCorrect: boolean;
+  feedback?: string; // short answers only
+};
+
+export interface QuizGrade {
+  score: number;
+  totalQuestions: number;
+  results: GradedQuestion[];
+}
+
+export const XP_PER_CORRECT_ANSWER = 10;
+
+// Fill-in-the-blank answers match regardless of case, spacing and trailing punctuation
+const normalizeText = (value: string) =>
+  value.trim().toLowerCase().replace(/\s+/g, " ").replace(/[.!?]+$/, "");
+
+// Stable per-question shuffle, so reloading a quiz shows the items in the same order
+function shuffleItems(items: string[], seed: string): string[] {
+  let hash = 0;
+  for (const char of seed) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    hash = (hash * 1103515245 + 12345) | 0;
+    const j = Math.abs(hash) % (i + 1);
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  // Never hand out the answer as the starting order
+  const isSolved = shuffled.every((item, i) => item === items[i]);
+  return isSolved ? [...shuffled.slice(1), shuffled[0]] : shuffled;
+}
+
+export function toPublicQuestions(questions: QuizQuestion[]): PublicQuizQuestion[] {
+  return questions.map((q): PublicQuizQuestion => {
+    switch (q.type) {
+      case "multiple_choice":
+      case "multi_select":
+        return { type: q.type, question: q.question, options: q.options };
+      case "ordering":
+        return { type: q.type, question: q.question, items: shuffleItems(q.items, q.question) };
+      default:
+        return { type: q.type, question: q.question };
+    }
+  });
+}
+
+// Short answers are graded by the model when submitted, so their grade is passed in
+export function isAnswerCorrect(
+  question: QuizQuestion,
+  answer: QuizAnswer | undefined,
+  shortAnswerGrade?: ShortAnswerGrade | null,
+): boolean {
+  if (isUnanswered(answer)) return false;
+  switch (question.type) {
+    case "multiple_choice":
+    case "true_false":
+      return answer === question.correctAnswer;
+    case "multi_select": {
+      if (!Array.isArray(answer)) return false;
+      const selected = new Set<unknown>(answer);
+      return (
+        selected.size === question.correctAnswers.length && question.correctAnswers.every((i) => selected.has(i))
+      );
+    }
+    case "fill_blank":
+      return (
+        typeof answer === "string" &&
+        question.acceptedAnswers.some((accepted) => normalizeText(accepted) === normalizeText(answer))
+      );
+    case "ordering":
+      return (
+        Array.isArray(answer) &&
+        answer.length === question.items.length &&
+        question.items.every((item, i) => item === answer[i])
+      );
+    case "short_answer":
+      return shortAnswerGrade?.isCorrect ?? false;
+  }
+}
+
+// One entry per question: the model's grade for answered short answers, null otherwise
+export async function gradeShortAnswers(
+  questions: QuizQuestion[],
+  answers: QuizAnswer[],
+): Promise<(ShortAnswerGrade | null)[]> {
+  return await Promise.all(
+    questions.map(async (question, index) => {
+      const answer = answers[index];
+      if (question.type !== "short_answer") return null;
+      if (typeof answer !== "string" || isUnanswered(answer)) {
+        return { isCorrect: false, feedback: "No answer was given." };
+      }
+      return await gradeShortAnswer(question, answer);
+    }),
+  );
+}
+
+export function gradeQuiz(
+  questions: QuizQuestion[],
+  answers: QuizAnswer[],
+  shortAnswerGrades: (ShortAnswerGrade | null)[] = [],
+): QuizGrade {
+  const results = questions.map((q, index): GradedQuestion => {
+    const selected = answers[index] ?? null;
+    const grade = shortAnswerGrades[index];
+    return {
+      ...q,
+      selected,
+      isCorrect: isAnswerCorrect(q, selected, grade),
+      ...(q.type === "short_answer" && grade ? { feedback: grade.feedback } : {}),
+    };
+  });
+
+  return {
+    score: results.filter((r) => r.isCorrect).length,
+    totalQuestions: questions.length,
+    results,
+  };
+}
@@ -0,0 +1,84 @@
+// Study group chat over the /ws socket. Each group is a room named "group:<id>" that only
+// its members can join; messages are saved before they are broadcast.
+import { storage } from "./storage";
+import {
+  broadcast,
+  joinRoom,
+  leaveRoom,
+  roomClients,
+  roomUsers,
+  toPublicUser,
+  type RealtimeClient,
+} from "./realtime";
+import { GROUP_CHAT_PAGE_SIZE, type GroupChatClientMessage } from "@shared/realtime";
+
+const ROOM_PREFIX = "group:";
+
+const groupRoom = (groupId: string) => `${ROOM_PREFIX}${groupId}`;
+
+// Tells everyone in the room who is connected now
+const announcePresence = (groupId: string) => {
+  broadcast(groupRoom(groupId), { type: "group:presence", groupId, online: roomUsers(groupRoom(groupId)) });
+};
+
+export async function handleGroupChatMessage(client: RealtimeClient, message: GroupChatClientMessage): Promise<void> {
+  const { groupId } = message;
+  const room = groupRoom(groupId);
+
+  if (message.type === "group:join") {
+    const member = await storage.getStudyGroupMember(groupId, client.user.id);
+    if (!member) {
+      return client.send({ type: "error", groupId, message: "Join the group to chat with its members" });
+    }
+    const page = await storage.getGroupMessages(groupId, GROUP_CHAT_PAGE_SIZE + 1);
+    joinRoom(client, room);
+    client.send({
+      type: "group:joined",
+      groupId,
+      messages: page.slice(0, GROUP_CHAT_PAGE_SIZE).reverse(),
+      hasMore: page.length > GROUP_CHAT_PAGE_SIZE,
+      online: roomUsers(room),
+    });
+    announcePresence(groupId);
+    return;
+  }
+
+  if (!client.rooms.has(room)) {
+    // Leaving a room that was never joined needs no answer
+    if (message.type === "group:leave") return;
+    return client.send({ type: "error", groupId, message: "Open the group's chat before sending to it" });
+  }
+
+  switch (message.type) {
+    case "group:leave":
+      leaveRoom(client, room);
+      announcePresence(groupId);
+      break;
+    case "group:message": {
+      const saved = await storage.addGroupMessage({ groupId, userId: client.user.id, content: message.content });
+      broadcast(room, { type: "group:message", groupId, message: { ...saved, user: toPublicUser(client.user) } });
+      break;
+    }
+    case "group:typing":
+      broadcast(room, { type: "group:typing", groupId, user: toPublicUser(client.user), typing: message.typing }, client);
+      break;
+  }
+}
+
+export function handleGroupChatDisconnect(_client: RealtimeClient, rooms: string[]): void {
+  for (const room of rooms) {
+    if (room.startsWith(ROOM_PREFIX)) announcePresence(room.slice(ROOM_PREFIX.length));
+  }
+}
+
+// Closes a group's chat for someone who just left it or was removed from it
+export function removeFromGroupChat(groupId: string, userId: string): void {
+  const room = groupRoom(groupId);
+  const clients = roomClients(room).filter((client) => client.user.id === userId);
+  if (clients.length === 0) return;
+  for (const client of clients) {
+    leaveRoom(client, room);
+    client.send({ type: "group:removed", groupId });
+  }
+  announcePresence(groupId);
+}
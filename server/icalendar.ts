@@ -0,0 +1,145 @@
+// iCalendar (RFC 5545) feeds of study group sessions, for subscribing from Google Calendar,
+// Apple Calendar, Outlook and the like.
+import { toWallClock } from "./sessionSchedule";
+import type { GroupSession } from "@shared/schema";
+
+const PRODUCT_ID = "-//Backbencher Learns//Study Sessions//EN";
+
+export interface CalendarEvent {
+  session: GroupSession;
+  groupName: string;
+  url?: string;
+}
+
+// TEXT values escape backslashes, semicolons, commas and newlines
+const escapeText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// 20261020T190000, with a trailing Z for UTC
+const formatDateTime = (date: Date, utc: boolean) =>
+  date.toISOString().replace(/[-:]/g, "").slice(0, 15) + (utc ? "Z" : "");
+
+// Lines longer than 75 octets continue on the next line after a space
+const foldLine = (line: string) => {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let start = 0;
+  while (start < bytes.length) {
+    let end = Math.min(start + (parts.length === 0 ? 75 : 74), bytes.length);
+    // Don't split a multi-byte character
+    while (end < bytes.length && (bytes[end] & 0xc0) === 0x80) end--;
+    parts.push(bytes.subarray(start, end).toString("utf8"));
+    start = end;
+  }
+  return parts.join("\r\n ");
+};
+
+// How far ahead VTIMEZONE definitions list offset changes. Feeds are re-fetched hourly, so
+// the window moves along with them.
+const TIME_ZONE_YEARS_AHEAD = 10;
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// Minutes `timeZone` is ahead of UTC at `instant`
+const offsetAt = (instant: number, timeZone: string) =>
+  Math.round((toWallClock(new Date(instant), timeZone).getTime() - instant) / MINUTE);
+
+// +0530, -0800
+const formatOffset = (minutes: number) => {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, "0")}${String(abs % 60).padStart(2, "0")}`;
+};
+
+const observanceLines = (kind: "STANDARD" | "DAYLIGHT", onset: number, from: number, to: number) => [
+  `BEGIN:${kind}`,
+  // The onset is written in the local time in effect before it
+  `DTSTART:${formatDateTime(new Date(onset + from * MINUTE), false)}`,
+  `TZOFFSETFROM:${formatOffset(from)}`,
+  `TZOFFSETTO:${formatOffset(to)}`,
+  `END:${kind}`,
+];
+
+const timeZoneBlocks = new Map<string, string[]>();
+
+// RFC 5545 wants a VTIMEZONE for every TZID an event uses. Each offset change from the
+// start of `fromYear` to TIME_ZONE_YEARS_AHEAD from now is listed with its exact date, found
+// by asking Intl for the zone's offset day by day and narrowing each change to the minute.
+const timeZoneLines = (timeZone: string, fromYear: number, now: Date) => {
+  const toYear = now.getUTCFullYear() + TIME_ZONE_YEARS_AHEAD;
+  const key = `${timeZone}:${fromYear}:${toYear}`;
+  const cached = timeZoneBlocks.get(key);
+  if (cached) return cached;
+
+  const start = Date.UTC(fromYear, 0, 1);
+  const end = Date.UTC(toYear, 0, 1);
+  const initial = offsetAt(start, timeZone);
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timeZone}`, ...observanceLines("STANDARD", start, initial, initial)];
+  let offset = initial;
+  for (let day = start; day < end; day += DAY) {
+    const next = offsetAt(day + DAY, timeZone);
+    if (next === offset) continue;
+    let before = day;
+    let after = day + DAY;
+    while (after - before > MINUTE) {
+      const middle = before + Math.floor((after - before) / 2 / MINUTE) * MINUTE;
+      if (offsetAt(middle, timeZone) === offset) before = middle;
+      else after = middle;
+    }
+    lines.push(...observanceLines(next > offset ? "DAYLIGHT" : "STANDARD", after, offset, next));
+    offset = next;
+  }
+  lines.push("END:VTIMEZONE");
+  timeZoneBlocks.set(key, lines);
+  return lines;
+};
+
+// Times are given in the session's own zone (TZID), defined by a VTIMEZONE in the same
+// calendar, so recurrences follow its daylight-saving changes.
+const eventLines = ({ session, groupName, url }: CalendarEvent, now: Date) => {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${session.id}@backbencher-learns`,
+    `DTSTAMP:${formatDateTime(now, true)}`,
+    `LAST-MODIFIED:${formatDateTime(session.updatedAt ?? now, true)}`,
+    `DTSTART;TZID=${session.timeZone}:${formatDateTime(toWallClock(session.startsAt, session.timeZone), false)}`,
+    `DURATION:PT${session.durationMinutes}M`,
+    `SUMMARY:${escapeText(`${session.title} (${groupName})`)}`,
+  ];
+  if (session.recurrence) lines.push(`RRULE:${session.recurrence}`);
+  if (session.description) lines.push(`DESCRIPTION:${escapeText(session.description)}`);
+  if (session.location) lines.push(`LOCATION:${escapeText(session.location)}`);
+  if (url) lines.push(`URL:${url}`);
+  lines.push("END:VEVENT");
+  return lines;
+};
+
+// Each zone the events use, with the year before its earliest session, so that session is covered in any zone
+const timeZonesOf = (events: CalendarEvent[]) => {
+  const zones = new Map<string, number>();
+  for (const { session } of events) {
+    const year = session.startsAt.getUTCFullYear() - 1;
+    zones.set(session.timeZone, Math.min(zones.get(session.timeZone) ?? year, year));
+  }
+  return Array.from(zones.entries());
+};
+
+export function buildCalendar(name: string, events: CalendarEvent[], now: Date = new Date()): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    // How often subscribers should check for changes
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+    ...timeZonesOf(events).flatMap(([timeZone, fromYear]) => timeZoneLines(timeZone, fromYear, now)),
+    ...events.flatMap((event) => eventLines(event, now)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -3,7 +3,7 @@ import express, { type Request, Response, NextFunction } from "express";
 import cors from "cors";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-// import { setupAuth } from "./replitAuth"; // Replit OIDC removed
+import { setupAuth } from "./replitAuth";
 
 const app = express();
 app.use(cors());
@@ -12,7 +12,8 @@ app.use(express.urlencoded({ extended: false }));
 
 
 (async () => {
-  // Directly register routes, skip Replit OIDC setup
+  // Sessions and passport must be in place before any route reads req.user
+  await setupAuth(app);
   const server = await registerRoutes(app);
 
   // A simple and effective global error handler
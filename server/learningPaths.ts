@@ -0,0 +1,39 @@
+// Works out which steps of a learning path a student can work on.
+// Prerequisites are stored as positions of earlier steps in the same path.
+
+export type LearningPathStepStatus = "locked" | "available" | "in_progress" | "completed";
+
+// A quiz score (percent) at or above this counts as having mastered the topic
+export const PASSING_QUIZ_SCORE = 70;
+
+export interface StepProgress {
+  position: number;
+  prerequisites: number[];
+  progress: number;
+  bestScore?: number;
+}
+
+export function isStepComplete(step: StepProgress): boolean {
+  return step.progress >= 100 || (step.bestScore ?? 0) >= PASSING_QUIZ_SCORE;
+}
+
+// Prerequisites that no longer exist (e.g. their topic was deleted) are treated as satisfied
+export function resolveStepStatuses(steps: StepProgress[]): Map<number, LearningPathStepStatus> {
+  const completed = new Set(steps.filter(isStepComplete).map((step) => step.position));
+  const positions = new Set(steps.map((step) => step.position));
+  const statuses = new Map<number, LearningPathStepStatus>();
+
+  for (const step of steps) {
+    if (completed.has(step.position)) {
+      statuses.set(step.position, "completed");
+    } else if (step.prerequisites.some((p) => positions.has(p) && !completed.has(p))) {
+      statuses.set(step.position, "locked");
+    } else if (step.progress > 0 || step.bestScore !== undefined) {
+      statuses.set(step.position, "in_progress");
+    } else {
+      statuses.set(step.position, "available");
+    }
+  }
+
+  return statuses;
+}
@@ -0,0 +1,131 @@
+import type { ChatMessage, GenerateOptions, LLMProvider } from "./types";
+
+// First quoted phrase in the prompt, which is how every prompt names its topic
+const extractTopic = (prompt: string) => prompt.match(/"([^"]+)"/)?.[1] ?? "this topic";
+
+// Streams a canned response a word at a time, like a real model would
+async function* streamWords(text: string, signal?: AbortSignal): AsyncIterable<string> {
+  for (const word of text.split(/(?<=\s)/)) {
+    if (signal?.aborted) return;
+    yield word;
+  }
+}
+
+const extractCount = (prompt: string, fallback: number) => {
+  const match = prompt.match(/\b(?:Create|Generate)\s+(\d+)/i);
+  return match ? parseInt(match[1], 10) : fallback;
+};
+
+// One question of the given type; the answer key follows a fixed pattern
+const fakeQuestion = (type: string, topic: string, i: number) => {
+  const question = `Question ${i + 1} about ${topic}?`;
+  switch (type) {
+    case "true_false":
+      return { type, question, correctAnswer: i % 2 === 0 };
+    case "multi_select":
+      return { type, question, options: ["Option A", "Option B", "Option C", "Option D"], correctAnswers: [0, 2] };
+    case "fill_blank":
+      return { type, question: `${topic} is known for ___.`, acceptedAnswers: [`answer ${i + 1}`] };
+    case "ordering":
+      return { type, question, items: ["First", "Second", "Third"] };
+    case "short_answer":
+      return { type, question, rubric: "Mentions the key idea", sampleAnswer: `The key idea of ${topic}.` };
+    default:
+      return {
+        type: "multiple_choice",
+        question,
+        options: ["Option A", "Option B", "Option C", "Option D"],
+        correctAnswer: i % 4,
+      };
+  }
+};
+
+// Deterministic, network-free provider for local development and integration tests, such as
+// `npm run smoke`. The same prompt always produces the same response.
+export class FakeProvider implements LLMProvider {
+  readonly name = "fake";
+
+  async generateText(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const topic = extractTopic(prompt);
+
+    switch (options.task) {
+      case "quiz": {
+        const count = extractCount(prompt, 5);
+        const types = prompt.match(/Question types to use: ([a-z_, ]+)/)?.[1].split(", ") ?? ["multiple_choice"];
+        return JSON.stringify({
+          questions: Array.from({ length: count }, (_, i) => ({
+            ...fakeQuestion(types[i % types.length], topic, i),
+            explanation: `This is the answer to question ${i + 1}.`,
+            concept: `${topic} concept ${(i % 3) + 1}`,
+            difficulty: ["easy", "medium", "hard"][i % 3],
+          })),
+        });
+      }
+      case "grading": {
+        // Any answer of three words or more passes
+        const answer = prompt.match(/<student_answer>\n([\s\S]*?)<\/student_answer>/)?.[1] ?? "";
+        const isCorrect = answer.trim().split(/\s+/).length >= 3;
+        return JSON.stringify({
+          isCorrect,
+          feedback: isCorrect ? "Good answer." : "Explain your answer in more detail.",
+        });
+      }
+      case "flashcards": {
+        const count = extractCount(prompt, 10);
+        return JSON.stringify({
+          cards: Array.from({ length: count }, (_, i) => ({
+            front: `${topic}: term ${i + 1}`,
+            back: `Definition ${i + 1} for ${topic}.`,
+          })),
+        });
+      }
+      case "interview": {
+        const count = extractCount(prompt, 5);
+        return JSON.stringify({
+          questions: Array.from({ length: count }, (_, i) => `Interview question ${i + 1}?`),
+          tips: "Think out loud and give concrete examples.",
+        });
+      }
+      case "learningPath": {
+        const steps = ["Foundations", "Core Concepts", "Tools and Practice", "Capstone Project"];
+        return JSON.stringify({
+          title: `Path to ${topic}`,
+          description: `A step-by-step route to ${topic}.`,
+          topics: steps.map((step, i) => ({
+            title: `${topic}: ${step}`,
+            description: `${step} for ${topic}.`,
+            difficulty: i === 0 ? "beginner" : i === steps.length - 1 ? "advanced" : "intermediate",
+            // Two parallel middle steps that both lead to the capstone
+            prerequisites: i === 0 ? [] : i === steps.length - 1 ? [1, 2] : [0],
+          })),
+        });
+      }
+      case "analysis": {
+        const score = prompt.match(/Score: (\d+\/\d+)/)?.[1] ?? "unknown";
+        return `You scored ${score} on ${topic}. Review the questions you missed and try again.`;
+      }
+      case "explanation":
+        return `# ${topic}\n\nThis is a deterministic offline explanation of ${topic}.\n\n## Key points\n\n- ${topic} has a first key idea.\n- ${topic} has a second key idea.`;
+      default:
+        return `Fake response to: ${prompt.slice(0, 200)}`;
+    }
+  }
+
+  async chat(history: ChatMessage[], prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const turn = history.filter((m) => m.role === "user").length + 1;
+    // Tutor instructions quote the topic being studied, if there is one
+    const studying = options.systemInstruction?.match(/"([^"]+)"/)?.[1];
+    const context = studying ? ` (studying ${studying})` : "";
+    // Cite the first retrieved passage, as a grounded answer would
+    const citation = options.systemInstruction?.includes("\n[1] ") ? " [1]" : "";
+    return `Fake tutor reply #${turn}${context}: you asked "${prompt}".${citation}`;
+  }
+
+  async *streamText(prompt: string, options: GenerateOptions = {}): AsyncIterable<string> {
+    yield* streamWords(await this.generateText(prompt, options), options.signal);
+  }
+
+  async *streamChat(history: ChatMessage[], prompt: string, options: GenerateOptions = {}): AsyncIterable<string> {
+    yield* streamWords(await this.chat(history, prompt, options), options.signal);
+  }
+}
@@ -0,0 +1,59 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import type { ChatMessage, GenerateOptions, LLMProvider, ModelTier } from "./types";
+
+const DEFAULT_MODELS: Record<ModelTier, string> = {
+  fast: "gemini-1.5-flash",
+  smart: "gemini-1.5-pro",
+};
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = "gemini";
+  private genAI: GoogleGenerativeAI;
+  private models: Record<ModelTier, string>;
+
+  constructor(apiKey: string, models: Partial<Record<ModelTier, string>> = {}) {
+    if (!apiKey) {
+      throw new Error("GEMINI_API_KEY must be set to use the Gemini provider.");
+    }
+    this.genAI = new GoogleGenerativeAI(apiKey);
+    this.models = { ...DEFAULT_MODELS, ...models };
+  }
+
+  private getModel(options: GenerateOptions) {
+    return this.genAI.getGenerativeModel({
+      model: this.models[options.tier ?? "fast"],
+      systemInstruction: options.systemInstruction,
+      generationConfig: options.json ? { responseMimeType: "application/json" } : undefined,
+    });
+  }
+
+  async generateText(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const result = await this.getModel(options).generateContent(prompt, { signal: options.signal });
+    const response = await result.response;
+    return response.text();
+  }
+
+  async chat(history: ChatMessage[], prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const chat = this.getModel(options).startChat({ history });
+    const result = await chat.sendMessage(prompt, { signal: options.signal });
+    const response = await result.response;
+    return response.text();
+  }
+
+  async *streamText(prompt: string, options: GenerateOptions = {}): AsyncIterable<string> {
+    const result = await this.getModel(options).generateContentStream(prompt, {
+      signal: options.signal,
+    });
+    for await (const chunk of result.stream) {
+      yield chunk.text();
+    }
+  }
+
+  async *streamChat(history: ChatMessage[], prompt: string, options: GenerateOptions = {}): AsyncIterable<string> {
+    const chat = this.getModel(options).startChat({ history });
+    const result = await chat.sendMessageStream(prompt, { signal: options.signal });
+    for await (const chunk of result.stream) {
+      yield chunk.text();
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { GeminiProvider } from "./geminiProvider";
+import { OpenAICompatibleProvider } from "./openaiCompatibleProvider";
+import { FakeProvider } from "./fakeProvider";
+import type { LLMProvider, ModelTier } from "./types";
+
+export { AIResponseError, generateStructured, stripJsonFences } from "./structured";
+export type { ChatMessage, GenerateOptions, LLMProvider, LLMTask, ModelTier } from "./types";
+
+// Per-tier model overrides shared by every provider
+const modelOverrides = (): Partial<Record<ModelTier, string>> => ({
+  ...(process.env.LLM_FAST_MODEL ? { fast: process.env.LLM_FAST_MODEL } : {}),
+  ...(process.env.LLM_SMART_MODEL ? { smart: process.env.LLM_SMART_MODEL } : {}),
+});
+
+export function createLLMProvider(name: string = process.env.LLM_PROVIDER || "gemini"): LLMProvider {
+  switch (name) {
+    case "gemini":
+      return new GeminiProvider(process.env.GEMINI_API_KEY || "", modelOverrides());
+    case "openai": {
+      const defaultModel = process.env.OPENAI_MODEL || "llama3.1";
+      return new OpenAICompatibleProvider({
+        baseUrl: process.env.OPENAI_BASE_URL || "http://localhost:11434/v1",
+        apiKey: process.env.OPENAI_API_KEY,
+        models: { fast: defaultModel, smart: defaultModel, ...modelOverrides() },
+      });
+    }
+    case "fake":
+      return new FakeProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}". Use gemini, openai or fake.`);
+  }
+}
+
+let provider: LLMProvider | undefined;
+
+// Created on first use so importing the AI helpers never needs credentials
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    provider = createLLMProvider();
+  }
+  return provider;
+}
+
+// Lets tests and scripts swap the provider at runtime
+export function setLLMProvider(next: LLMProvider | undefined) {
+  provider = next;
+}
@@ -0,0 +1,98 @@
+import type { ChatMessage, GenerateOptions, LLMProvider, ModelTier } from "./types";
+
+interface OpenAIMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+// Talks to any server implementing OpenAI's /chat/completions, e.g. Ollama,
+// LM Studio, vLLM or llama.cpp's server
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = "openai";
+  private baseUrl: string;
+  private apiKey?: string;
+  private models: Record<ModelTier, string>;
+
+  constructor(options: { baseUrl: string; apiKey?: string; models: Record<ModelTier, string> }) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.apiKey = options.apiKey;
+    this.models = options.models;
+  }
+
+  private async request(messages: OpenAIMessage[], options: GenerateOptions, stream: boolean) {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.models[options.tier ?? "fast"],
+        messages: options.systemInstruction
+          ? [{ role: "system", content: options.systemInstruction }, ...messages]
+          : messages,
+        stream,
+        ...(options.json ? { response_format: { type: "json_object" } } : {}),
+      }),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`LLM request failed: ${response.status} ${await response.text()}`);
+    }
+    return response;
+  }
+
+  private async complete(messages: OpenAIMessage[], options: GenerateOptions): Promise<string> {
+    const response = await this.request(messages, options, false);
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content ?? "";
+  }
+
+  // Reads the server-sent `data: {...}` lines of a streamed completion
+  private async *completeStream(messages: OpenAIMessage[], options: GenerateOptions): AsyncIterable<string> {
+    const response = await this.request(messages, options, true);
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, "").trim();
+        if (!line.startsWith("data:") || !data || data === "[DONE]") continue;
+        const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  }
+
+  private toMessages(history: ChatMessage[], prompt: string): OpenAIMessage[] {
+    const messages: OpenAIMessage[] = history.map((message) => ({
+      role: message.role === "model" ? "assistant" : "user",
+      content: message.parts.map((part) => part.text).join(""),
+    }));
+    return [...messages, { role: "user", content: prompt }];
+  }
+
+  async generateText(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    return this.complete([{ role: "user", content: prompt }], options);
+  }
+
+  async chat(history: ChatMessage[], prompt: string, options: GenerateOptions = {}): Promise<string> {
+    return this.complete(this.toMessages(history, prompt), options);
+  }
+
+  streamText(prompt: string, options: GenerateOptions = {}): AsyncIterable<string> {
+    return this.completeStream([{ role: "user", content: prompt }], options);
+  }
+
+  streamChat(history: ChatMessage[], prompt: string, options: GenerateOptions = {}): AsyncIterable<string> {
+    return this.completeStream(this.toMessages(history, prompt), options);
+  }
+}
@@ -0,0 +1,70 @@
+import type { z } from "zod";
+import type { GenerateOptions, LLMProvider } from "./types";
+
+const MAX_ATTEMPTS = 3;
+
+// The model never produced a usable response; surfaced to clients as a 502
+export class AIResponseError extends Error {
+  readonly status = 502;
+  readonly code = "AI_INVALID_RESPONSE";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "AIResponseError";
+  }
+}
+
+// Models like to wrap JSON in ```json fences even when told not to
+export function stripJsonFences(raw: string): string {
+  const fenced = raw.match(/```(?:json)?\s*([\s\S]*?)\s*```/i);
+  return (fenced ? fenced[1] : raw).trim();
+}
+
+function parseAgainst<T>(raw: string, schema: z.ZodType<T>): { data: T } | { error: string } {
+  let json: unknown;
+  try {
+    json = JSON.parse(stripJsonFences(raw));
+  } catch (error) {
+    return { error: `Response was not valid JSON: ${(error as Error).message}` };
+  }
+  const parsed = schema.safeParse(json);
+  if (!parsed.success) {
+    return {
+      error: parsed.error.errors.map((e) => `${e.path.join(".") || "(root)"}: ${e.message}`).join("; "),
+    };
+  }
+  return { data: parsed.data };
+}
+
+// Asks for JSON, validates it against the schema and, when it doesn't match,
+// re-prompts with the validation errors a bounded number of times.
+export async function generateStructured<T>(
+  provider: LLMProvider,
+  prompt: string,
+  schema: z.ZodType<T>,
+  options: GenerateOptions = {},
+): Promise<T> {
+  let currentPrompt = prompt;
+  let lastError = "Empty response from model";
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const raw = await provider.generateText(currentPrompt, { ...options, json: true });
+    const result = raw ? parseAgainst(raw, schema) : { error: "Empty response from model" };
+    if ("data" in result) {
+      return result.data;
+    }
+
+    lastError = result.error;
+    console.warn(`Invalid structured response (attempt ${attempt}/${MAX_ATTEMPTS}): ${lastError}`);
+    currentPrompt = `${prompt}
+
+Your previous response could not be used:
+${raw}
+
+Problems: ${lastError}
+
+Respond again with only the corrected JSON, no code fences or commentary.`;
+  }
+
+  throw new AIResponseError(`The AI returned an invalid response: ${lastError}`);
+}
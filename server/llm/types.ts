@@ -0,0 +1,39 @@
+// Which kind of model a call needs; each provider maps these to concrete model names
+export type ModelTier = "fast" | "smart";
+
+// What a call is for. Real providers ignore it; the fake provider uses it to
+// pick a deterministic response of the right shape.
+export type LLMTask =
+  | "explanation"
+  | "quiz"
+  | "flashcards"
+  | "analysis"
+  | "interview"
+  | "chat"
+  | "learningPath"
+  | "grading";
+
+// Same shape the chat widget sends, so history can be passed straight through
+export interface ChatMessage {
+  role: "user" | "model";
+  parts: { text: string }[];
+}
+
+export interface GenerateOptions {
+  tier?: ModelTier;
+  task?: LLMTask;
+  systemInstruction?: string;
+  // Ask the provider for a bare JSON response where it supports it
+  json?: boolean;
+  // Aborts the underlying request, e.g. when the client disconnects mid-stream
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  generateText(prompt: string, options?: GenerateOptions): Promise<string>;
+  chat(history: ChatMessage[], prompt: string, options?: GenerateOptions): Promise<string>;
+  // Streaming variants yield text fragments as the model produces them
+  streamText(prompt: string, options?: GenerateOptions): AsyncIterable<string>;
+  streamChat(history: ChatMessage[], prompt: string, options?: GenerateOptions): AsyncIterable<string>;
+}
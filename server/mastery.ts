@@ -0,0 +1,108 @@
+// Estimates how well a student knows a topic from their quiz attempts on it, and
+// turns that into the focus for the next quiz and a difficulty recommendation.
+import type { TopicDifficulty } from "@shared/schema";
+import type { QuestionDifficulty, QuizAnswer, QuizQuestion } from "@shared/questions";
+import type { QuizFocus, ShortAnswerGrade } from "./gemini";
+import { isAnswerCorrect } from "./grading";
+
+export interface QuizHistoryEntry {
+  questions: QuizQuestion[];
+  answers: QuizAnswer[];
+  shortAnswerGrades: (ShortAnswerGrade | null)[] | null;
+}
+
+export interface TopicMastery extends QuizFocus {
+  attempts: number;
+  mastery: number | null; // 0-100, null before the first attempt
+  recommendedDifficulty: TopicDifficulty | null;
+}
+
+// How many recent attempts are considered, and how much less each older one counts
+export const MASTERY_HISTORY_LIMIT = 10;
+const RECENCY_DECAY = 0.7;
+
+// Moving a topic's level is only suggested once there is more than one attempt to go on
+const MIN_ATTEMPTS_FOR_RECOMMENDATION = 2;
+const LEVEL_UP_MASTERY = 80;
+const LEVEL_DOWN_MASTERY = 40;
+
+// A concept or difficulty counts as a weak spot when at least this share of its questions was missed
+const WEAK_MISS_RATE = 0.5;
+const MAX_WEAK_CONCEPTS = 5;
+
+const topicLevels: TopicDifficulty[] = ["beginner", "intermediate", "advanced"];
+
+interface MissTally {
+  seen: number;
+  missed: number;
+}
+
+const tally = (tallies: Map<string, MissTally>, key: string, weight: number, isCorrect: boolean) => {
+  const entry = tallies.get(key) ?? { seen: 0, missed: 0 };
+  entry.seen += weight;
+  if (!isCorrect) entry.missed += weight;
+  tallies.set(key, entry);
+};
+
+const targetDifficultyFor = (mastery: number | null): QuestionDifficulty => {
+  if (mastery === null) return "easy";
+  if (mastery < 50) return "easy";
+  if (mastery < LEVEL_UP_MASTERY) return "medium";
+  return "hard";
+};
+
+// history is newest first
+export function estimateMastery(history: QuizHistoryEntry[], currentLevel: string): TopicMastery {
+  const concepts = new Map<string, MissTally>();
+  const difficulties = new Map<string, MissTally>();
+  let weightedScore = 0;
+  let totalWeight = 0;
+
+  history.slice(0, MASTERY_HISTORY_LIMIT).forEach(({ questions, answers, shortAnswerGrades }, i) => {
+    if (questions.length === 0) return;
+    const weight = Math.pow(RECENCY_DECAY, i);
+    let correct = 0;
+    questions.forEach((question, index) => {
+      const isCorrect = isAnswerCorrect(question, answers[index], shortAnswerGrades?.[index]);
+      if (isCorrect) correct++;
+      if (question.concept) tally(concepts, question.concept, weight, isCorrect);
+      if (question.difficulty) tally(difficulties, question.difficulty, weight, isCorrect);
+    });
+    weightedScore += (correct / questions.length) * weight;
+    totalWeight += weight;
+  });
+
+  const mastery = totalWeight > 0 ? Math.round((weightedScore / totalWeight) * 100) : null;
+  const missRate = ({ seen, missed }: MissTally) => missed / seen;
+
+  const weakConcepts = Array.from(concepts.entries())
+    .filter(([, entry]) => missRate(entry) >= WEAK_MISS_RATE)
+    .sort(([, a], [, b]) => b.missed - a.missed)
+    .slice(0, MAX_WEAK_CONCEPTS)
+    .map(([concept]) => concept);
+
+  const [missedDifficulty] = Array.from(difficulties.entries())
+    .filter(([, entry]) => missRate(entry) >= WEAK_MISS_RATE)
+    .sort(([, a], [, b]) => missRate(b) - missRate(a))
+    .map(([difficulty]) => difficulty as QuestionDifficulty);
+
+  let recommendedDifficulty: TopicDifficulty | null = null;
+  const attempts = history.length;
+  const level = topicLevels.indexOf(currentLevel as TopicDifficulty);
+  if (mastery !== null && attempts >= MIN_ATTEMPTS_FOR_RECOMMENDATION && level !== -1) {
+    if (mastery >= LEVEL_UP_MASTERY && level < topicLevels.length - 1) {
+      recommendedDifficulty = topicLevels[level + 1];
+    } else if (mastery < LEVEL_DOWN_MASTERY && level > 0) {
+      recommendedDifficulty = topicLevels[level - 1];
+    }
+  }
+
+  return {
+    attempts,
+    mastery,
+    targetDifficulty: targetDifficultyFor(mastery),
+    missedDifficulty: missedDifficulty ?? null,
+    weakConcepts,
+    recommendedDifficulty,
+  };
+}
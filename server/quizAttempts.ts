@@ -0,0 +1,97 @@
+// Lifecycle of started quiz attempts: they autosave answers while in progress and are
+// finished either by the student or, for timed attempts, when the deadline passes.
+import { storage } from "./storage";
+import { gradeQuiz, gradeShortAnswers, XP_PER_CORRECT_ANSWER } from "./grading";
+import { normalizeQuestions, type QuizAnswer, type QuizQuestion } from "@shared/questions";
+import type { AttemptStatus, Quiz, QuizAttempt } from "@shared/schema";
+
+// Answers arriving this soon after the deadline still count, to allow for network latency
+export const DEADLINE_GRACE_MS = 5000;
+
+// How often attempts abandoned past their deadline are submitted on the student's behalf
+const EXPIRY_SWEEP_INTERVAL_MS = 60 * 1000;
+
+export function isPastDeadline(attempt: QuizAttempt, now: Date = new Date()): boolean {
+  return attempt.deadline !== null && now.getTime() > attempt.deadline.getTime() + DEADLINE_GRACE_MS;
+}
+
+// The questions an attempt is answered against; the quiz itself may have been edited since it started
+export function attemptQuestions(attempt: QuizAttempt, quiz: Quiz): QuizQuestion[] {
+  return normalizeQuestions(attempt.questions ?? quiz.questions);
+}
+
+// Awards XP for a finished attempt and logs it as a learning session; returns the XP gained.
+// Only answers beyond the student's best earlier score on the quiz earn XP, so retaking it
+// with the same answers earns nothing.
+export async function recordQuizCompletion(attempt: QuizAttempt, quiz: Quiz): Promise<number> {
+  const { userId, score } = attempt;
+  const earlier = await storage.getQuizAttempts(quiz.id, userId);
+  const bestEarlier = Math.max(0, ...earlier.filter((a) => a.id !== attempt.id).map((a) => a.score));
+  const xpGained = Math.max(0, score - bestEarlier) * XP_PER_CORRECT_ANSWER;
+  await storage.createLearningSession({
+    userId,
+    topicId: quiz.topicId,
+    activityType: "quiz",
+    xpGained,
+  });
+  await storage.updateUserXP(userId, xpGained);
+  await storage.updateUserStreak(userId);
+  return xpGained;
+}
+
+// Closes and grades an in-progress attempt. Returns undefined if it was already finished,
+// e.g. by the expiry sweep racing a late submission. The attempt is claimed before grading,
+// so the model only grades it once.
+export async function finishQuizAttempt(
+  attempt: QuizAttempt,
+  quiz: Quiz,
+  answers: QuizAnswer[],
+  status: Exclude<AttemptStatus, "in_progress">,
+): Promise<{ attempt: QuizAttempt; xpGained: number } | undefined> {
+  const claimed = await storage.claimQuizAttempt(attempt.id, { status, answers });
+  if (!claimed) return undefined;
+
+  let finished: QuizAttempt;
+  try {
+    const questions = attemptQuestions(claimed, quiz);
+    const shortAnswerGrades = await gradeShortAnswers(questions, answers);
+    const { score } = gradeQuiz(questions, answers, shortAnswerGrades);
+    finished = await storage.gradeQuizAttempt(claimed.id, { score, shortAnswerGrades });
+  } catch (error) {
+    // Hand it back unfinished so the student or the next sweep can try again
+    await storage.reopenQuizAttempt(claimed.id);
+    throw error;
+  }
+
+  const xpGained = await recordQuizCompletion(finished, quiz);
+  return { attempt: finished, xpGained };
+}
+
+// Submits what was saved before time ran out
+export async function expireQuizAttempt(attempt: QuizAttempt, quiz?: Quiz) {
+  const attemptQuiz = quiz ?? (await storage.getQuiz(attempt.quizId));
+  if (!attemptQuiz) return undefined;
+  return await finishQuizAttempt(attempt, attemptQuiz, attempt.answers as QuizAnswer[], "expired");
+}
+
+export function startExpirySweep(): void {
+  const sweep = async () => {
+    let overdue: QuizAttempt[];
+    try {
+      overdue = await storage.getOverdueQuizAttempts(new Date(Date.now() - DEADLINE_GRACE_MS));
+    } catch (error) {
+      console.error("Failed to fetch overdue quiz attempts", error);
+      return;
+    }
+    // One attempt failing, e.g. to grade, doesn't hold up the rest
+    for (const attempt of overdue) {
+      try {
+        await expireQuizAttempt(attempt);
+      } catch (error) {
+        console.error(`Failed to expire quiz attempt ${attempt.id}`, error);
+      }
+    }
+  };
+  // Doesn't keep the process alive on its own
+  setInterval(sweep, EXPIRY_SWEEP_INTERVAL_MS).unref();
+}
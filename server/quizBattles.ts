@@ -0,0 +1,341 @@
+// Live quiz battles in study groups, over the /ws socket. A group admin hosts one of their
+// quizzes, members join, and every question is pushed to the room with a countdown.
+// Correct answers earn more the sooner they arrive. Battles live in memory while they run;
+// each player's answers are saved as a quiz attempt, with XP, when the last question closes.
+import { randomUUID } from "crypto";
+import { storage } from "./storage";
+import { canAccess } from "./replitAuth";
+import { isAnswerCorrect, toPublicQuestions } from "./grading";
+import { recordQuizCompletion } from "./quizAttempts";
+import { broadcast, joinRoom, leaveRoom, roomClients, toPublicUser, type RealtimeClient } from "./realtime";
+import { formatCorrectAnswer, isUnanswered, normalizeQuestions } from "@shared/questions";
+import type { PublicQuizQuestion, QuizAnswer, QuizQuestion } from "@shared/questions";
+import type {
+  QuizBattleClientMessage,
+  QuizBattleResult,
+  QuizBattleState,
+  QuizBattleStatus,
+} from "@shared/realtime";
+import type { PublicUser, Quiz } from "@shared/schema";
+
+const ROOM_PREFIX = "battle:";
+
+// A correct answer earns BASE_POINTS, plus up to SPEED_POINTS the faster it was
+const BASE_POINTS = 500;
+const SPEED_POINTS = 500;
+
+// Answers arriving this soon after the countdown ends still count, to allow for latency
+const ANSWER_GRACE_MS = 1000;
+
+// How long the answer stays up before the next question
+const REVEAL_MS = 5000;
+
+// How long final standings stay up before the battle is forgotten
+const FINISHED_LINGER_MS = 10 * 60 * 1000;
+
+interface Player {
+  user: PublicUser;
+  answers: QuizAnswer[];
+  results: (QuizBattleResult | null)[];
+}
+
+interface Battle {
+  id: string;
+  groupId: string;
+  quiz: Quiz;
+  questions: QuizQuestion[];
+  publicQuestions: PublicQuizQuestion[];
+  host: PublicUser;
+  status: QuizBattleStatus;
+  secondsPerQuestion: number;
+  questionIndex: number;
+  questionStartedAt: number;
+  deadline: number;
+  players: Map<string, Player>;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+// At most one battle per group, by group id
+const battles = new Map<string, Battle>();
+
+const battleRoom = (groupId: string) => `${ROOM_PREFIX}${groupId}`;
+
+const points = (player: Player) => player.results.reduce((sum, result) => sum + (result?.points ?? 0), 0);
+
+const correctCount = (player: Player) => player.results.filter((result) => result?.isCorrect).length;
+
+const toState = (battle: Battle): QuizBattleState => ({
+  id: battle.id,
+  groupId: battle.groupId,
+  quizTitle: battle.quiz.title,
+  host: battle.host,
+  status: battle.status,
+  secondsPerQuestion: battle.secondsPerQuestion,
+  questionCount: battle.questions.length,
+  questionIndex: battle.questionIndex,
+  standings: Array.from(battle.players.values())
+    .map((player) => ({ user: player.user, points: points(player), correct: correctCount(player) }))
+    .sort((a, b) => b.points - a.points || b.correct - a.correct),
+});
+
+const announceState = (battle: Battle) => {
+  broadcast(battleRoom(battle.groupId), { type: "battle:state", groupId: battle.groupId, battle: toState(battle) });
+};
+
+const sendQuestion = (battle: Battle, client: RealtimeClient) => {
+  const index = battle.questionIndex;
+  client.send({
+    type: "battle:question",
+    groupId: battle.groupId,
+    battleId: battle.id,
+    index,
+    question: battle.publicQuestions[index],
+    deadline: new Date(battle.deadline).toISOString(),
+    answered: battle.players.get(client.user.id)?.results[index] != null,
+  });
+};
+
+const askQuestion = (battle: Battle, index: number) => {
+  battle.status = "question";
+  battle.questionIndex = index;
+  battle.questionStartedAt = Date.now();
+  battle.deadline = battle.questionStartedAt + battle.secondsPerQuestion * 1000;
+  announceState(battle);
+  for (const client of roomClients(battleRoom(battle.groupId))) sendQuestion(battle, client);
+  battle.timer = setTimeout(() => revealAnswer(battle), battle.deadline - Date.now() + ANSWER_GRACE_MS);
+};
+
+const revealAnswer = (battle: Battle) => {
+  clearTimeout(battle.timer);
+  const index = battle.questionIndex;
+  const question = battle.questions[index];
+  battle.players.forEach((player) => {
+    player.results[index] ??= { answered: false, isCorrect: false, points: 0 };
+  });
+  battle.status = "reveal";
+  announceState(battle);
+  for (const client of roomClients(battleRoom(battle.groupId))) {
+    client.send({
+      type: "battle:reveal",
+      groupId: battle.groupId,
+      battleId: battle.id,
+      index,
+      correctAnswer: formatCorrectAnswer(question),
+      explanation: question.explanation,
+      result: battle.players.get(client.user.id)?.results[index] ?? undefined,
+    });
+  }
+  battle.timer = setTimeout(() => {
+    if (index + 1 < battle.questions.length) {
+      askQuestion(battle, index + 1);
+    } else {
+      finishBattle(battle).catch((error) => console.error("Failed to save quiz battle results", error));
+    }
+  }, REVEAL_MS);
+};
+
+// Saves an attempt for everyone who answered at least once, then lets the room know
+const finishBattle = async (battle: Battle) => {
+  battle.status = "finished";
+  announceState(battle);
+  battle.timer = setTimeout(() => {
+    if (battles.get(battle.groupId) === battle) battles.delete(battle.groupId);
+  }, FINISHED_LINGER_MS);
+  battle.timer.unref();
+
+  const saved = new Map<string, { attemptId: string; xpGained: number }>();
+  for (const [userId, player] of Array.from(battle.players.entries())) {
+    if (player.results.every((result) => !result?.answered)) continue;
+    const score = correctCount(player);
+    const attempt = await storage.submitQuizAttempt({
+      quizId: battle.quiz.id,
+      userId,
+      score,
+      totalQuestions: battle.questions.length,
+      answers: player.answers,
+      questions: battle.questions,
+    });
+    const xpGained = await recordQuizCompletion(attempt, battle.quiz);
+    saved.set(userId, { attemptId: attempt.id, xpGained });
+  }
+  for (const client of roomClients(battleRoom(battle.groupId))) {
+    client.send({ type: "battle:finished", groupId: battle.groupId, battleId: battle.id, ...saved.get(client.user.id) });
+  }
+};
+
+const endBattle = (battle: Battle) => {
+  clearTimeout(battle.timer);
+  battles.delete(battle.groupId);
+  broadcast(battleRoom(battle.groupId), { type: "battle:state", groupId: battle.groupId, battle: null });
+};
+
+export async function handleQuizBattleMessage(client: RealtimeClient, message: QuizBattleClientMessage): Promise<void> {
+  const { groupId } = message;
+  const room = battleRoom(groupId);
+
+  if (message.type === "battle:unwatch") {
+    leaveRoom(client, room);
+    return;
+  }
+  if (message.type === "battle:answer") {
+    return answer(client, battles.get(groupId), message.questionIndex, message.answer);
+  }
+
+  const member = await storage.getStudyGroupMember(groupId, client.user.id);
+  const isManager = client.user.role === "admin" || member?.role === "admin";
+  if (!member && !isManager) {
+    return client.send({ type: "error", groupId, message: "Join the group to take part in its quiz battles" });
+  }
+  // Looked up after the membership check, as the battle may have moved on meanwhile
+  const battle = battles.get(groupId);
+
+  switch (message.type) {
+    case "battle:watch":
+      joinRoom(client, room);
+      client.send({ type: "battle:state", groupId, battle: battle ? toState(battle) : null });
+      if (battle?.status === "question") sendQuestion(battle, client);
+      break;
+
+    case "battle:host": {
+      if (!isManager) {
+        return client.send({ type: "error", groupId, message: "Only group admins can host a quiz battle" });
+      }
+      const quiz = await storage.getQuiz(message.quizId);
+      if (!quiz || !canAccess(client.user, quiz)) {
+        return client.send({ type: "error", groupId, message: "Pick one of your own quizzes to host" });
+      }
+      // Short answers need the model to grade them, which is too slow for a countdown
+      const questions = normalizeQuestions(quiz.questions).filter((question) => question.type !== "short_answer");
+      if (questions.length === 0) {
+        return client.send({ type: "error", groupId, message: "This quiz only has short-answer questions" });
+      }
+      const current = battles.get(groupId);
+      if (current && current.status !== "finished") {
+        return client.send({ type: "error", groupId, message: "A quiz battle is already running in this group" });
+      }
+      if (current) clearTimeout(current.timer);
+      const hosted: Battle = {
+        id: randomUUID(),
+        groupId,
+        quiz,
+        questions,
+        publicQuestions: toPublicQuestions(questions),
+        host: toPublicUser(client.user),
+        status: "lobby",
+        secondsPerQuestion: message.secondsPerQuestion,
+        questionIndex: -1,
+        questionStartedAt: 0,
+        deadline: 0,
+        players: new Map(),
+      };
+      battles.set(groupId, hosted);
+      joinRoom(client, room);
+      announceState(hosted);
+      break;
+    }
+
+    case "battle:start":
+      if (!isManager) {
+        return client.send({ type: "error", groupId, message: "Only group admins can start a quiz battle" });
+      }
+      if (battle?.status !== "lobby") {
+        return client.send({ type: "error", groupId, message: "There is no quiz battle waiting to start" });
+      }
+      if (battle.players.size === 0) {
+        return client.send({ type: "error", groupId, message: "Wait for at least one player to join" });
+      }
+      askQuestion(battle, 0);
+      break;
+
+    case "battle:cancel":
+      if (!isManager) {
+        return client.send({ type: "error", groupId, message: "Only group admins can end a quiz battle" });
+      }
+      if (battle) endBattle(battle);
+      break;
+
+    case "battle:join": {
+      if (!member) {
+        return client.send({ type: "error", groupId, message: "Join the group to play in its quiz battles" });
+      }
+      if (!battle || battle.status === "finished") {
+        return client.send({ type: "error", groupId, message: "There is no quiz battle to join" });
+      }
+      joinRoom(client, room);
+      if (!battle.players.has(client.user.id)) {
+        // Questions asked before joining count as unanswered
+        battle.players.set(client.user.id, {
+          user: toPublicUser(client.user),
+          answers: battle.questions.map(() => null),
+          results: battle.questions.map((_, index) =>
+            index < battle.questionIndex || (index === battle.questionIndex && battle.status === "reveal")
+              ? { answered: false, isCorrect: false, points: 0 }
+              : null,
+          ),
+        });
+      }
+      announceState(battle);
+      if (battle.status === "question") sendQuestion(battle, client);
+      break;
+    }
+  }
+}
+
+// Answers are locked in once given; only the first for each question counts
+const answer = (client: RealtimeClient, battle: Battle | undefined, index: number, given: QuizAnswer) => {
+  const player = battle?.players.get(client.user.id);
+  if (!battle || !player) {
+    return client.send({ type: "error", message: "Join the quiz battle before answering" });
+  }
+  const now = Date.now();
+  if (battle.status !== "question" || battle.questionIndex !== index || now > battle.deadline + ANSWER_GRACE_MS) {
+    return client.send({ type: "error", groupId: battle.groupId, message: "Time is up for that question" });
+  }
+  if (player.results[index]) return;
+
+  const isCorrect = isAnswerCorrect(battle.questions[index], given);
+  const remaining = Math.max(0, battle.deadline - now) / (battle.secondsPerQuestion * 1000);
+  player.answers[index] = given;
+  player.results[index] = {
+    answered: !isUnanswered(given),
+    isCorrect,
+    points: isCorrect ? BASE_POINTS + Math.round(SPEED_POINTS * Math.min(1, remaining)) : 0,
+  };
+
+  const players = Array.from(battle.players.values());
+  const answered = players.filter((p) => p.results[index]).length;
+  broadcast(battleRoom(battle.groupId), {
+    type: "battle:progress",
+    groupId: battle.groupId,
+    battleId: battle.id,
+    index,
+    answered,
+    players: players.length,
+  });
+  if (answered === players.length) revealAnswer(battle);
+};
+
+// A lobby nobody is looking at any more is dropped; started battles run to the end
+export function handleQuizBattleDisconnect(_client: RealtimeClient, rooms: string[]): void {
+  for (const room of rooms) {
+    if (!room.startsWith(ROOM_PREFIX)) continue;
+    const battle = battles.get(room.slice(ROOM_PREFIX.length));
+    if (battle?.status === "lobby" && roomClients(room).length === 0) endBattle(battle);
+  }
+}
+
+// Takes someone who left or was removed from a group out of its battle, unsaved
+export function removeFromQuizBattle(groupId: string, userId: string): void {
+  const room = battleRoom(groupId);
+  for (const client of roomClients(room).filter((c) => c.user.id === userId)) {
+    leaveRoom(client, room);
+    client.send({ type: "battle:state", groupId, battle: null });
+  }
+  const battle = battles.get(groupId);
+  if (battle && battle.status !== "finished" && battle.players.delete(userId)) {
+    announceState(battle);
+    if (battle.status === "question" && Array.from(battle.players.values()).every((p) => p.results[battle.questionIndex])) {
+      revealAnswer(battle);
+    }
+  }
+}
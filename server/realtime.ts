@@ -0,0 +1,142 @@
+// The /ws WebSocket: authenticates connections from the session cookie and keeps track of
+// rooms. Features such as group chat handle the messages themselves.
+import type { Server } from "http";
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+import { authenticateUpgrade } from "./replitAuth";
+import { clientMessageSchema, type ClientMessage, type ServerMessage } from "@shared/realtime";
+import type { PublicUser } from "@shared/schema";
+
+const WS_PATH = "/ws";
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const MAX_PAYLOAD_BYTES = 64 * 1024;
+
+// One open socket. A user with several tabs open has several clients.
+export interface RealtimeClient {
+  user: Express.User;
+  rooms: Set<string>;
+  open: boolean;
+  send(message: ServerMessage): void;
+}
+
+export interface RealtimeHandlers {
+  message(client: RealtimeClient, message: ClientMessage): Promise<void>;
+  // Runs once the socket has closed and been taken out of `rooms`
+  disconnect(client: RealtimeClient, rooms: string[]): void;
+}
+
+const rooms = new Map<string, Set<RealtimeClient>>();
+
+export const toPublicUser = (user: Express.User): PublicUser => ({
+  id: user.id,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  profileImageUrl: user.profileImageUrl,
+  level: user.level,
+});
+
+export function joinRoom(client: RealtimeClient, room: string): void {
+  // The socket may have closed while a handler was waiting on the database
+  if (!client.open) return;
+  if (!rooms.has(room)) rooms.set(room, new Set());
+  rooms.get(room)!.add(client);
+  client.rooms.add(room);
+}
+
+export function leaveRoom(client: RealtimeClient, room: string): void {
+  const members = rooms.get(room);
+  members?.delete(client);
+  if (members?.size === 0) rooms.delete(room);
+  client.rooms.delete(room);
+}
+
+export function roomClients(room: string): RealtimeClient[] {
+  return Array.from(rooms.get(room) ?? []);
+}
+
+// Everyone connected to a room, once each however many sockets they have open
+export function roomUsers(room: string): PublicUser[] {
+  const users = new Map<string, PublicUser>();
+  for (const client of roomClients(room)) {
+    users.set(client.user.id, toPublicUser(client.user));
+  }
+  return Array.from(users.values());
+}
+
+export function broadcast(room: string, message: ServerMessage, except?: RealtimeClient): void {
+  for (const client of roomClients(room)) {
+    if (client !== except) client.send(message);
+  }
+}
+
+// Accepts logged-in WebSocket connections on /ws and hands their messages to `handlers`.
+// Unauthenticated upgrades are refused with a 401 before the handshake completes.
+export function setupRealtime(server: Server, handlers: RealtimeHandlers): void {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_PAYLOAD_BYTES });
+  const alive = new WeakMap<WebSocket, boolean>();
+
+  server.on("upgrade", async (req, socket, head) => {
+    // Vite's HMR socket shares this server in development
+    if (new URL(req.url ?? "/", "http://localhost").pathname !== WS_PATH) return;
+    try {
+      const user = await authenticateUpgrade(req);
+      if (!user) {
+        socket.end("HTTP/1.1 401 Unauthorized\r\n\r\n");
+        return;
+      }
+      wss.handleUpgrade(req, socket, head, (ws) => connect(ws, user));
+    } catch (error) {
+      console.error("Failed to authenticate WebSocket upgrade", error);
+      socket.end("HTTP/1.1 500 Internal Server Error\r\n\r\n");
+    }
+  });
+
+  const connect = (ws: WebSocket, user: Express.User) => {
+    const client: RealtimeClient = {
+      user,
+      rooms: new Set(),
+      open: true,
+      send: (message) => {
+        if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+      },
+    };
+    alive.set(ws, true);
+    ws.on("pong", () => alive.set(ws, true));
+
+    ws.on("message", async (data: RawData) => {
+      let parsed;
+      try {
+        parsed = clientMessageSchema.safeParse(JSON.parse(data.toString()));
+      } catch {
+        return client.send({ type: "error", message: "Messages must be JSON" });
+      }
+      if (!parsed.success) {
+        return client.send({ type: "error", message: parsed.error.errors[0]?.message ?? "Invalid message" });
+      }
+      try {
+        await handlers.message(client, parsed.data);
+      } catch (error) {
+        console.error("Failed to handle WebSocket message", error);
+        client.send({ type: "error", message: "Something went wrong. Please try again." });
+      }
+    });
+
+    ws.on("close", () => {
+      client.open = false;
+      const joined = Array.from(client.rooms);
+      for (const room of joined) leaveRoom(client, room);
+      handlers.disconnect(client, joined);
+    });
+  };
+
+  // Drops connections that stopped answering pings, e.g. a laptop that went to sleep
+  setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!alive.get(ws)) {
+        ws.terminate();
+        return;
+      }
+      alive.set(ws, false);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS).unref();
+}
@@ -1,23 +1,90 @@
-import * as client from "openid-client";
-import { Strategy, type VerifyFunction } from "openid-client/passport";
-
+import { Strategy as LocalStrategy } from "passport-local";
+import {
+  Strategy as GoogleStrategy,
+  type Profile as GoogleProfile,
+} from "passport-google-oauth20";
 import passport from "passport";
 import session from "express-session";
-import type { Express, RequestHandler } from "express";
-import memoize from "memoizee";
+import type { Express, Request, Response, RequestHandler } from "express";
+import type { IncomingMessage } from "http";
 import connectPg from "connect-pg-simple";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
 import { storage } from "./storage";
+import {
+  registerUserSchema,
+  type User as SelectUser,
+  type UserRole,
+} from "@shared/schema";
 
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
 
-const getOidcConfig = memoize(
-  async () => {
-    return await client.discovery(
-      new URL(process.env.ISSUER_URL ?? "https://replit.com/oidc"),
-      process.env.REPL_ID!
-    );
-  },
-  { maxAge: 3600 * 1000 }
-);
+const scryptAsync = promisify(scrypt);
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string) {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+// Never send the password hash to the client
+export function sanitizeUser(user: SelectUser) {
+  const { passwordHash, calendarToken, ...safeUser } = user;
+  return safeUser;
+}
+
+// Resolve a Google identity to a local user: an already linked account, the
+// logged-in account that started the flow, or an existing account with the
+// same verified email. Anything else gets a fresh account.
+async function findOrCreateGoogleUser(req: Request, profile: GoogleProfile): Promise<SelectUser> {
+  const primaryEmail = profile.emails?.find((e) => e.verified) ?? profile.emails?.[0];
+  const email = primaryEmail?.value.toLowerCase();
+  const emailVerified = !!primaryEmail?.verified;
+  const googleFields = {
+    googleId: profile.id,
+    firstName: profile.name?.givenName,
+    lastName: profile.name?.familyName,
+    profileImageUrl: profile.photos?.[0]?.value,
+  };
+
+  const linked = await storage.getUserByGoogleId(profile.id);
+  if (linked) {
+    if (req.user && req.user.id !== linked.id) {
+      throw new Error("This Google account is already linked to another user");
+    }
+    return linked;
+  }
+
+  const existing = req.user ?? (email && emailVerified ? await storage.getUserByEmail(email) : undefined);
+  if (existing) {
+    // Keep whatever the user already set; only fill in the blanks
+    return await storage.upsertUser({
+      ...existing,
+      googleId: profile.id,
+      firstName: existing.firstName ?? googleFields.firstName,
+      lastName: existing.lastName ?? googleFields.lastName,
+      profileImageUrl: existing.profileImageUrl ?? googleFields.profileImageUrl,
+    });
+  }
+
+  if (email && !emailVerified && (await storage.getUserByEmail(email))) {
+    throw new Error("Verify this email with Google before linking it to an existing account");
+  }
+
+  return await storage.upsertUser({ ...googleFields, email });
+}
 
 export function getSession() {
   const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
@@ -35,120 +102,193 @@ export function getSession() {
     saveUninitialized: false,
     cookie: {
       httpOnly: true,
-      secure: true,
+      // Plain http in local development, https behind the proxy in production
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
       maxAge: sessionTtl,
     },
   });
 }
 
-function updateUserSession(
-  user: any,
-  tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers
-) {
-  user.claims = tokens.claims();
-  user.access_token = tokens.access_token;
-  user.refresh_token = tokens.refresh_token;
-  user.expires_at = user.claims?.exp;
-}
-
-async function upsertUser(
-  claims: any,
-) {
-  await storage.upsertUser({
-    id: claims["sub"],
-    email: claims["email"],
-    firstName: claims["first_name"],
-    lastName: claims["last_name"],
-    profileImageUrl: claims["profile_image_url"],
-  });
-}
+// Kept so requests Express doesn't route, like WebSocket upgrades, can read the same sessions
+let sessionParser: RequestHandler | undefined;
 
 export async function setupAuth(app: Express) {
+  if (!process.env.SESSION_SECRET) {
+    throw new Error("SESSION_SECRET must be set to enable authentication.");
+  }
+
   app.set("trust proxy", 1);
-  app.use(getSession());
+  sessionParser = getSession();
+  app.use(sessionParser);
   app.use(passport.initialize());
   app.use(passport.session());
 
-  const config = await getOidcConfig();
-
-  const verify: VerifyFunction = async (
-    tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers,
-    verified: passport.AuthenticateCallback
-  ) => {
-    const user = {};
-    updateUserSession(user, tokens);
-    await upsertUser(tokens.claims());
-    verified(null, user);
-  };
+  passport.use(
+    new LocalStrategy({ usernameField: "email" }, async (email, password, done) => {
+      try {
+        const user = await storage.getUserByEmail(email.toLowerCase());
+        if (!user || !user.passwordHash || !(await comparePasswords(password, user.passwordHash))) {
+          return done(null, false, { message: "Invalid email or password" });
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
 
-  for (const domain of process.env
-    .REPLIT_DOMAINS!.split(",")) {
-    const strategy = new Strategy(
-      {
-        name: `replitauth:${domain}`,
-        config,
-        scope: "openid email profile offline_access",
-        callbackURL: `https://${domain}/api/callback`,
-      },
-      verify,
+  const googleEnabled = !!(process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET);
+  if (googleEnabled) {
+    passport.use(
+      new GoogleStrategy(
+        {
+          clientID: process.env.GOOGLE_CLIENT_ID!,
+          clientSecret: process.env.GOOGLE_CLIENT_SECRET!,
+          callbackURL: process.env.GOOGLE_CALLBACK_URL ?? "/api/auth/google/callback",
+          // Overridable so the flow can run against a local mock provider
+          authorizationURL: process.env.GOOGLE_AUTH_URL,
+          tokenURL: process.env.GOOGLE_TOKEN_URL,
+          userProfileURL: process.env.GOOGLE_USERINFO_URL,
+          passReqToCallback: true,
+        },
+        async (req, _accessToken, _refreshToken, profile, done) => {
+          try {
+            done(null, await findOrCreateGoogleUser(req, profile));
+          } catch (error) {
+            done(null, false, { message: (error as Error).message });
+          }
+        },
+      ),
     );
-    passport.use(strategy);
   }
 
-  passport.serializeUser((user: Express.User, cb) => cb(null, user));
-  passport.deserializeUser((user: Express.User, cb) => cb(null, user));
+  passport.serializeUser((user: Express.User, cb) => cb(null, user.id));
+  passport.deserializeUser(async (id: string, cb) => {
+    try {
+      const user = await storage.getUser(id);
+      cb(null, user ?? false);
+    } catch (error) {
+      cb(error);
+    }
+  });
+
+  app.post("/api/register", async (req, res, next) => {
+    const parsed = registerUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
 
-  app.get("/api/login", (req, res, next) => {
-    passport.authenticate(`replitauth:${req.hostname}`, {
-      prompt: "login consent",
-      scope: ["openid", "email", "profile", "offline_access"],
-    })(req, res, next);
+    try {
+      const { password, ...profile } = parsed.data;
+      const email = profile.email.toLowerCase();
+      if (await storage.getUserByEmail(email)) {
+        return res.status(409).json({ message: "An account with this email already exists" });
+      }
+
+      const user = await storage.createUser({
+        ...profile,
+        email,
+        passwordHash: await hashPassword(password),
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(sanitizeUser(user));
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Links across the client point here; the actual form lives on /auth
+  app.get("/api/login", (_req, res) => {
+    res.redirect("/auth");
   });
 
-  app.get("/api/callback", (req, res, next) => {
-    passport.authenticate(`replitauth:${req.hostname}`, {
-      successReturnToOrRedirect: "/",
-      failureRedirect: "/api/login",
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate(
+      "local",
+      (err: any, user: Express.User | false, info?: { message: string }) => {
+        if (err) return next(err);
+        if (!user) {
+          return res.status(401).json({ message: info?.message ?? "Unauthorized" });
+        }
+        req.login(user, (loginErr) => {
+          if (loginErr) return next(loginErr);
+          res.json(sanitizeUser(user));
+        });
+      },
+    )(req, res, next);
+  });
+
+  app.get("/api/auth/google", (req, res, next) => {
+    if (!googleEnabled) {
+      return res.redirect("/auth?error=google_unavailable");
+    }
+    passport.authenticate("google", { scope: ["openid", "email", "profile"] })(req, res, next);
+  });
+
+  app.get("/api/auth/google/callback", (req, res, next) => {
+    if (!googleEnabled) {
+      return res.redirect("/auth?error=google_unavailable");
+    }
+    passport.authenticate("google", {
+      successRedirect: "/",
+      failureRedirect: "/auth?error=google_failed",
     })(req, res, next);
   });
 
-  app.get("/api/logout", (req, res) => {
-    req.logout(() => {
-      res.redirect(
-        client.buildEndSessionUrl(config, {
-          client_id: process.env.REPL_ID!,
-          post_logout_redirect_uri: `${req.protocol}://${req.hostname}`,
-        }).href
-      );
+  app.get("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => res.redirect("/"));
     });
   });
-}
-
-export const isAuthenticated: RequestHandler = async (req, res, next) => {
-  const user = req.user as any;
 
-  if (!req.isAuthenticated() || !user.expires_at) {
-    return res.status(401).json({ message: "Unauthorized" });
-  }
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => res.sendStatus(200));
+    });
+  });
+}
 
-  const now = Math.floor(Date.now() / 1000);
-  if (now <= user.expires_at) {
-    return next();
+// The logged-in user behind a WebSocket upgrade request, if any
+export async function authenticateUpgrade(req: IncomingMessage): Promise<Express.User | undefined> {
+  if (!sessionParser) {
+    throw new Error("setupAuth must run before WebSocket connections are accepted");
   }
-
-  const refreshToken = user.refresh_token;
-  if (!refreshToken) {
-    res.status(401).json({ message: "Unauthorized" });
-    return;
+  const request = req as Request;
+  const response = {} as Response;
+  for (const middleware of [sessionParser, passport.initialize(), passport.session()]) {
+    await new Promise<void>((resolve, reject) =>
+      middleware(request, response, (error?: unknown) => (error ? reject(error) : resolve())),
+    );
   }
+  return request.user;
+}
 
-  try {
-    const config = await getOidcConfig();
-    const tokenResponse = await client.refreshTokenGrant(config, refreshToken);
-    updateUserSession(user, tokenResponse);
-    return next();
-  } catch (error) {
-    res.status(401).json({ message: "Unauthorized" });
-    return;
+export const isAuthenticated: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated() || !req.user) {
+    return res.status(401).json({ message: "Unauthorized" });
   }
+  next();
 };
+
+export function requireRole(...roles: UserRole[]): RequestHandler {
+  return (req, res, next) => {
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    if (!roles.includes(req.user.role)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    next();
+  };
+}
+
+// Admins can act on anything; everyone else only on rows they own
+export function canAccess(user: Express.User, resource: { userId: string }) {
+  return user.role === "admin" || resource.userId === user.id;
+}
@@ -0,0 +1,164 @@
+import type { Topic } from "@shared/schema";
+import { storage } from "./storage";
+import { chunkText } from "./documents";
+
+// A source the tutor was given, as shown to the student next to the answer
+export interface Citation {
+  index: number; // The [n] marker the tutor uses to cite it
+  chunkId: string;
+  topicId: string;
+  topicTitle: string;
+  source: string | null; // Uploaded file name, or null for the topic's own content
+  chunkIndex: number;
+  excerpt: string;
+}
+
+export interface RetrievedPassage extends Citation {
+  content: string;
+  score: number;
+}
+
+// Smaller than the summarization chunks so each citation points at a specific passage
+const RETRIEVAL_CHUNK_SIZE = 1200;
+const RETRIEVAL_CHUNK_OVERLAP = 150;
+const DEFAULT_PASSAGE_LIMIT = 4;
+const EXCERPT_LENGTH = 240;
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Passages from the topic a conversation is bound to outrank similar matches elsewhere
+const BOUND_TOPIC_BOOST = 1.5;
+
+const STOP_WORDS = new Set([
+  "a", "about", "an", "and", "are", "as", "at", "be", "but", "by", "can", "could", "do", "does",
+  "for", "from", "how", "i", "if", "in", "into", "is", "it", "its", "me", "my", "of", "on", "or",
+  "so", "than", "that", "the", "their", "them", "then", "there", "these", "they", "this", "to",
+  "was", "we", "were", "what", "when", "where", "which", "who", "why", "will", "with", "would",
+  "you", "your",
+]);
+
+// Runs of letters or digits in any script
+const TOKEN_PATTERN = new RegExp("[\\p{L}\\p{N}]+", "gu");
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(TOKEN_PATTERN) ?? []).filter(
+    (token) => token.length > 1 && !STOP_WORDS.has(token),
+  );
+}
+
+function countTerms(tokens: string[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const token of tokens) {
+    counts[token] = (counts[token] ?? 0) + 1;
+  }
+  return counts;
+}
+
+function toExcerpt(content: string) {
+  const flat = content.replace(/\s+/g, " ").trim();
+  return flat.length > EXCERPT_LENGTH ? `${flat.slice(0, EXCERPT_LENGTH).trimEnd()}…` : flat;
+}
+
+// (Re)builds the retrieval index for a topic's content. Uploads pass the extracted
+// document text and file name so citations point at the document rather than the
+// AI summary; those passages are kept when the topic's own content is re-indexed.
+export async function indexTopic(
+  topic: Pick<Topic, "id" | "userId" | "content">,
+  document?: { text: string; source: string },
+) {
+  const text = document?.text ?? topic.content ?? "";
+  const chunks = chunkText(text, RETRIEVAL_CHUNK_SIZE, RETRIEVAL_CHUNK_OVERLAP)
+    .map((content, chunkIndex) => {
+      const tokens = tokenize(content);
+      const termFrequencies = countTerms(tokens);
+      return {
+        topicId: topic.id,
+        userId: topic.userId,
+        chunkIndex,
+        source: document?.source ?? null,
+        content,
+        terms: Object.keys(termFrequencies),
+        termFrequencies,
+        length: tokens.length,
+      };
+    })
+    .filter((chunk) => chunk.length > 0);
+
+  await storage.replaceTopicChunks(topic.id, document?.source ?? null, chunks);
+}
+
+// Topics saved before retrieval existed have never been indexed; index them on first use
+async function indexMissingTopics(userId: string) {
+  const topics = await storage.getUnindexedTopics(userId);
+  for (const topic of topics) {
+    await indexTopic(topic);
+  }
+}
+
+// Ranks the user's indexed passages against the query with BM25
+export async function retrievePassages(
+  userId: string,
+  query: string,
+  options: { topicId?: string | null; limit?: number } = {},
+): Promise<RetrievedPassage[]> {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0) return [];
+
+  await indexMissingTopics(userId);
+  const [candidates, stats] = await Promise.all([
+    storage.searchTopicChunks(userId, queryTerms),
+    storage.getTopicChunkStats(userId),
+  ]);
+  if (candidates.length === 0) return [];
+
+  // Every chunk containing a query term is a candidate, so these counts are exact
+  const documentFrequency = new Map<string, number>();
+  for (const chunk of candidates) {
+    const frequencies = chunk.termFrequencies as Record<string, number>;
+    for (const term of queryTerms) {
+      if (frequencies[term]) {
+        documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+      }
+    }
+  }
+
+  const averageLength = stats.averageLength || 1;
+  const scored = candidates.map((chunk) => {
+    const frequencies = chunk.termFrequencies as Record<string, number>;
+    let score = 0;
+    for (const term of queryTerms) {
+      const frequency = frequencies[term];
+      if (!frequency) continue;
+      const df = documentFrequency.get(term)!;
+      const idf = Math.log(1 + (stats.chunkCount - df + 0.5) / (df + 0.5));
+      score +=
+        (idf * frequency * (K1 + 1)) /
+        (frequency + K1 * (1 - B + (B * chunk.length) / averageLength));
+    }
+    if (options.topicId && chunk.topicId === options.topicId) {
+      score *= BOUND_TOPIC_BOOST;
+    }
+    return { chunk, score };
+  });
+
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit ?? DEFAULT_PASSAGE_LIMIT)
+    .map(({ chunk, score }, i) => ({
+      index: i + 1,
+      chunkId: chunk.id,
+      topicId: chunk.topicId,
+      topicTitle: chunk.topicTitle,
+      source: chunk.source,
+      chunkIndex: chunk.chunkIndex,
+      excerpt: toExcerpt(chunk.content),
+      content: chunk.content,
+      score,
+    }));
+}
+
+export function toCitations(passages: RetrievedPassage[]): Citation[] {
+  return passages.map(({ content, score, ...citation }) => citation);
+}
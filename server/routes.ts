@@ -1,9 +1,10 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { WebSocketServer } from "ws";
 import multer from "multer";
+import { randomBytes } from "crypto";
+import type { ZodError } from "zod";
 import { storage } from "./storage";
-// import { isAuthenticated } from "./replitAuth"; // Replit OIDC removed
+import { isAuthenticated, requireRole, canAccess, sanitizeUser } from "./replitAuth";
 import {
   generateExplanation,
   generateQuiz,
@@ -11,70 +12,1352 @@ import {
   analyzeQuizPerformance,
   generateInterviewQuestions,
   generateChatResponse,
+  streamExplanation,
+  streamChatResponse,
+  generateLearningPath,
   type ExplanationRequest,
-  type QuizQuestion,
+  type ShortAnswerGrade,
 } from "./gemini";
+import { scheduleReview, endOfToday } from "./spacedRepetition";
+import { streamSse } from "./sse";
+import { indexTopic, retrievePassages, toCitations } from "./retrieval";
+import {
+  SUPPORTED_EXTENSIONS,
+  isSupportedDocument,
+  extractDocumentText,
+  chunkText,
+} from "./documents";
+import { DECK_EXTENSIONS, isSupportedDeck, readDeck, exportCsv, exportApkg } from "./flashcardDecks";
+import { resolveStepStatuses } from "./learningPaths";
+import { setupRealtime } from "./realtime";
+import { handleGroupChatMessage, handleGroupChatDisconnect, removeFromGroupChat } from "./groupChat";
+import { handleQuizBattleMessage, handleQuizBattleDisconnect, removeFromQuizBattle } from "./quizBattles";
+import { GROUP_CHAT_PAGE_SIZE, isQuizBattleMessage } from "@shared/realtime";
+import {
+  MAX_SCHEDULE_RANGE_DAYS,
+  fromWallClock,
+  isOccurrence,
+  nextOccurrence,
+  normalizeRecurrence,
+  occurrencesBetween,
+  parseWallClock,
+  toWallClock,
+} from "./sessionSchedule";
+import { buildCalendar } from "./icalendar";
+import { estimateMastery, MASTERY_HISTORY_LIMIT, type QuizHistoryEntry } from "./mastery";
+import { gradeQuiz, gradeShortAnswers, toPublicQuestions } from "./grading";
+import {
+  attemptQuestions,
+  expireQuizAttempt,
+  finishQuizAttempt,
+  isPastDeadline,
+  recordQuizCompletion,
+  startExpirySweep,
+} from "./quizAttempts";
 import {
   insertTopicSchema,
+  updateTopicSchema,
+  regenerateTopicSchema,
+  updateTopicProgressSchema,
   insertPostSchema,
   insertStudyGroupSchema,
+  createStudyGroupSchema,
+  groupSessionSchema,
+  updateGroupSessionSchema,
+  sessionRsvpSchema,
+  shareGroupResourceSchema,
+  submitQuizAttemptSchema,
+  startQuizAttemptSchema,
+  createQuizSchema,
+  generateQuizSchema,
+  updateQuizSchema,
+  createFlashcardsSchema,
+  updateFlashcardSchema,
+  reviewFlashcardSchema,
+  createChatConversationSchema,
+  sendChatMessageSchema,
+  createLearningPathSchema,
+  userRoles,
+  type Topic,
+  type Quiz,
+  type QuizAttempt,
+  type ChatMessage,
+  type LearningPath,
+  type GroupSession,
+  type InsertGroupSession,
+  type GroupSessionInput,
+  type GroupResourceKind,
+  type SharedGroupResource,
+  type User,
 } from "@shared/schema";
+import { splitIntoSections } from "@shared/sections";
+import {
+  normalizeQuestions,
+  questionTypes,
+  quizQuestionSchema,
+  type QuestionType,
+  type QuizAnswer,
+  type QuizQuestion,
+} from "@shared/questions";
+
+// Helper for consistent error handling
+const handleError = (res: Response, error: any, message: string) => {
+  console.error(message, error);
+  // Errors such as AIResponseError carry their own status (502) and a machine-readable code
+  res.status(error?.status || 500).json({ message, error: error.message, code: error?.code });
+};
+
+// The first validation problem and where it is, e.g. "questions.2.options: Array must contain at least 2 element(s)"
+const describeValidationError = (error: ZodError) => {
+  const issue = error.errors[0];
+  if (!issue) return "Invalid request";
+  return issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message;
+};
+
+// Loads a topic the current user may access, or sends 404/403 and returns undefined
+const loadOwnedTopic = async (req: any, res: Response, topicId: string) => {
+  const topic = await storage.getTopic(topicId);
+  if (!topic) {
+    res.status(404).json({ message: "Topic not found" });
+    return undefined;
+  }
+  if (!canAccess(req.user, topic)) {
+    res.status(403).json({ message: "Forbidden" });
+    return undefined;
+  }
+  return topic;
+};
+
+// Keeps the topic's current content as a version, unless an identical one is already kept
+const snapshotTopic = async (topic: Topic) => {
+  if (!topic.content) return;
+  const versions = await storage.getTopicVersions(topic.id);
+  if (versions.some((v) => v.difficulty === topic.difficulty && v.content === topic.content)) return;
+  await storage.createTopicVersion({
+    topicId: topic.id,
+    difficulty: topic.difficulty,
+    content: topic.content,
+    aiGenerated: topic.aiGenerated ?? false,
+  });
+};
+
+// Swaps in another rendering of a topic; its sections differ, so reading progress starts over
+const switchTopicContent = async (
+  topic: Topic,
+  rendering: { difficulty: string; content: string; aiGenerated: boolean },
+) => {
+  const updated = await storage.updateTopic(topic.id, { ...rendering, progress: 0, readSections: [] });
+  await indexTopic(updated).catch((error) => console.error("Failed to index topic", error));
+  return updated;
+};
+
+// Loads a tutor conversation the current user may access, or sends 404/403 and returns undefined
+const loadOwnedConversation = async (req: any, res: Response, conversationId: string) => {
+  const conversation = await storage.getChatConversation(conversationId);
+  if (!conversation) {
+    res.status(404).json({ message: "Conversation not found" });
+    return undefined;
+  }
+  if (!canAccess(req.user, conversation)) {
+    res.status(403).json({ message: "Forbidden" });
+    return undefined;
+  }
+  return conversation;
+};
+
+// Loads a learning path the current user may access, or sends 404/403 and returns undefined
+const loadOwnedLearningPath = async (req: any, res: Response, pathId: string) => {
+  const path = await storage.getLearningPath(pathId);
+  if (!path) {
+    res.status(404).json({ message: "Learning path not found" });
+    return undefined;
+  }
+  if (!canAccess(req.user, path)) {
+    res.status(403).json({ message: "Forbidden" });
+    return undefined;
+  }
+  return path;
+};
+
+// A path's steps with their topics, quiz results and whether their prerequisites are met
+const loadLearningPathSteps = async (path: LearningPath) => {
+  const rows = await storage.getLearningPathSteps(path.id);
+  const bestScores = await storage.getBestQuizScores(
+    path.userId,
+    rows.map((row) => row.topic.id),
+  );
+  const steps = rows.map(({ step, topic }) => ({
+    position: step.position,
+    prerequisites: (step.prerequisites as number[] | null) ?? [],
+    progress: topic.progress ?? 0,
+    bestScore: bestScores[topic.id],
+  }));
+  const statuses = resolveStepStatuses(steps);
+
+  return rows.map(({ step, topic }, i) => ({
+    ...steps[i],
+    id: step.id,
+    topic: {
+      id: topic.id,
+      title: topic.title,
+      description: topic.description,
+      difficulty: topic.difficulty,
+      hasContent: Boolean(topic.content),
+    },
+    status: statuses.get(step.position)!,
+  }));
+};
+
+// Mastery estimate for a topic from the student's recent quiz attempts on it
+const loadTopicMastery = async (userId: string, topic: Topic) => {
+  const history = await storage.getTopicQuizHistory(userId, topic.id, MASTERY_HISTORY_LIMIT);
+  const entries: QuizHistoryEntry[] = history.map((entry) => ({
+    questions: normalizeQuestions(entry.questions),
+    answers: entry.answers as QuizAnswer[],
+    shortAnswerGrades: entry.shortAnswerGrades as (ShortAnswerGrade | null)[] | null,
+  }));
+  return estimateMastery(entries, topic.difficulty);
+};
+
+// Stored messages in the shape the LLM providers take as chat history
+const toChatHistory = (messages: ChatMessage[]) =>
+  messages.map((message) => ({ role: message.role, parts: [{ text: message.content }] }));
+
+// Quiz as sent to the client before an attempt: the answer key stays on the server
+const toPublicQuiz = (quiz: Quiz) => {
+  const questions = normalizeQuestions(quiz.questions);
+  return { ...quiz, questionCount: questions.length, questions: toPublicQuestions(questions) };
+};
+
+// A timed quiz's questions only go out with an attempt in progress, so they can't be read
+// before the clock starts
+const toQuizPreview = (quiz: Quiz) =>
+  quiz.timeLimitSeconds ? { ...toPublicQuiz(quiz), questions: [] } : toPublicQuiz(quiz);
+
+// Loads a quiz the current user may access, or sends 404/403 and returns undefined
+const loadOwnedQuiz = async (req: any, res: Response, quizId: string) => {
+  const quiz = await storage.getQuiz(quizId);
+  if (!quiz) {
+    res.status(404).json({ message: "Quiz not found" });
+    return undefined;
+  }
+  if (!canAccess(req.user, quiz)) {
+    res.status(403).json({ message: "Forbidden" });
+    return undefined;
+  }
+  return quiz;
+};
+
+// Loads a quiz the current user may edit. Copies of shared quizzes are read-only, as
+// editing them would show the answer key.
+const loadEditableQuiz = async (req: any, res: Response, quizId: string) => {
+  const quiz = await loadOwnedQuiz(req, res, quizId);
+  if (quiz?.readOnly) {
+    res.status(403).json({ message: "This is a copy of a shared quiz, so it can't be edited" });
+    return undefined;
+  }
+  return quiz;
+};
+
+// Quiz with its answer key, for the author's editor
+const toEditableQuiz = (quiz: Quiz) => ({
+  ...quiz,
+  questions: normalizeQuestions(quiz.questions),
+});
+
+// Saves a quiz's edited question list and sends it back
+const saveQuizQuestions = async (res: Response, quiz: Quiz, questions: QuizQuestion[]) => {
+  const updated = await storage.updateQuiz(quiz.id, { questions });
+  res.json(toEditableQuiz(updated));
+};
+
+// Loads a flashcard the current user may access, or sends 404/403 and returns undefined
+const loadOwnedFlashcard = async (req: any, res: Response, flashcardId: string) => {
+  const flashcard = await storage.getFlashcard(flashcardId);
+  if (!flashcard) {
+    res.status(404).json({ message: "Flashcard not found" });
+    return undefined;
+  }
+  if (!canAccess(req.user, flashcard)) {
+    res.status(403).json({ message: "Forbidden" });
+    return undefined;
+  }
+  return flashcard;
+};
+
+// Loads an open study group, or sends 404 and returns undefined
+const loadStudyGroup = async (res: Response, groupId: string) => {
+  const group = await storage.getStudyGroup(groupId);
+  if (!group || !group.isActive) {
+    res.status(404).json({ message: "Study group not found" });
+    return undefined;
+  }
+  return group;
+};
+
+// Group admins manage members; platform admins may step in for any group.
+// Sends 403 and returns false for anyone else.
+const requireGroupAdmin = async (req: any, res: Response, groupId: string) => {
+  if (req.user.role === "admin") return true;
+  const member = await storage.getStudyGroupMember(groupId, req.user.id);
+  if (member?.role !== "admin") {
+    res.status(403).json({ message: "Only group admins can do this" });
+    return false;
+  }
+  return true;
+};
+
+// A group's shared material with the viewer's own copies and how far members have got with it
+const loadSharedResources = async (groupId: string, viewerId: string): Promise<SharedGroupResource[]> => {
+  const [resources, members] = await Promise.all([
+    storage.getGroupResources(groupId),
+    storage.getStudyGroupMembers(groupId),
+  ]);
+  const memberIds = members.map((member) => member.id);
+  const sourceOf = (resource: { kind: GroupResourceKind; topicId: string | null; quizId: string | null }) =>
+    (resource.kind === "quiz" ? resource.quizId : resource.topicId)!;
+  const sourcesOf = (kind: GroupResourceKind) => resources.filter((r) => r.kind === kind).map(sourceOf);
+  const [topicProgress, deckProgress, quizProgress] = await Promise.all([
+    storage.getTopicForkProgress(sourcesOf("topic"), memberIds),
+    storage.getDeckForkProgress(sourcesOf("deck"), memberIds),
+    storage.getQuizForkProgress(sourcesOf("quiz"), memberIds),
+  ]);
+  const progressByKind = { topic: topicProgress, deck: deckProgress, quiz: quizProgress };
+
+  return resources.map((resource) => {
+    const rows = progressByKind[resource.kind].filter((row) => row.sourceId === sourceOf(resource));
+    const total = rows.reduce((sum, row) => sum + row.percent, 0);
+    return {
+      ...resource,
+      mine: rows.find((row) => row.userId === viewerId)?.copyId ?? null,
+      progress: {
+        members: memberIds.length,
+        copied: rows.filter((row) => row.copyId).length,
+        started: rows.filter((row) => row.percent > 0).length,
+        completed: rows.filter((row) => row.percent >= 100).length,
+        averagePercent: memberIds.length > 0 ? Math.round(total / memberIds.length) : 0,
+      },
+    };
+  });
+};
+
+// When each group next meets, from its sessions' schedules
+const loadNextSessions = async (groupIds: string[]) => {
+  const now = new Date();
+  const next = new Map<string, Date>();
+  for (const session of await storage.getGroupSessions(groupIds)) {
+    const start = nextOccurrence(session, now);
+    const earliest = next.get(session.groupId);
+    if (start && (!earliest || start < earliest)) next.set(session.groupId, start);
+  }
+  return next;
+};
+
+// Loads a session and its open group, or sends 404 and returns undefined
+const loadGroupSession = async (res: Response, sessionId: string) => {
+  const session = await storage.getGroupSession(sessionId);
+  const group = session && (await storage.getStudyGroup(session.groupId));
+  if (!session || !group?.isActive) {
+    res.status(404).json({ message: "Session not found" });
+    return undefined;
+  }
+  return { session, group };
+};
+
+// Session input as table columns. `start` is wall-clock time in the session's zone; when only
+// the zone changes, the session keeps its wall-clock start time.
+const toSessionColumns = (
+  input: Partial<GroupSessionInput>,
+  existing?: GroupSession,
+): Partial<InsertGroupSession> => {
+  const { start, recurrence, ...columns } = input;
+  const timeZone = input.timeZone ?? existing!.timeZone;
+  const updates: Partial<InsertGroupSession> = { ...columns };
+  if (start !== undefined || input.timeZone !== undefined) {
+    const wallClock = start ? parseWallClock(start) : toWallClock(existing!.startsAt, existing!.timeZone);
+    updates.startsAt = fromWallClock(wallClock, timeZone);
+  }
+  if (recurrence !== undefined) {
+    updates.recurrence = recurrence ? normalizeRecurrence(recurrence, timeZone) : null;
+  }
+  return updates;
+};
+
+// Each occurrence of `sessions` in [from, to), soonest first, with its replies and the viewer's own
+const loadSessionOccurrences = async (sessions: GroupSession[], userId: string, from: Date, to: Date) => {
+  const occurrences = sessions.flatMap((session) =>
+    occurrencesBetween(session, from, to).map((start) => ({ session, start })),
+  );
+  occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+  if (occurrences.length === 0) return [];
+
+  const rsvps = await storage.getSessionRsvps(
+    sessions.map((session) => session.id),
+    occurrences[0].start,
+    new Date(occurrences[occurrences.length - 1].start.getTime() + 1),
+  );
+  return occurrences.map(({ session, start }) => {
+    const replies = rsvps.filter(
+      (rsvp) => rsvp.sessionId === session.id && rsvp.occurrenceStart.getTime() === start.getTime(),
+    );
+    const count = (status: string) => replies.filter((rsvp) => rsvp.status === status).length;
+    return {
+      sessionId: session.id,
+      title: session.title,
+      description: session.description,
+      location: session.location,
+      timeZone: session.timeZone,
+      recurrence: session.recurrence,
+      durationMinutes: session.durationMinutes,
+      startsAt: start,
+      endsAt: new Date(start.getTime() + session.durationMinutes * 60 * 1000),
+      going: count("going"),
+      maybe: count("maybe"),
+      declined: count("declined"),
+      myRsvp: replies.find((rsvp) => rsvp.userId === userId)?.status ?? null,
+    };
+  });
+};
+
+// Calendar feeds are fetched by calendar apps, which can't log in; the secret token in
+// the URL stands in for the session cookie
+const calendarFeedUrl = (req: Request, token: string, groupId?: string) =>
+  `${req.protocol}://${req.get("host")}/api/calendar/${token}${groupId ? `/${groupId}` : ""}.ics`;
+
+const ensureCalendarToken = async (user: User) =>
+  user.calendarToken ?? (await storage.setCalendarToken(user.id, randomBytes(24).toString("base64url"))).calendarToken!;
+
+const sendCalendar = async (req: Request, res: Response, name: string, groups: { id: string; name: string }[]) => {
+  const sessions = await storage.getGroupSessions(groups.map((group) => group.id));
+  const groupNames = new Map(groups.map((group) => [group.id, group.name]));
+  const origin = `${req.protocol}://${req.get("host")}`;
+  const calendar = buildCalendar(
+    name,
+    sessions.map((session) => ({
+      session,
+      groupName: groupNames.get(session.groupId)!,
+      url: `${origin}/study-groups/${session.groupId}`,
+    })),
+  );
+  res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+  res.setHeader("Content-Disposition", 'inline; filename="study-sessions.ics"');
+  res.send(calendar);
+};
+
+// Loads an attempt the current user may access, or sends 404/403 and returns undefined
+const loadOwnedAttempt = async (req: any, res: Response, attemptId: string) => {
+  const attempt = await storage.getQuizAttempt(attemptId);
+  if (!attempt) {
+    res.status(404).json({ message: "Quiz attempt not found" });
+    return undefined;
+  }
+  if (!canAccess(req.user, attempt)) {
+    res.status(403).json({ message: "Forbidden" });
+    return undefined;
+  }
+  return attempt;
+};
+
+// An attempt still being taken: saved answers and deadline, but nothing that gives away the key.
+// serverTime lets the client's countdown correct for clock skew.
+const toAttemptState = (attempt: QuizAttempt, quiz: Quiz) => ({
+  attempt: {
+    id: attempt.id,
+    status: attempt.status,
+    answers: attempt.answers,
+    startedAt: attempt.startedAt,
+    deadline: attempt.deadline,
+  },
+  quiz: { ...quiz, questions: toPublicQuestions(attemptQuestions(attempt, quiz)) },
+  serverTime: new Date(),
+});
+
+// Re-grades a stored attempt so results pages can be reloaded
+const toAttemptResult = (attempt: QuizAttempt, quiz: Quiz) => ({
+  attempt,
+  quizTitle: quiz.title,
+  ...gradeQuiz(
+    attemptQuestions(attempt, quiz),
+    attempt.answers as QuizAnswer[],
+    (attempt.shortAnswerGrades as (ShortAnswerGrade | null)[] | null) ?? [],
+  ),
+});
+
+// Configure multer for file uploads
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+});
+
+// Anki packages can bundle media, which is skipped but still has to be uploaded
+const deckUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 50 * 1024 * 1024, // 50MB limit
+  },
+});
+
+// How much of an uploaded document is handed to the model for the summary
+const MAX_SUMMARY_CHUNKS = 3;
+
+// Shorter visits to a topic page aren't logged as study sessions
+const MIN_STUDY_SESSION_SECONDS = 30;
+
+export async function registerRoutes(app: Express): Promise<Server> {
+  // Auth routes
+  app.get("/api/auth/user", isAuthenticated, (req: any, res) => {
+    // req.user is reloaded from the database on every request by passport
+    res.json(sanitizeUser(req.user));
+  });
+
+  // Topic routes
+  app.post("/api/topics", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const topicData = insertTopicSchema.parse({ ...req.body, userId });
+      const topic = await storage.createTopic(topicData);
+      // Unindexed topics are picked up on the next retrieval, so this needn't fail the request
+      await indexTopic(topic).catch((error) => console.error("Failed to index topic", error));
+      await storage.createLearningSession({
+        userId,
+        topicId: topic.id,
+        activityType: "study",
+        xpGained: 10,
+      });
+      await storage.updateUserXP(userId, 10);
+      await storage.updateUserStreak(userId);
+      res.json(topic);
+    } catch (error) {
+      handleError(res, error, "Failed to create topic");
+    }
+  });
+
+  app.get("/api/topics", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const topics = await storage.getUserTopics(userId);
+      res.json(topics);
+    } catch (error) {
+      handleError(res, error, "Failed to fetch topics");
+    }
+  });
+
+  app.get("/api/topics/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const topic = await loadOwnedTopic(req, res, req.params.id);
+      if (!topic) return;
+      res.json(topic);
+    } catch (error) {
+      handleError(res, error, "Failed to fetch topic");
+    }
+  });
+
+  app.patch("/api/topics/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const parsed = updateTopicSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message ?? "Invalid topic" });
+      }
+      const topic = await loadOwnedTopic(req, res, req.params.id);
+      if (!topic) return;
+
+      const updates = parsed.data;
+      const contentChanged = updates.content !== undefined && updates.content !== topic.content;
+      let progressUpdate = {};
+      if (contentChanged) {
+        // Keep credit for sections that still exist after the edit
+        const sectionCount = splitIntoSections(updates.content).length;
+        const readSections = ((topic.readSections as number[] | null) ?? []).filter((i) => i < sectionCount);
+        progressUpdate = {
+          readSections,
+          progress: sectionCount > 0 ? Math.round((readSections.length / sectionCount) * 100) : 0,
+        };
+      }
+
+      const updated = await storage.updateTopic(topic.id, { ...updates, ...progressUpdate });
+      if (contentChanged) {
+        await indexTopic(updated).catch((error) => console.error("Failed to index topic", error));
+      }
+      res.json(updated);
+    } catch (error) {
+      handleError(res, error, "Failed to update topic");
+    }
+  });
+
+  app.delete("/api/topics/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const topic = await loadOwnedTopic(req, res, req.params.id);
+      if (!topic) return;
+      // Quizzes, flashcards, versions and the retrieval index go with it
+      await storage.deleteTopic(topic.id);
+      res.status(204).end();
+    } catch (error) {
+      handleError(res, error, "Failed to delete topic");
+    }
+  });
+
+  app.get("/api/topics/:id/versions", isAuthenticated, async (req: any, res) => {
+    try {
+      const topic = await loadOwnedTopic(req, res, req.params.id);
+      if (!topic) return;
+      const versions = await storage.getTopicVersions(topic.id);
+      res.json(versions);
+    } catch (error) {
+      handleError(res, error, "Failed to fetch topic versions");
+    }
+  });
+
+  app.post("/api/topics/:id/regenerate", isAuthenticated, async (req: any, res) => {
+    try {
+      const parsed = regenerateTopicSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Difficulty must be one of: beginner, intermediate, advanced" });
+      }
+      const topic = await loadOwnedTopic(req, res, req.params.id);
+      if (!topic) return;
+
+      const { difficulty } = parsed.data;
+      const content = await generateExplanation({ topic: topic.title, difficulty });
+      await snapshotTopic(topic);
+      const version = await storage.createTopicVersion({ topicId: topic.id, difficulty, content, aiGenerated: true });
+      const updated = await switchTopicContent(topic, { difficulty, content, aiGenerated: true });
+      res.json({ topic: updated, version });
+    } catch (error) {
+      handleError(res, error, "Failed to regenerate topic");
+    }
+  });
+
+  app.post("/api/topics/:id/versions/:versionId/activate", isAuthenticated, async (req: any, res) => {
+    try {
+      const topic = await loadOwnedTopic(req, res, req.params.id);
+      if (!topic) return;
+      const version = await storage.getTopicVersion(req.params.versionId);
+      if (!version || version.topicId !== topic.id) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      if (version.content === topic.content && version.difficulty === topic.difficulty) {
+        return res.json(topic);
+      }
+
+      // The current content may have been edited since it was last saved as a version
+      await snapshotTopic(topic);
+      const updated = await switchTopicContent(topic, {
+        difficulty: version.difficulty,
+        content: version.content,
+        aiGenerated: version.aiGenerated ?? false,
+      });
+      res.json(updated);
+    } catch (error) {
+      handleError(res, error, "Failed to switch topic version");
+    }
+  });
+
+  app.patch("/api/topics/:id/progress", isAuthenticated, async (req: any, res) => {
+    try {
+      const parsed = updateTopicProgressSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "readSections must be a list of section indexes" });
+      }
+      const topic = await loadOwnedTopic(req, res, req.params.id);
+      if (!topic) return;
+
+      // Progress only moves forward, so reports from another tab or device can't undo reading
+      const sectionCount = splitIntoSections(topic.content).length;
+      const readSections = Array.from(
+        new Set([...((topic.readSections as number[] | null) ?? []), ...parsed.data.readSections]),
+      )
+        .filter((index) => index < sectionCount)
+        .sort((a, b) => a - b);
+      const progress = sectionCount > 0 ? Math.round((readSections.length / sectionCount) * 100) : 0;
+      const updated = await storage.updateTopicProgress(topic.id, progress, readSections);
+
+      const { durationSeconds } = parsed.data;
+      if (durationSeconds && durationSeconds >= MIN_STUDY_SESSION_SECONDS) {
+        await storage.createLearningSession({
+          userId: req.user.id,
+          topicId: topic.id,
+          activityType: "study",
+          duration: Math.round(durationSeconds / 60) || 1,
+          startedAt: new Date(Date.now() - durationSeconds * 1000),
+        });
+        await storage.updateUserStreak(req.user.id);
+      }
+
+      res.json(updated);
+    } catch (error) {
+      handleError(res, error, "Failed to update topic progress");
+    }
+  });
+
+  app.get("/api/topics/:id/quizzes", isAuthenticated, async (req: any, res) => {
+    try {
+      const topic = await loadOwnedTopic(req, res, req.params.id);
+      if (!topic) return;
+      const quizzes = await storage.getTopicQuizzes(topic.id);
+      res.json(quizzes.map(toQuizPreview));
+    } catch (error) {
+      handleError(res, error, "Failed to fetch quizzes");
+    }
+  });
+
+  app.get("/api/topics/:id/mastery", isAuthenticated, async (req: any, res) => {
+    try {
+      const topic = await loadOwnedTopic(req, res, req.params.id);
+      if (!topic) return;
+      const mastery = await loadTopicMastery(topic.userId, topic);
+      res.json(mastery);
+    } catch (error) {
+      handleError(res, error, "Failed to estimate topic mastery");
+    }
+  });
+
+  app.get("/api/topics/:id/flashcards", isAuthenticated, async (req: any, res) => {
+    try {
+      const topic = await loadOwnedTopic(req, res, req.params.id);
+      if (!topic) return;
+      const flashcards = await storage.getTopicFlashcards(topic.id);
+      res.json(flashcards);
+    } catch (error) {
+      handleError(res, error, "Failed to fetch flashcards");
+    }
+  });
+
+  app.post("/api/topics/:id/flashcards", isAuthenticated, async (req: any, res) => {
+    try {
+      const parsed = createFlashcardsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: describeValidationError(parsed.error) });
+      }
+      const topic = await loadOwnedTopic(req, res, req.params.id);
+      if (!topic) return;
+      const flashcards = await storage.createFlashcards(
+        parsed.data.cards.map((card) => ({ topicId: topic.id, userId: req.user.id, ...card })),
+      );
+      res.status(201).json(flashcards);
+    } catch (error) {
+      handleError(res, error, "Failed to create flashcards");
+    }
+  });
+
+  // CSV/TSV or Anki .apkg; scheduling columns and Anki review data carry over when present
+  app.post("/api/topics/:id/flashcards/import", isAuthenticated, deckUpload.single("file"), async (req: any, res) => {
+    try {
+      const file = req.file as Express.Multer.File | undefined;
+      if (!file) {
+        return res.status(400).json({ message: "A file is required" });
+      }
+      if (!isSupportedDeck(file.originalname)) {
+        return res.status(400).json({
+          message: `Unsupported file type. Upload one of: ${DECK_EXTENSIONS.join(", ")}`,
+        });
+      }
+      const topic = await loadOwnedTopic(req, res, req.params.id);
+      if (!topic) return;
+
+      const { cards, skipped } = await readDeck(file);
+      if (cards.length === 0) {
+        return res.status(422).json({ message: "No cards with both a front and a back were found in this file" });
+      }
+      const flashcards = await storage.createFlashcards(
+        cards.map((card) => ({ ...card, topicId: topic.id, userId: req.user.id })),
+      );
+      res.status(201).json({ imported: flashcards.length, skipped });
+    } catch (error) {
+      handleError(res, error, "Failed to import flashcards");
+    }
+  });
+
+  app.get("/api/topics/:id/flashcards/export", isAuthenticated, async (req: any, res) => {
+    try {
+      const format = req.query.format ?? "csv";
+      if (format !== "csv" && format !== "apkg") {
+        return res.status(400).json({ message: "Format must be csv or apkg" });
+      }
+      const topic = await loadOwnedTopic(req, res, req.params.id);
+      if (!topic) return;
+
+      const flashcards = await storage.getTopicFlashcards(topic.id);
+      const filename = `${topic.title.replace(/[^\w-]+/g, "-").replace(/^-+|-+$/g, "") || "flashcards"}.${format}`;
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      if (format === "csv") {
+        res.type("text/csv").send(exportCsv(flashcards));
+      } else {
+        res.type("application/octet-stream").send(await exportApkg(flashcards, topic.title));
+      }
+    } catch (error) {
+      handleError(res, error, "Failed to export flashcards");
+    }
+  });
+  
+  // Learning path routes
+  app.get("/api/learning-paths", isAuthenticated, async (req: any, res) => {
+    try {
+      const paths = await storage.getUserLearningPaths(req.user.id);
+      const summaries = await Promise.all(
+        paths.map(async (path) => {
+          const steps = await loadLearningPathSteps(path);
+          return {
+            ...path,
+            totalSteps: steps.length,
+            completedSteps: steps.filter((step) => step.status === "completed").length,
+          };
+        }),
+      );
+      res.json(summaries);
+    } catch (error) {
+      handleError(res, error, "Failed to fetch learning paths");
+    }
+  });
+
+  app.post("/api/learning-paths", isAuthenticated, async (req: any, res) => {
+    try {
+      const parsed = createLearningPathSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Describe your goal in 3 to 300 characters" });
+      }
+      const { goal } = parsed.data;
+      const plan = await generateLearningPath(goal);
+      const path = await storage.createLearningPath(
+        { userId: req.user.id, goal, title: plan.title, description: plan.description },
+        plan.topics,
+      );
+      res.status(201).json(path);
+    } catch (error) {
+      handleError(res, error, "Failed to create learning path");
+    }
+  });
+
+  app.get("/api/learning-paths/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const path = await loadOwnedLearningPath(req, res, req.params.id);
+      if (!path) return;
+      const steps = await loadLearningPathSteps(path);
+      res.json({ ...path, steps });
+    } catch (error) {
+      handleError(res, error, "Failed to fetch learning path");
+    }
+  });
+
+  app.delete("/api/learning-paths/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const path = await loadOwnedLearningPath(req, res, req.params.id);
+      if (!path) return;
+      // The path's topics stay in the student's library
+      await storage.deleteLearningPath(path.id);
+      res.status(204).end();
+    } catch (error) {
+      handleError(res, error, "Failed to delete learning path");
+    }
+  });
+  
+  app.post("/api/upload", isAuthenticated, upload.single("file"), async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const file = req.file as Express.Multer.File | undefined;
+      if (!file) {
+        return res.status(400).json({ message: "A file is required" });
+      }
+      if (!isSupportedDocument(file.originalname)) {
+        return res.status(400).json({
+          message: `Unsupported file type. Upload one of: ${SUPPORTED_EXTENSIONS.join(", ")}`,
+        });
+      }
+
+      const text = await extractDocumentText(file);
+      if (!text) {
+        return res.status(422).json({ message: "No text could be extracted from this file" });
+      }
+
+      const title = req.body.title?.trim() || file.originalname.replace(/\.[^.]+$/, "");
+      const difficulty = ["beginner", "intermediate", "advanced"].includes(req.body.difficulty)
+        ? req.body.difficulty
+        : "intermediate";
+      const chunks = chunkText(text);
+      const summary = await generateExplanation({
+        topic: title,
+        difficulty,
+        context: chunks.slice(0, MAX_SUMMARY_CHUNKS).join("\n\n"),
+      });
+
+      const topic = await storage.createTopic({
+        userId,
+        title,
+        description: `Uploaded from ${file.originalname}`,
+        difficulty,
+        content: `## Summary\n\n${summary}\n\n## Source: ${file.originalname}\n\n${text}`,
+        aiGenerated: true,
+      });
+      await indexTopic(topic, { text, source: file.originalname }).catch((error) =>
+        console.error("Failed to index uploaded document", error),
+      );
+      await storage.createLearningSession({
+        userId,
+        topicId: topic.id,
+        activityType: "study",
+        xpGained: 10,
+      });
+      await storage.updateUserXP(userId, 10);
+      await storage.updateUserStreak(userId);
+      res.json({ topic, chunkCount: chunks.length });
+    } catch (error) {
+      handleError(res, error, "Failed to process uploaded file");
+    }
+  });
+
+  // Quiz routes
+  // Quizzes the user made, e.g. to pick one to host in a study group
+  app.get("/api/quizzes", isAuthenticated, async (req: any, res) => {
+    try {
+      const userQuizzes = await storage.getUserQuizzes(req.user.id);
+      res.json(userQuizzes.map(toQuizPreview));
+    } catch (error) {
+      handleError(res, error, "Failed to fetch quizzes");
+    }
+  });
+
+  app.get("/api/quizzes/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const quiz = await storage.getQuiz(req.params.id);
+      if (!quiz) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+      if (!canAccess(req.user, quiz)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      const attempt = quiz.timeLimitSeconds
+        ? await storage.getInProgressQuizAttempt(quiz.id, req.user.id)
+        : undefined;
+      res.json(attempt && !isPastDeadline(attempt) ? toPublicQuiz(quiz) : toQuizPreview(quiz));
+    } catch (error) {
+      handleError(res, error, "Failed to fetch quiz");
+    }
+  });
+
+  // Quiz authoring routes
+  app.post("/api/quizzes", isAuthenticated, async (req: any, res) => {
+    try {
+      const parsed = createQuizSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: describeValidationError(parsed.error) });
+      }
+      const { topicId, title, questions, timeLimitMinutes } = parsed.data;
+      const topic = await loadOwnedTopic(req, res, topicId);
+      if (!topic) return;
+      const quiz = await storage.createQuiz({
+        topicId: topic.id,
+        userId: req.user.id,
+        title,
+        questions,
+        timeLimitSeconds: timeLimitMinutes ? timeLimitMinutes * 60 : null,
+      });
+      res.status(201).json(toEditableQuiz(quiz));
+    } catch (error) {
+      handleError(res, error, "Failed to create quiz");
+    }
+  });
+
+  app.patch("/api/quizzes/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const parsed = updateQuizSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: describeValidationError(parsed.error) });
+      }
+      const quiz = await loadEditableQuiz(req, res, req.params.id);
+      if (!quiz) return;
+      if (Object.keys(parsed.data).length === 0) {
+        return res.json(toEditableQuiz(quiz));
+      }
+      const { timeLimitMinutes, ...updates } = parsed.data;
+      // null makes an exam untimed again; leaving it out keeps the current limit
+      const timeLimitSeconds = timeLimitMinutes === undefined ? undefined : (timeLimitMinutes ?? 0) * 60 || null;
+      // Attempts keep the questions they were answered against, so earlier results stay as they were
+      const updated = await storage.updateQuiz(quiz.id, { ...updates, timeLimitSeconds });
+      res.json(toEditableQuiz(updated));
+    } catch (error) {
+      handleError(res, error, "Failed to update quiz");
+    }
+  });
+
+  app.delete("/api/quizzes/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const quiz = await loadOwnedQuiz(req, res, req.params.id);
+      if (!quiz) return;
+      await storage.deleteQuiz(quiz.id);
+      res.status(204).end();
+    } catch (error) {
+      handleError(res, error, "Failed to delete quiz");
+    }
+  });
+
+  // The quiz with its answer key, for editing
+  app.get("/api/quizzes/:id/questions", isAuthenticated, async (req: any, res) => {
+    try {
+      const quiz = await loadEditableQuiz(req, res, req.params.id);
+      if (!quiz) return;
+      res.json(toEditableQuiz(quiz));
+    } catch (error) {
+      handleError(res, error, "Failed to fetch quiz questions");
+    }
+  });
+
+  app.post("/api/quizzes/:id/questions", isAuthenticated, async (req: any, res) => {
+    try {
+      const parsed = quizQuestionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: describeValidationError(parsed.error) });
+      }
+      const quiz = await loadEditableQuiz(req, res, req.params.id);
+      if (!quiz) return;
+      const questions = normalizeQuestions(quiz.questions);
+      if (questions.length >= 100) {
+        return res.status(400).json({ message: "A quiz can have at most 100 questions" });
+      }
+      await saveQuizQuestions(res, quiz, [...questions, parsed.data]);
+    } catch (error) {
+      handleError(res, error, "Failed to add question");
+    }
+  });
+
+  app.put("/api/quizzes/:id/questions/:index", isAuthenticated, async (req: any, res) => {
+    try {
+      const parsed = quizQuestionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: describeValidationError(parsed.error) });
+      }
+      const quiz = await loadEditableQuiz(req, res, req.params.id);
+      if (!quiz) return;
+      const questions = normalizeQuestions(quiz.questions);
+      const index = Number(req.params.index);
+      if (!Number.isInteger(index) || index < 0 || index >= questions.length) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+      await saveQuizQuestions(res, quiz, questions.map((q, i) => (i === index ? parsed.data : q)));
+    } catch (error) {
+      handleError(res, error, "Failed to update question");
+    }
+  });
+
+  app.delete("/api/quizzes/:id/questions/:index", isAuthenticated, async (req: any, res) => {
+    try {
+      const quiz = await loadEditableQuiz(req, res, req.params.id);
+      if (!quiz) return;
+      const questions = normalizeQuestions(quiz.questions);
+      const index = Number(req.params.index);
+      if (!Number.isInteger(index) || index < 0 || index >= questions.length) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+      if (questions.length === 1) {
+        return res.status(400).json({ message: "A quiz needs at least one question; delete the quiz instead" });
+      }
+      await saveQuizQuestions(res, quiz, questions.filter((_, i) => i !== index));
+    } catch (error) {
+      handleError(res, error, "Failed to delete question");
+    }
+  });
+
+  app.get("/api/quizzes/:id/attempts", isAuthenticated, async (req: any, res) => {
+    try {
+      const attempts = await storage.getQuizAttempts(req.params.id, req.user.id);
+      res.json(attempts);
+    } catch (error) {
+      handleError(res, error, "Failed to fetch quiz attempts");
+    }
+  });
+
+  app.post("/api/quizzes/:id/attempts", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const quiz = await storage.getQuiz(req.params.id);
+      if (!quiz) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+      if (!canAccess(req.user, quiz)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      // Exams only run through start/submit, which keep the deadline
+      if (quiz.timeLimitSeconds) {
+        return res.status(409).json({ message: "This quiz is timed; start an attempt to take it" });
+      }
+
+      const parsed = submitQuizAttemptSchema.safeParse(req.body);
+      const questions = normalizeQuestions(quiz.questions);
+      if (!parsed.success || parsed.data.answers.length !== questions.length) {
+        return res.status(400).json({ message: `Expected ${questions.length} answers` });
+      }
+
+      const { answers } = parsed.data;
+      const shortAnswerGrades = await gradeShortAnswers(questions, answers);
+      const { score, totalQuestions } = gradeQuiz(questions, answers, shortAnswerGrades);
+      const attempt = await storage.submitQuizAttempt({
+        quizId: quiz.id,
+        userId,
+        score,
+        totalQuestions,
+        answers,
+        questions,
+        shortAnswerGrades,
+      });
+
+      const xpGained = await recordQuizCompletion(attempt, quiz);
+      res.json({ ...toAttemptResult(attempt, quiz), xpGained });
+    } catch (error) {
+      handleError(res, error, "Failed to submit quiz attempt");
+    }
+  });
+
+  // The student's unfinished attempt at a quiz, so reloading the page resumes it.
+  // An attempt whose time ran out meanwhile is submitted first and returned finished.
+  app.get("/api/quizzes/:id/attempts/current", isAuthenticated, async (req: any, res) => {
+    try {
+      const quiz = await loadOwnedQuiz(req, res, req.params.id);
+      if (!quiz) return;
+      const attempt = await storage.getInProgressQuizAttempt(quiz.id, req.user.id);
+      if (!attempt) {
+        return res.json(null);
+      }
+      if (isPastDeadline(attempt)) {
+        await expireQuizAttempt(attempt, quiz);
+        const expired = await storage.getQuizAttempt(attempt.id);
+        return res.json({ attempt: { id: attempt.id, status: expired?.status ?? "expired" } });
+      }
+      res.json(toAttemptState(attempt, quiz));
+    } catch (error) {
+      handleError(res, error, "Failed to fetch current quiz attempt");
+    }
+  });
+
+  // Starts an attempt on the server, or resumes the one already in progress
+  app.post("/api/quizzes/:id/attempts/start", isAuthenticated, async (req: any, res) => {
+    try {
+      const parsed = startQuizAttemptSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Time limit must be between 1 and 1440 minutes" });
+      }
+      const quiz = await loadOwnedQuiz(req, res, req.params.id);
+      if (!quiz) return;
+
+      const existing = await storage.getInProgressQuizAttempt(quiz.id, req.user.id);
+      if (existing && !isPastDeadline(existing)) {
+        return res.json(toAttemptState(existing, quiz));
+      }
+      if (existing) {
+        await expireQuizAttempt(existing, quiz);
+      }
+
+      // Exams carry their own limit; otherwise the student may choose one for practice
+      const limitSeconds =
+        quiz.timeLimitSeconds ?? (parsed.data.timeLimitMinutes ? parsed.data.timeLimitMinutes * 60 : null);
+      const questions = normalizeQuestions(quiz.questions);
+      const totalQuestions = questions.length;
+      const attempt = await storage.startQuizAttempt({
+        quizId: quiz.id,
+        userId: req.user.id,
+        totalQuestions,
+        answers: Array(totalQuestions).fill(null),
+        // Edits to the quiz from here on don't change what this attempt is graded against
+        questions,
+        deadline: limitSeconds ? new Date(Date.now() + limitSeconds * 1000) : null,
+      });
+      if (!attempt) {
+        // A concurrent start (double click, second tab) got there first; resume that one
+        const started = await storage.getInProgressQuizAttempt(quiz.id, req.user.id);
+        if (!started) {
+          return res.status(409).json({ message: "This attempt has already been submitted" });
+        }
+        return res.json(toAttemptState(started, quiz));
+      }
+      res.status(201).json(toAttemptState(attempt, quiz));
+    } catch (error) {
+      handleError(res, error, "Failed to start quiz attempt");
+    }
+  });
+
+  // Autosave; answers stop being accepted once the attempt is finished or its time is up
+  app.patch("/api/quiz-attempts/:id/answers", isAuthenticated, async (req: any, res) => {
+    try {
+      const attempt = await loadOwnedAttempt(req, res, req.params.id);
+      if (!attempt) return;
+      if (attempt.status !== "in_progress") {
+        return res.status(409).json({ message: "This attempt has already been submitted", status: attempt.status });
+      }
+      if (isPastDeadline(attempt)) {
+        await expireQuizAttempt(attempt);
+        return res.status(409).json({ message: "Time is up for this attempt", status: "expired" });
+      }
+
+      const parsed = submitQuizAttemptSchema.safeParse(req.body);
+      if (!parsed.success || parsed.data.answers.length !== attempt.totalQuestions) {
+        return res.status(400).json({ message: `Expected ${attempt.totalQuestions} answers` });
+      }
+      const saved = await storage.saveQuizAttemptAnswers(attempt.id, parsed.data.answers);
+      if (!saved) {
+        return res.status(409).json({ message: "This attempt has already been submitted" });
+      }
+      res.json({ savedAt: new Date() });
+    } catch (error) {
+      handleError(res, error, "Failed to save answers");
+    }
+  });
+
+  app.post("/api/quiz-attempts/:id/submit", isAuthenticated, async (req: any, res) => {
+    try {
+      const attempt = await loadOwnedAttempt(req, res, req.params.id);
+      if (!attempt) return;
+      if (attempt.status !== "in_progress") {
+        return res.status(409).json({ message: "This attempt has already been submitted", status: attempt.status });
+      }
+      const quiz = await storage.getQuiz(attempt.quizId);
+      if (!quiz) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+
+      const parsed = submitQuizAttemptSchema.safeParse(req.body);
+      if (!parsed.success || parsed.data.answers.length !== attempt.totalQuestions) {
+        return res.status(400).json({ message: `Expected ${attempt.totalQuestions} answers` });
+      }
+
+      // Past the deadline only the answers saved in time count
+      const finished = isPastDeadline(attempt)
+        ? await expireQuizAttempt(attempt, quiz)
+        : await finishQuizAttempt(attempt, quiz, parsed.data.answers, "submitted");
+      if (!finished) {
+        return res.status(409).json({ message: "This attempt has already been submitted" });
+      }
+      res.json({ ...toAttemptResult(finished.attempt, quiz), xpGained: finished.xpGained });
+    } catch (error) {
+      handleError(res, error, "Failed to submit quiz attempt");
+    }
+  });
+
+  app.get("/api/quiz-attempts", isAuthenticated, async (req: any, res) => {
+    try {
+      const attempts = await storage.getUserQuizAttempts(req.user.id);
+      res.json(attempts);
+    } catch (error) {
+      handleError(res, error, "Failed to fetch quiz attempts");
+    }
+  });
+
+  app.get("/api/quiz-attempts/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const attempt = await storage.getQuizAttempt(req.params.id);
+      if (!attempt) {
+        return res.status(404).json({ message: "Quiz attempt not found" });
+      }
+      if (!canAccess(req.user, attempt)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      // Results include the answer key, so they wait until the attempt is finished
+      if (attempt.status === "in_progress") {
+        return res.status(409).json({ message: "This attempt is still in progress", status: attempt.status });
+      }
+      const quiz = await storage.getQuiz(attempt.quizId);
+      if (!quiz) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+      res.json(toAttemptResult(attempt, quiz));
+    } catch (error) {
+      handleError(res, error, "Failed to fetch quiz attempt");
+    }
+  });
 
-// Helper for consistent error handling
-const handleError = (res: Response, error: any, message: string) => {
-  console.error(message, error);
-  res.status(500).json({ message, error: error.message });
-};
+  app.post("/api/quiz-attempts/:id/analysis", isAuthenticated, async (req: any, res) => {
+    try {
+      const attempt = await storage.getQuizAttempt(req.params.id);
+      if (!attempt) {
+        return res.status(404).json({ message: "Quiz attempt not found" });
+      }
+      if (!canAccess(req.user, attempt)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (attempt.status === "in_progress") {
+        return res.status(409).json({ message: "This attempt is still in progress", status: attempt.status });
+      }
+      // Analysis is cached on the attempt so re-opening results never re-bills the model
+      if (attempt.analysis) {
+        return res.json({ analysis: attempt.analysis });
+      }
 
-// Configure multer for file uploads
-const upload = multer({
-  storage: multer.memoryStorage(),
-  limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB limit
-  },
-});
+      const quiz = await storage.getQuiz(attempt.quizId);
+      if (!quiz) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+      const topic = await storage.getTopic(quiz.topicId);
+      const { results } = toAttemptResult(attempt, quiz);
+      const analysis = await analyzeQuizPerformance(results, topic?.title ?? quiz.title);
+      await storage.updateQuizAttemptAnalysis(attempt.id, analysis);
+      res.json({ analysis });
+    } catch (error) {
+      handleError(res, error, "Failed to analyze quiz attempt");
+    }
+  });
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  // Auth routes
-  app.get("/api/auth/user", async (req: any, res) => {
-    // Auth middleware removed; return dummy or unauthenticated for now
-    res.json({ message: "Not implemented: auth middleware removed" });
+  // Flashcard review routes
+  app.get("/api/flashcards/due", isAuthenticated, async (req: any, res) => {
+    try {
+      const flashcards = await storage.getDueFlashcards(req.user.id, endOfToday());
+      res.json(flashcards);
+    } catch (error) {
+      handleError(res, error, "Failed to fetch due flashcards");
+    }
   });
 
-  // Topic routes
-  app.post("/api/topics", async (req: any, res) => {
+  app.post("/api/flashcards/:id/review", isAuthenticated, async (req: any, res) => {
     try {
-  // No authentication, use a dummy userId for development
-  const userId = "dev-user";
-      const topicData = insertTopicSchema.parse({ ...req.body, userId });
-      const topic = await storage.createTopic(topicData);
-      await storage.createLearningSession({
-        userId,
-        topicId: topic.id,
-        activityType: "study",
-        xpGained: 10,
-      });
-      await storage.updateUserXP(userId, 10);
-      await storage.updateUserStreak(userId);
-      res.json(topic);
+      const parsed = reviewFlashcardSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Rating must be one of: again, hard, good, easy" });
+      }
+      const flashcard = await storage.getFlashcard(req.params.id);
+      if (!flashcard) {
+        return res.status(404).json({ message: "Flashcard not found" });
+      }
+      if (!canAccess(req.user, flashcard)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      const updated = await storage.updateFlashcardSchedule(
+        flashcard.id,
+        scheduleReview(flashcard, parsed.data.rating),
+      );
+      res.json(updated);
     } catch (error) {
-      handleError(res, error, "Failed to create topic");
+      handleError(res, error, "Failed to review flashcard");
     }
   });
 
-  app.get("/api/topics", async (req: any, res) => {
+  app.patch("/api/flashcards/:id", isAuthenticated, async (req: any, res) => {
     try {
-  // No authentication, use a dummy userId for development
-  const userId = "dev-user";
-      const topics = await storage.getUserTopics(userId);
-      res.json(topics);
+      const parsed = updateFlashcardSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: describeValidationError(parsed.error) });
+      }
+      const flashcard = await loadOwnedFlashcard(req, res, req.params.id);
+      if (!flashcard) return;
+      if (Object.keys(parsed.data).length === 0) {
+        return res.json(flashcard);
+      }
+      const updated = await storage.updateFlashcard(flashcard.id, parsed.data);
+      res.json(updated);
     } catch (error) {
-      handleError(res, error, "Failed to fetch topics");
+      handleError(res, error, "Failed to update flashcard");
     }
   });
-  
+
+  app.delete("/api/flashcards/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const flashcard = await loadOwnedFlashcard(req, res, req.params.id);
+      if (!flashcard) return;
+      await storage.deleteFlashcard(flashcard.id);
+      res.status(204).end();
+    } catch (error) {
+      handleError(res, error, "Failed to delete flashcard");
+    }
+  });
+
   // AI content generation routes
-  app.post("/api/ai/explain", async (req, res) => {
+  app.post("/api/ai/explain", isAuthenticated, async (req, res) => {
     try {
       const { topic, difficulty, context } = req.body;
       if (!topic || !difficulty) {
@@ -88,36 +1371,67 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/ai/quiz", async (req: any, res) => {
+  app.post("/api/ai/explain/stream", isAuthenticated, async (req, res) => {
+    const { topic, difficulty, context } = req.body;
+    if (!topic || !difficulty) {
+      return res.status(400).json({ message: "Topic and difficulty are required" });
+    }
+    const request: ExplanationRequest = { topic, difficulty, context };
+    await streamSse(req, res, (signal) => streamExplanation(request, signal));
+  });
+
+  app.post("/api/ai/quiz", isAuthenticated, async (req: any, res) => {
     try {
-  // No authentication, use a dummy userId for development
-  const userId = "dev-user";
-      const { topic, topicId, questionCount = 5 } = req.body;
-      if (!topic || !topicId) {
-        return res.status(400).json({ message: "Topic and topicId are required" });
+      const userId = req.user.id;
+      const parsed = generateQuizSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: describeValidationError(parsed.error) });
+      }
+      const { topic, topicId, questionCount, draft, timeLimitMinutes } = parsed.data;
+      // Unknown types are dropped; with none left, the quiz mixes every type
+      const requestedTypes = (parsed.data.questionTypes ?? []).filter(
+        (type): type is QuestionType => (questionTypes as readonly string[]).includes(type),
+      );
+      const ownedTopic = await loadOwnedTopic(req, res, topicId);
+      if (!ownedTopic) return;
+      // Once there are attempts to learn from, the quiz targets the student's weak spots
+      const mastery = await loadTopicMastery(userId, ownedTopic);
+      const quizData = await generateQuiz(
+        topic,
+        questionCount,
+        mastery.attempts > 0 ? mastery : undefined,
+        requestedTypes.length > 0 ? requestedTypes : undefined,
+      );
+      // Drafts go to the editor to be reviewed before anything is saved
+      if (draft) {
+        return res.json({ title: `${topic} Quiz`, questions: quizData.questions, mastery });
       }
-      const quizData = await generateQuiz(topic, questionCount);
       const quiz = await storage.createQuiz({
         topicId,
         userId,
         title: `${topic} Quiz`,
         questions: quizData.questions,
+        // Set for exams: every attempt is then timed
+        timeLimitSeconds: timeLimitMinutes ? timeLimitMinutes * 60 : null,
       });
-      res.json({ quiz, questions: quizData.questions });
+      res.json({ quiz: toPublicQuiz(quiz), mastery });
     } catch (error) {
         handleError(res, error, "Failed to generate quiz");
     }
   });
 
-  app.post("/api/ai/flashcards", async (req: any, res) => {
+  app.post("/api/ai/flashcards", isAuthenticated, async (req: any, res) => {
     try {
-  // No authentication, use a dummy userId for development
-  const userId = "dev-user";
+      const userId = req.user.id;
         const { topic, topicId, cardCount = 10 } = req.body;
         if (!topic || !topicId) {
             return res.status(400).json({ message: "Topic and topicId are required" });
         }
+        if (!(await loadOwnedTopic(req, res, topicId))) return;
         const flashcardsData = await generateFlashcards(topic, cardCount);
+        if (req.body.draft === true) {
+            return res.json({ cards: flashcardsData.cards });
+        }
         const savedCards = await Promise.all(
             flashcardsData.cards.map(card => 
                 storage.createFlashcard({ topicId, userId, ...card })
@@ -129,7 +1443,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/ai/interview", async (req, res) => {
+  app.post("/api/ai/interview", isAuthenticated, async (req, res) => {
     try {
       const { role, level = "intermediate" } = req.body;
       if (!role) {
@@ -142,24 +1456,137 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/ai/chat", async (req: any, res) => {
+  app.post("/api/ai/chat", isAuthenticated, async (req: any, res) => {
+    try {
+      const { prompt, history } = req.body;
+      if (!prompt) {
+        return res.status(400).json({ message: "Prompt is required" });
+      }
+      // Stops the model if the student leaves before the reply is ready
+      const controller = new AbortController();
+      res.on("close", () => controller.abort());
+      const passages = await retrievePassages(req.user.id, prompt);
+      const response = await generateChatResponse(prompt, history || [], controller.signal, { passages });
+      res.json({ response, citations: toCitations(passages) });
+    } catch (error) {
+      handleError(res, error, "Failed to get chat response");
+    }
+  });
+
+  app.post("/api/ai/chat/stream", isAuthenticated, async (req: any, res) => {
     try {
       const { prompt, history } = req.body;
       if (!prompt) {
         return res.status(400).json({ message: "Prompt is required" });
       }
-      const response = await generateChatResponse(prompt, history || []);
-      res.json({ response });
+      const passages = await retrievePassages(req.user.id, prompt);
+      await streamSse(req, res, (signal) => streamChatResponse(prompt, history || [], signal, { passages }), {
+        events: { citations: toCitations(passages) },
+      });
     } catch (error) {
       handleError(res, error, "Failed to get chat response");
     }
   });
 
+  // Tutor conversation routes
+  app.get("/api/chat/conversations", isAuthenticated, async (req: any, res) => {
+    try {
+      const conversations = await storage.getUserChatConversations(req.user.id);
+      res.json(conversations);
+    } catch (error) {
+      handleError(res, error, "Failed to fetch conversations");
+    }
+  });
+
+  app.post("/api/chat/conversations", isAuthenticated, async (req: any, res) => {
+    try {
+      const { topicId, title } = createChatConversationSchema.parse(req.body);
+      if (topicId && !(await loadOwnedTopic(req, res, topicId))) return;
+      const conversation = await storage.createChatConversation({
+        userId: req.user.id,
+        topicId,
+        title,
+      });
+      res.status(201).json(conversation);
+    } catch (error) {
+      handleError(res, error, "Failed to create conversation");
+    }
+  });
+
+  app.get("/api/chat/conversations/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const conversation = await loadOwnedConversation(req, res, req.params.id);
+      if (!conversation) return;
+      const topic = conversation.topicId ? await storage.getTopic(conversation.topicId) : undefined;
+      const messages = await storage.getChatMessages(conversation.id);
+      res.json({ ...conversation, topicTitle: topic?.title ?? null, messages });
+    } catch (error) {
+      handleError(res, error, "Failed to fetch conversation");
+    }
+  });
+
+  app.delete("/api/chat/conversations/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const conversation = await loadOwnedConversation(req, res, req.params.id);
+      if (!conversation) return;
+      await storage.deleteChatConversation(conversation.id);
+      res.status(204).end();
+    } catch (error) {
+      handleError(res, error, "Failed to delete conversation");
+    }
+  });
+
+  // Streams the tutor's reply; both sides of the exchange are saved to the conversation
+  app.post("/api/chat/conversations/:id/messages", isAuthenticated, async (req: any, res) => {
+    try {
+      const parsed = sendChatMessageSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Prompt is required" });
+      }
+      const { prompt } = parsed.data;
+      const conversation = await loadOwnedConversation(req, res, req.params.id);
+      if (!conversation) return;
+
+      const topic = conversation.topicId ? await storage.getTopic(conversation.topicId) : undefined;
+      const passages = await retrievePassages(req.user.id, prompt, { topicId: conversation.topicId });
+      const citations = toCitations(passages);
+      const context = {
+        topic: topic && { title: topic.title, difficulty: topic.difficulty, content: topic.content },
+        passages,
+      };
+      const history = toChatHistory(await storage.getChatMessages(conversation.id));
+
+      await storage.addChatMessage({ conversationId: conversation.id, role: "user", content: prompt });
+      if (!conversation.title) {
+        await storage.renameChatConversation(conversation.id, prompt.slice(0, 80));
+      }
+
+      // streamSse reports generation failures over the stream itself
+      await streamSse(
+        req,
+        res,
+        (signal) => streamChatResponse(prompt, history, signal, context),
+        {
+          events: { citations },
+          onComplete: async (reply) => {
+            await storage.addChatMessage({
+              conversationId: conversation.id,
+              role: "model",
+              content: reply,
+              citations,
+            });
+          },
+        },
+      );
+    } catch (error) {
+      handleError(res, error, "Failed to send message");
+    }
+  });
+
   // Social feed routes
-  app.get("/api/feed", async (req: any, res) => {
+  app.get("/api/feed", isAuthenticated, async (req: any, res) => {
     try {
-  // No authentication, use a dummy userId for development
-  const userId = "dev-user";
+      const userId = req.user.id;
       const limit = parseInt(req.query.limit as string) || 20;
       const posts = await storage.getFeedPosts(userId, limit);
       res.json(posts);
@@ -168,10 +1595,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/posts", async (req: any, res) => {
+  app.post("/api/posts", isAuthenticated, async (req: any, res) => {
     try {
-  // No authentication, use a dummy userId for development
-  const userId = "dev-user";
+      const userId = req.user.id;
       const postData = insertPostSchema.parse({ ...req.body, userId });
       const post = await storage.createPost(postData);
       res.json(post);
@@ -180,10 +1606,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/posts/:id/like", async (req: any, res) => {
+  app.delete("/api/posts/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const post = await storage.getPost(req.params.id);
+      if (!post) {
+        return res.status(404).json({ message: "Post not found" });
+      }
+      if (!canAccess(req.user, post)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      await storage.deletePost(post.id);
+      res.json({ success: true });
+    } catch (error) {
+      handleError(res, error, "Failed to delete post");
+    }
+  });
+
+  app.post("/api/posts/:id/like", isAuthenticated, async (req: any, res) => {
         try {
-            // No authentication, use a dummy userId for development
-            const userId = "dev-user";
+            const userId = req.user.id;
             await storage.togglePostLike(req.params.id, userId);
             res.json({ success: true });
         } catch (error) {
@@ -191,11 +1632,376 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
     });
 
+  // Study group routes
+  app.get("/api/study-groups", isAuthenticated, async (req: any, res) => {
+    try {
+      const groups = await storage.getStudyGroups(req.user.id);
+      const nextSessions = await loadNextSessions(groups.map((group) => group.id));
+      res.json(groups.map((group) => ({ ...group, nextSession: nextSessions.get(group.id) ?? null })));
+    } catch (error) {
+      handleError(res, error, "Failed to fetch study groups");
+    }
+  });
+
+  app.post("/api/study-groups", isAuthenticated, async (req: any, res) => {
+    try {
+      const parsed = createStudyGroupSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: describeValidationError(parsed.error) });
+      }
+      const group = await storage.createStudyGroup({ ...parsed.data, creatorId: req.user.id });
+      res.status(201).json(group);
+    } catch (error) {
+      handleError(res, error, "Failed to create study group");
+    }
+  });
+
+  app.get("/api/study-groups/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const group = await loadStudyGroup(res, req.params.id);
+      if (!group) return;
+      const members = await storage.getStudyGroupMembers(group.id);
+      const myRole = members.find((member) => member.id === req.user.id)?.role ?? null;
+      const nextSessions = await loadNextSessions([group.id]);
+      res.json({ ...group, members, myRole, nextSession: nextSessions.get(group.id) ?? null });
+    } catch (error) {
+      handleError(res, error, "Failed to fetch study group");
+    }
+  });
+
+  app.post("/api/study-groups/:id/join", isAuthenticated, async (req: any, res) => {
+    try {
+      const group = await loadStudyGroup(res, req.params.id);
+      if (!group) return;
+      const joined = await storage.joinStudyGroup(group.id, req.user.id);
+      res.json({ joined });
+    } catch (error) {
+      handleError(res, error, "Failed to join study group");
+    }
+  });
+
+  app.post("/api/study-groups/:id/leave", isAuthenticated, async (req: any, res) => {
+    try {
+      const group = await loadStudyGroup(res, req.params.id);
+      if (!group) return;
+      const left = await storage.removeStudyGroupMember(group.id, req.user.id);
+      if (!left) {
+        return res.status(404).json({ message: "You are not a member of this group" });
+      }
+      removeFromGroupChat(group.id, req.user.id);
+      removeFromQuizBattle(group.id, req.user.id);
+      res.status(204).end();
+    } catch (error) {
+      handleError(res, error, "Failed to leave study group");
+    }
+  });
+
+  app.delete("/api/study-groups/:id/members/:userId", isAuthenticated, async (req: any, res) => {
+    try {
+      const group = await loadStudyGroup(res, req.params.id);
+      if (!group) return;
+      if (!(await requireGroupAdmin(req, res, group.id))) return;
+      const member = await storage.getStudyGroupMember(group.id, req.params.userId);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      // Group admins can't remove each other; only a platform admin can
+      if (member.role === "admin" && member.userId !== req.user.id && req.user.role !== "admin") {
+        return res.status(403).json({ message: "Group admins can't be removed by other members" });
+      }
+      await storage.removeStudyGroupMember(group.id, member.userId);
+      removeFromGroupChat(group.id, member.userId);
+      removeFromQuizBattle(group.id, member.userId);
+      res.status(204).end();
+    } catch (error) {
+      handleError(res, error, "Failed to remove member");
+    }
+  });
+
+  // Older chat history; the latest page arrives over the WebSocket when the chat is opened
+  app.get("/api/study-groups/:id/messages", isAuthenticated, async (req: any, res) => {
+    try {
+      const group = await loadStudyGroup(res, req.params.id);
+      if (!group) return;
+      if (!(await storage.getStudyGroupMember(group.id, req.user.id))) {
+        return res.status(403).json({ message: "Join the group to read its chat" });
+      }
+      const before = typeof req.query.before === "string" ? req.query.before : undefined;
+      const page = await storage.getGroupMessages(group.id, GROUP_CHAT_PAGE_SIZE + 1, before);
+      res.json({
+        messages: page.slice(0, GROUP_CHAT_PAGE_SIZE).reverse(),
+        hasMore: page.length > GROUP_CHAT_PAGE_SIZE,
+      });
+    } catch (error) {
+      handleError(res, error, "Failed to fetch messages");
+    }
+  });
+
+  app.post("/api/study-groups/:id/members/:userId/promote", isAuthenticated, async (req: any, res) => {
+    try {
+      const group = await loadStudyGroup(res, req.params.id);
+      if (!group) return;
+      if (!(await requireGroupAdmin(req, res, group.id))) return;
+      const member = await storage.setStudyGroupMemberRole(group.id, req.params.userId, "admin");
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      res.json(member);
+    } catch (error) {
+      handleError(res, error, "Failed to promote member");
+    }
+  });
+
+  // Group session routes
+  app.get("/api/study-groups/:id/sessions", isAuthenticated, async (req: any, res) => {
+    try {
+      const group = await loadStudyGroup(res, req.params.id);
+      if (!group) return;
+      const from = req.query.from ? new Date(req.query.from) : new Date();
+      const to = req.query.to ? new Date(req.query.to) : new Date(from.getTime() + 31 * 24 * 60 * 60 * 1000);
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || to <= from) {
+        return res.status(400).json({ message: "from and to must be dates, with from before to" });
+      }
+      if (to.getTime() - from.getTime() > MAX_SCHEDULE_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+        return res.status(400).json({ message: `Ask for at most ${MAX_SCHEDULE_RANGE_DAYS} days at a time` });
+      }
+      const sessions = await storage.getGroupSessions([group.id]);
+      res.json(await loadSessionOccurrences(sessions, req.user.id, from, to));
+    } catch (error) {
+      handleError(res, error, "Failed to fetch sessions");
+    }
+  });
+
+  app.post("/api/study-groups/:id/sessions", isAuthenticated, async (req: any, res) => {
+    try {
+      const group = await loadStudyGroup(res, req.params.id);
+      if (!group) return;
+      if (!(await requireGroupAdmin(req, res, group.id))) return;
+      const parsed = groupSessionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: describeValidationError(parsed.error) });
+      }
+      const session = await storage.createGroupSession({
+        ...(toSessionColumns(parsed.data) as InsertGroupSession),
+        groupId: group.id,
+        createdBy: req.user.id,
+      });
+      res.status(201).json(session);
+    } catch (error) {
+      handleError(res, error, "Failed to schedule session");
+    }
+  });
+
+  app.patch("/api/group-sessions/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const loaded = await loadGroupSession(res, req.params.id);
+      if (!loaded) return;
+      if (!(await requireGroupAdmin(req, res, loaded.group.id))) return;
+      const parsed = updateGroupSessionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: describeValidationError(parsed.error) });
+      }
+      if (Object.keys(parsed.data).length === 0) {
+        return res.json(loaded.session);
+      }
+      const session = await storage.updateGroupSession(
+        loaded.session.id,
+        toSessionColumns(parsed.data, loaded.session),
+      );
+      res.json(session);
+    } catch (error) {
+      handleError(res, error, "Failed to update session");
+    }
+  });
+
+  app.delete("/api/group-sessions/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const loaded = await loadGroupSession(res, req.params.id);
+      if (!loaded) return;
+      if (!(await requireGroupAdmin(req, res, loaded.group.id))) return;
+      await storage.deleteGroupSession(loaded.session.id);
+      res.status(204).end();
+    } catch (error) {
+      handleError(res, error, "Failed to delete session");
+    }
+  });
+
+  app.put("/api/group-sessions/:id/rsvp", isAuthenticated, async (req: any, res) => {
+    try {
+      const loaded = await loadGroupSession(res, req.params.id);
+      if (!loaded) return;
+      if (!(await storage.getStudyGroupMember(loaded.group.id, req.user.id))) {
+        return res.status(403).json({ message: "Join the group to reply to its sessions" });
+      }
+      const parsed = sessionRsvpSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: describeValidationError(parsed.error) });
+      }
+      if (!isOccurrence(loaded.session, parsed.data.occurrence)) {
+        return res.status(400).json({ message: "The session doesn't take place at that time" });
+      }
+      const rsvp = await storage.setSessionRsvp({
+        sessionId: loaded.session.id,
+        userId: req.user.id,
+        occurrenceStart: parsed.data.occurrence,
+        status: parsed.data.status,
+      });
+      res.json(rsvp);
+    } catch (error) {
+      handleError(res, error, "Failed to save reply");
+    }
+  });
+
+  // Shared group resources
+  app.get("/api/study-groups/:id/resources", isAuthenticated, async (req: any, res) => {
+    try {
+      const group = await loadStudyGroup(res, req.params.id);
+      if (!group) return;
+      if (req.user.role !== "admin" && !(await storage.getStudyGroupMember(group.id, req.user.id))) {
+        return res.status(403).json({ message: "Join the group to see what its members share" });
+      }
+      res.json(await loadSharedResources(group.id, req.user.id));
+    } catch (error) {
+      handleError(res, error, "Failed to fetch shared resources");
+    }
+  });
+
+  // Members share their own topics, flashcard decks and quizzes
+  app.post("/api/study-groups/:id/resources", isAuthenticated, async (req: any, res) => {
+    try {
+      const group = await loadStudyGroup(res, req.params.id);
+      if (!group) return;
+      if (!(await storage.getStudyGroupMember(group.id, req.user.id))) {
+        return res.status(403).json({ message: "Join the group to share with it" });
+      }
+      const parsed = shareGroupResourceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: describeValidationError(parsed.error) });
+      }
+      const { kind, id, note } = parsed.data;
+      if (kind === "quiz") {
+        if (!(await loadOwnedQuiz(req, res, id))) return;
+      } else if (!(await loadOwnedTopic(req, res, id))) {
+        return;
+      }
+      const shared = await storage.shareGroupResource({
+        groupId: group.id,
+        sharedBy: req.user.id,
+        kind,
+        topicId: kind === "quiz" ? null : id,
+        quizId: kind === "quiz" ? id : null,
+        note: note || null,
+      });
+      if (!shared) {
+        return res.status(409).json({ message: "This is already shared with the group" });
+      }
+      res.status(201).json(shared);
+    } catch (error) {
+      handleError(res, error, "Failed to share with the group");
+    }
+  });
+
+  // Whoever shared it, or a group admin, can take it down; members keep their copies
+  app.delete("/api/study-groups/:id/resources/:resourceId", isAuthenticated, async (req: any, res) => {
+    try {
+      const group = await loadStudyGroup(res, req.params.id);
+      if (!group) return;
+      const resource = await storage.getGroupResource(req.params.resourceId);
+      if (!resource || resource.groupId !== group.id) {
+        return res.status(404).json({ message: "Shared resource not found" });
+      }
+      if (resource.sharedBy !== req.user.id && !(await requireGroupAdmin(req, res, group.id))) return;
+      await storage.deleteGroupResource(resource.id);
+      res.status(204).end();
+    } catch (error) {
+      handleError(res, error, "Failed to remove shared resource");
+    }
+  });
+
+  // Copies shared material into the member's own library, or finds the copy made before.
+  // Responds 201 when something new was copied.
+  app.post("/api/group-resources/:id/fork", isAuthenticated, async (req: any, res) => {
+    try {
+      const resource = await storage.getGroupResource(req.params.id);
+      if (!resource) {
+        return res.status(404).json({ message: "Shared resource not found" });
+      }
+      const group = await loadStudyGroup(res, resource.groupId);
+      if (!group) return;
+      if (!(await storage.getStudyGroupMember(group.id, req.user.id))) {
+        return res.status(403).json({ message: "Join the group to copy what its members share" });
+      }
+      switch (resource.kind) {
+        case "topic": {
+          const { topic, created } = await storage.forkTopic(resource.topicId!, req.user.id);
+          return res.status(created ? 201 : 200).json({ kind: resource.kind, topicId: topic.id, created });
+        }
+        case "deck": {
+          const { topic, added } = await storage.forkDeck(resource.topicId!, req.user.id);
+          return res.status(added > 0 ? 201 : 200).json({ kind: resource.kind, topicId: topic.id, created: added > 0, added });
+        }
+        case "quiz": {
+          const { quiz, created } = await storage.forkQuiz(resource.quizId!, req.user.id);
+          return res
+            .status(created ? 201 : 200)
+            .json({ kind: resource.kind, topicId: quiz.topicId, quizId: quiz.id, created });
+        }
+      }
+    } catch (error) {
+      handleError(res, error, "Failed to copy shared resource");
+    }
+  });
+
+  // Calendar subscription links for the current user: all their groups, or one of them
+  app.get("/api/calendar/feed", isAuthenticated, async (req: any, res) => {
+    try {
+      const token = await ensureCalendarToken(req.user);
+      const groupId = typeof req.query.groupId === "string" ? req.query.groupId : undefined;
+      res.json({ url: calendarFeedUrl(req, token, groupId) });
+    } catch (error) {
+      handleError(res, error, "Failed to fetch calendar feed");
+    }
+  });
+
+  // Invalidates links shared by mistake; existing subscriptions stop updating
+  app.post("/api/calendar/feed/reset", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.setCalendarToken(req.user.id, randomBytes(24).toString("base64url"));
+      res.json({ url: calendarFeedUrl(req, user.calendarToken!) });
+    } catch (error) {
+      handleError(res, error, "Failed to reset calendar feed");
+    }
+  });
+
+  app.get("/api/calendar/:token.ics", async (req, res) => {
+    try {
+      const user = await storage.getUserByCalendarToken(req.params.token);
+      if (!user) {
+        return res.status(404).json({ message: "Calendar not found" });
+      }
+      await sendCalendar(req, res, "Study sessions", await storage.getUserStudyGroups(user.id));
+    } catch (error) {
+      handleError(res, error, "Failed to build calendar");
+    }
+  });
+
+  app.get("/api/calendar/:token/:groupId.ics", async (req, res) => {
+    try {
+      const user = await storage.getUserByCalendarToken(req.params.token);
+      const group = user && (await storage.getStudyGroup(req.params.groupId));
+      if (!user || !group?.isActive || !(await storage.getStudyGroupMember(group.id, user.id))) {
+        return res.status(404).json({ message: "Calendar not found" });
+      }
+      await sendCalendar(req, res, group.name, [group]);
+    } catch (error) {
+      handleError(res, error, "Failed to build calendar");
+    }
+  });
+
   // User progress routes
-  app.get("/api/user/achievements", async (req: any, res) => {
+  app.get("/api/user/achievements", isAuthenticated, async (req: any, res) => {
     try {
-  // No authentication, use a dummy userId for development
-  const userId = "dev-user";
+      const userId = req.user.id;
         const achievements = await storage.getUserAchievements(userId);
         res.json(achievements);
     } catch (error) {
@@ -203,15 +2009,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Admin routes
+  app.patch("/api/admin/users/:id/role", requireRole("admin"), async (req: any, res) => {
+    try {
+      const { role } = req.body;
+      if (!userRoles.includes(role)) {
+        return res.status(400).json({ message: `Role must be one of: ${userRoles.join(", ")}` });
+      }
+      const user = await storage.updateUserRole(req.params.id, role);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(sanitizeUser(user));
+    } catch (error) {
+      handleError(res, error, "Failed to update user role");
+    }
+  });
+
   // Create HTTP server
-  const httpServer = createServer(app);
+  startExpirySweep();
+  // Session times groups had before scheduling existed become one-off sessions
+  storage
+    .carryOverLegacyGroupSessions()
+    .catch((error) => console.error("Failed to carry over legacy study group sessions", error));
 
-  // Setup WebSocket server
-  const wss = new WebSocketServer({ server: httpServer, path: "/ws" });
+  const httpServer = createServer(app);
 
-  wss.on("connection", (ws) => {
-    console.log("WebSocket client connected");
-    ws.on("close", () => console.log("WebSocket client disconnected"));
+  // Real-time features share the /ws WebSocket; messages go to a feature by their type prefix
+  setupRealtime(httpServer, {
+    message: (client, message) =>
+      isQuizBattleMessage(message) ? handleQuizBattleMessage(client, message) : handleGroupChatMessage(client, message),
+    disconnect: (client, rooms) => {
+      handleGroupChatDisconnect(client, rooms);
+      handleQuizBattleDisconnect(client, rooms);
+    },
   });
 
   return httpServer;
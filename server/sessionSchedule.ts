@@ -0,0 +1,159 @@
+// When study group sessions happen. A session starts at `startsAt` and may repeat by an
+// RRULE. Rules are expanded on the wall-clock time in the session's own time zone, so a
+// weekly 7pm session stays at 7pm local time across daylight-saving changes.
+import * as rruleModule from "rrule";
+import type { GroupSession } from "@shared/schema";
+
+// rrule ships CommonJS to Node, where its exports only exist on the default import
+const { RRule } = (rruleModule as unknown as { default?: typeof rruleModule }).default ?? rruleModule;
+
+// Longest window a calendar may ask for at once
+export const MAX_SCHEDULE_RANGE_DAYS = 366;
+
+// The recurrence rule or start time can't be used; surfaced to clients as a 400
+export class ScheduleError extends Error {
+  readonly status = 400;
+  readonly code = "INVALID_SCHEDULE";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ScheduleError";
+  }
+}
+
+export type SessionSchedule = Pick<GroupSession, "startsAt" | "durationMinutes" | "timeZone" | "recurrence">;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// The wall-clock time `timeZone` shows at `instant`, as a "floating" Date whose UTC fields hold it
+export function toWallClock(instant: Date, timeZone: string): Date {
+  const parts = formatterFor(timeZone).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+  return new Date(
+    Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second")),
+  );
+}
+
+// The instant at which `timeZone` shows the floating time `wallClock`. As in RFC 5545, a time
+// shown twice (clocks going back) is the first of the two, and a time skipped (clocks going
+// forward) is read with the offset from before the jump.
+export function fromWallClock(wallClock: Date, timeZone: string): Date {
+  const time = wallClock.getTime();
+  const day = 24 * 60 * 60 * 1000;
+  const offsetAt = (instant: number) => toWallClock(new Date(instant), timeZone).getTime() - instant;
+  const candidates = [offsetAt(time - day), offsetAt(time + day)].map((offset) => time - offset);
+  const valid = candidates.filter((instant) => toWallClock(new Date(instant), timeZone).getTime() === time);
+  return new Date(valid.length > 0 ? Math.min(...valid) : candidates[0]);
+}
+
+// "2026-10-20T19:00" as a floating Date
+export function parseWallClock(value: string): Date {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/.exec(value);
+  if (!match) {
+    throw new ScheduleError("Start time must look like 2026-10-20T19:00");
+  }
+  const [, year, month, day, hour, minute] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day, hour, minute));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day || hour > 23 || minute > 59) {
+    throw new ScheduleError(`${value} is not a valid date and time`);
+  }
+  return date;
+}
+
+// "2026-10-20T19:00" for a floating Date; the inverse of parseWallClock
+export const formatWallClock = (wallClock: Date) => wallClock.toISOString().slice(0, 16);
+
+// Checks an RRULE and stores it in canonical form. An UNTIL without a trailing Z is read
+// as wall-clock time in `timeZone` and converted to UTC, as RFC 5545 wants when DTSTART has
+// a time zone. Sub-daily frequencies aren't study sessions and are rejected.
+export function normalizeRecurrence(rule: string, timeZone: string): string {
+  const text = rule.trim().replace(/^RRULE:/i, "");
+  let options;
+  try {
+    options = RRule.parseString(text);
+  } catch (error) {
+    throw new ScheduleError(`Invalid recurrence rule: ${(error as Error).message}`);
+  }
+  if (options.dtstart || options.tzid) {
+    throw new ScheduleError("Recurrence rules take their start and time zone from the session");
+  }
+  if (options.freq === undefined || options.freq > RRule.DAILY) {
+    throw new ScheduleError("Sessions can repeat daily, weekly, monthly or yearly");
+  }
+  if (options.count && options.until) {
+    throw new ScheduleError("A recurrence rule can't have both COUNT and UNTIL");
+  }
+  if (options.until && !/UNTIL=[0-9T]+Z/i.test(text)) {
+    options.until = fromWallClock(options.until, timeZone);
+  }
+  return RRule.optionsToString(options).replace(/^RRULE:/, "");
+}
+
+const ruleFor = (schedule: SessionSchedule) => {
+  const options = RRule.parseString(schedule.recurrence!);
+  return new RRule({
+    ...options,
+    dtstart: toWallClock(schedule.startsAt, schedule.timeZone),
+    until: options.until ? toWallClock(options.until, schedule.timeZone) : null,
+  });
+};
+
+// Start times of the occurrences that overlap [from, to), oldest first
+export function occurrencesBetween(schedule: SessionSchedule, from: Date, to: Date): Date[] {
+  const earliestStart = from.getTime() - schedule.durationMinutes * 60 * 1000;
+  const overlaps = (start: Date) => start.getTime() > earliestStart && start.getTime() < to.getTime();
+  if (!schedule.recurrence) {
+    return overlaps(schedule.startsAt) ? [schedule.startsAt] : [];
+  }
+  // Widen by a day on each side: floating times are up to 14 hours off from UTC
+  const day = 24 * 60 * 60 * 1000;
+  return ruleFor(schedule)
+    .between(
+      toWallClock(new Date(earliestStart - day), schedule.timeZone),
+      toWallClock(new Date(to.getTime() + day), schedule.timeZone),
+      true,
+    )
+    .map((wallClock) => fromWallClock(wallClock, schedule.timeZone))
+    .filter(overlaps);
+}
+
+// The first occurrence starting at or after `after`, if the session still has one
+export function nextOccurrence(schedule: SessionSchedule, after: Date = new Date()): Date | null {
+  if (!schedule.recurrence) {
+    return schedule.startsAt >= after ? schedule.startsAt : null;
+  }
+  // Start a day early, as floating times can be up to 14 hours off from the real ones
+  let cursor = toWallClock(new Date(after.getTime() - 24 * 60 * 60 * 1000), schedule.timeZone);
+  const rule = ruleFor(schedule);
+  for (let wallClock = rule.after(cursor, true); wallClock; wallClock = rule.after(cursor)) {
+    const start = fromWallClock(wallClock, schedule.timeZone);
+    if (start >= after) return start;
+    cursor = wallClock;
+  }
+  return null;
+}
+
+// Whether `start` is when one of the session's occurrences begins
+export function isOccurrence(schedule: SessionSchedule, start: Date): boolean {
+  return occurrencesBetween(schedule, start, new Date(start.getTime() + 1)).some(
+    (occurrence) => occurrence.getTime() === start.getTime(),
+  );
+}
@@ -0,0 +1,67 @@
+import type { Flashcard, ReviewRating } from "@shared/schema";
+
+// SM-2 response quality for each button the student can press
+const RATING_QUALITY: Record<ReviewRating, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+const MIN_EASE = 130;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReviewSchedule {
+  difficulty: number;
+  ease: number;
+  interval: number;
+  repetitions: number;
+  nextReview: Date;
+  lastReviewedAt: Date;
+}
+
+export function scheduleReview(
+  card: Pick<Flashcard, "ease" | "interval" | "repetitions">,
+  rating: ReviewRating,
+  now: Date = new Date(),
+): ReviewSchedule {
+  const quality = RATING_QUALITY[rating];
+  const previousEase = card.ease ?? 250;
+  const previousInterval = card.interval ?? 0;
+  let repetitions = card.repetitions ?? 0;
+  let interval: number;
+
+  if (quality < 3) {
+    // Lapsed: start the card over
+    repetitions = 0;
+    interval = 1;
+  } else {
+    if (repetitions === 0) {
+      interval = rating === "easy" ? 4 : 1;
+    } else if (repetitions === 1) {
+      interval = 6;
+    } else {
+      interval = Math.round(previousInterval * (previousEase / 100));
+    }
+    repetitions += 1;
+  }
+
+  // EF' = EF + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)), kept in hundredths
+  const delta = 10 - (5 - quality) * (8 + (5 - quality) * 2);
+  const ease = Math.max(MIN_EASE, previousEase + delta);
+
+  return {
+    difficulty: Object.keys(RATING_QUALITY).indexOf(rating),
+    ease,
+    interval,
+    repetitions,
+    nextReview: new Date(now.getTime() + interval * DAY_MS),
+    lastReviewedAt: now,
+  };
+}
+
+export function endOfToday(now: Date = new Date()) {
+  const end = new Date(now);
+  end.setHours(23, 59, 59, 999);
+  return end;
+}
@@ -0,0 +1,56 @@
+import type { Request, Response } from "express";
+
+export interface SseOptions {
+  // Named events sent before the first token, e.g. { citations: [...] }
+  events?: Record<string, unknown>;
+  // Runs with the full text once generation finishes, before `done` is sent
+  onComplete?: (fullText: string) => Promise<void> | void;
+}
+
+// Pipes an async stream of text to the client as Server-Sent Events:
+//   event: <name>           for each of `options.events`, up front
+//   data: {"token":"..."}   for each fragment
+//   event: done             once the stream finishes
+//   event: error            if generation fails part-way
+// The AbortSignal passed to `produce` fires when the client disconnects.
+export async function streamSse(
+  req: Request,
+  res: Response,
+  produce: (signal: AbortSignal) => AsyncIterable<string>,
+  options: SseOptions = {},
+) {
+  const controller = new AbortController();
+  res.on("close", () => controller.abort());
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  for (const [event, data] of Object.entries(options.events ?? {})) {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  let fullText = "";
+  try {
+    for await (const token of produce(controller.signal)) {
+      if (controller.signal.aborted) break;
+      fullText += token;
+      res.write(`data: ${JSON.stringify({ token })}\n\n`);
+    }
+    if (!controller.signal.aborted) {
+      await options.onComplete?.(fullText);
+      res.write(`event: done\ndata: {}\n\n`);
+    }
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      console.error(`Streaming ${req.path} failed:`, error);
+      res.write(`event: error\ndata: ${JSON.stringify({ message: "Generation failed" })}\n\n`);
+    }
+  } finally {
+    res.end();
+  }
+}
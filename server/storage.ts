@@ -1,57 +1,169 @@
 import {
   users,
   topics,
+  topicVersions,
+  learningPaths,
+  learningPathSteps,
   quizzes,
   quizAttempts,
   flashcards,
   studyGroups,
   studyGroupMembers,
+  groupMessages,
+  groupSessions,
+  sessionRsvps,
+  groupResources,
   posts,
   postLikes,
   postComments,
   achievements,
   learningSessions,
+  topicChunks,
+  chatConversations,
+  chatMessages,
   type User,
   type UpsertUser,
+  type UserRole,
   type Topic,
   type InsertTopic,
+  type TopicVersion,
+  type LearningPath,
+  type LearningPathStep,
   type Quiz,
   type InsertQuiz,
   type QuizAttempt,
+  type AttemptStatus,
   type Flashcard,
+  type InsertFlashcard,
   type StudyGroup,
   type InsertStudyGroup,
+  type StudyGroupMember,
+  type GroupMemberRole,
+  type PublicUser,
+  type GroupMessage,
+  type GroupChatMessage,
+  type GroupSession,
+  type InsertGroupSession,
+  type SessionRsvp,
+  type RsvpStatus,
+  type GroupResource,
+  type InsertGroupResource,
   type Post,
   type InsertPost,
   type Achievement,
   type LearningSession,
+  type TopicChunk,
+  type InsertTopicChunk,
+  type ChatConversation,
+  type ChatMessage,
+  type ChatRole,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, gte, sql, count } from "drizzle-orm";
+import type { ReviewSchedule } from "./spacedRepetition";
+import {
+  eq,
+  desc,
+  and,
+  gte,
+  lte,
+  lt,
+  sql,
+  count,
+  avg,
+  isNotNull,
+  isNull,
+  ne,
+  arrayOverlaps,
+  inArray,
+  max,
+  getTableColumns,
+  or,
+} from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
 
 export interface IStorage {
-  // User operations (mandatory for Replit Auth)
+  // User operations
   getUser(id: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  getUserByGoogleId(googleId: string): Promise<User | undefined>;
+  createUser(user: UpsertUser): Promise<User>;
   upsertUser(user: UpsertUser): Promise<User>;
+  updateUserRole(id: string, role: UserRole): Promise<User | undefined>;
+  getUserByCalendarToken(token: string): Promise<User | undefined>;
+  setCalendarToken(userId: string, token: string): Promise<User>;
   
   // Topic operations
   createTopic(topic: InsertTopic): Promise<Topic>;
   getUserTopics(userId: string): Promise<Topic[]>;
   getTopic(id: string): Promise<Topic | undefined>;
-  updateTopicProgress(id: string, progress: number): Promise<void>;
+  updateTopic(
+    id: string,
+    updates: Partial<InsertTopic> & { readSections?: number[] },
+  ): Promise<Topic>;
+  updateTopicProgress(id: string, progress: number, readSections: number[]): Promise<Topic>;
+  deleteTopic(id: string): Promise<void>;
+  createTopicVersion(version: {
+    topicId: string;
+    difficulty: string;
+    content: string;
+    aiGenerated?: boolean;
+  }): Promise<TopicVersion>;
+  getTopicVersions(topicId: string): Promise<TopicVersion[]>;
+  getTopicVersion(id: string): Promise<TopicVersion | undefined>;
+  
+  // Learning path operations
+  createLearningPath(
+    path: { userId: string; goal: string; title: string; description?: string | null },
+    steps: { title: string; description: string; difficulty: string; prerequisites: number[] }[],
+  ): Promise<LearningPath>;
+  getUserLearningPaths(userId: string): Promise<LearningPath[]>;
+  getLearningPath(id: string): Promise<LearningPath | undefined>;
+  getLearningPathSteps(pathId: string): Promise<{ step: LearningPathStep; topic: Topic }[]>;
+  deleteLearningPath(id: string): Promise<void>;
   
   // Quiz operations
   createQuiz(quiz: InsertQuiz): Promise<Quiz>;
   getTopicQuizzes(topicId: string): Promise<Quiz[]>;
+  getUserQuizzes(userId: string): Promise<Quiz[]>;
   getQuiz(id: string): Promise<Quiz | undefined>;
+  updateQuiz(id: string, updates: Partial<Pick<InsertQuiz, "title" | "questions" | "timeLimitSeconds">>): Promise<Quiz>;
+  deleteQuiz(id: string): Promise<void>;
   submitQuizAttempt(attempt: {
     quizId: string;
     userId: string;
     score: number;
     totalQuestions: number;
     answers: any;
+    questions: any;
+    shortAnswerGrades?: any;
   }): Promise<QuizAttempt>;
+  startQuizAttempt(attempt: {
+    quizId: string;
+    userId: string;
+    totalQuestions: number;
+    answers: any;
+    questions: any;
+    deadline: Date | null;
+  }): Promise<QuizAttempt | undefined>;
+  getInProgressQuizAttempt(quizId: string, userId: string): Promise<QuizAttempt | undefined>;
+  saveQuizAttemptAnswers(id: string, answers: any): Promise<QuizAttempt | undefined>;
+  claimQuizAttempt(
+    id: string,
+    result: { status: Exclude<AttemptStatus, "in_progress">; answers: any },
+  ): Promise<QuizAttempt | undefined>;
+  gradeQuizAttempt(id: string, grade: { score: number; shortAnswerGrades: any }): Promise<QuizAttempt>;
+  reopenQuizAttempt(id: string): Promise<void>;
+  getOverdueQuizAttempts(before: Date): Promise<QuizAttempt[]>;
   getUserQuizAttempts(userId: string): Promise<QuizAttempt[]>;
+  getQuizAttempts(quizId: string, userId: string): Promise<QuizAttempt[]>;
+  getQuizAttempt(id: string): Promise<QuizAttempt | undefined>;
+  getBestQuizScores(userId: string, topicIds: string[]): Promise<Record<string, number>>;
+  getTopicQuizHistory(
+    userId: string,
+    topicId: string,
+    limit: number,
+  ): Promise<{ questions: unknown; answers: unknown; shortAnswerGrades: unknown }[]>;
+  updateQuizAttemptAnalysis(id: string, analysis: string): Promise<QuizAttempt>;
   
   // Flashcard operations
   createFlashcard(flashcard: {
@@ -61,9 +173,41 @@ export interface IStorage {
     back: string;
   }): Promise<Flashcard>;
   getTopicFlashcards(topicId: string): Promise<Flashcard[]>;
+  createFlashcards(flashcards: InsertFlashcard[]): Promise<Flashcard[]>;
+  getFlashcard(id: string): Promise<Flashcard | undefined>;
+  updateFlashcard(id: string, updates: { front?: string; back?: string }): Promise<Flashcard>;
+  deleteFlashcard(id: string): Promise<void>;
+  getDueFlashcards(userId: string, dueBefore: Date): Promise<(Flashcard & { topicTitle: string })[]>;
+  updateFlashcardSchedule(id: string, schedule: ReviewSchedule): Promise<Flashcard>;
+  
+  // Retrieval index operations
+  replaceTopicChunks(topicId: string, source: string | null, chunks: InsertTopicChunk[]): Promise<void>;
+  getUnindexedTopics(userId: string): Promise<Topic[]>;
+  searchTopicChunks(userId: string, terms: string[]): Promise<(TopicChunk & { topicTitle: string })[]>;
+  getTopicChunkStats(userId: string): Promise<{ chunkCount: number; averageLength: number }>;
+  
+  // Tutor conversation operations
+  createChatConversation(conversation: {
+    userId: string;
+    topicId?: string | null;
+    title?: string | null;
+  }): Promise<ChatConversation>;
+  getUserChatConversations(userId: string): Promise<(ChatConversation & { topicTitle: string | null })[]>;
+  getChatConversation(id: string): Promise<ChatConversation | undefined>;
+  renameChatConversation(id: string, title: string): Promise<void>;
+  deleteChatConversation(id: string): Promise<void>;
+  getChatMessages(conversationId: string): Promise<ChatMessage[]>;
+  addChatMessage(message: {
+    conversationId: string;
+    role: ChatRole;
+    content: string;
+    citations?: unknown;
+  }): Promise<ChatMessage>;
   
   // Social operations
   createPost(post: InsertPost): Promise<Post>;
+  getPost(id: string): Promise<Post | undefined>;
+  deletePost(id: string): Promise<void>;
   createRepost(originalPostId: string, userId: string): Promise<Post>;
   getFeedPosts(userId: string, limit?: number): Promise<(Post & { user: User; likeCount: number; commentCount: number; isLiked?: boolean })[]>;
   togglePostLike(postId: string, userId: string): Promise<void>;
@@ -75,8 +219,38 @@ export interface IStorage {
   
   // Study group operations
   createStudyGroup(group: InsertStudyGroup): Promise<StudyGroup>;
-  getStudyGroups(): Promise<(StudyGroup & { creator: User; memberCount: number })[]>;
-  joinStudyGroup(groupId: string, userId: string): Promise<void>;
+  getStudyGroups(viewerId: string): Promise<(StudyGroup & { creator: PublicUser; myRole: GroupMemberRole | null })[]>;
+  getStudyGroup(id: string): Promise<StudyGroup | undefined>;
+  getStudyGroupMembers(groupId: string): Promise<(PublicUser & { role: GroupMemberRole; joinedAt: Date | null })[]>;
+  getStudyGroupMember(groupId: string, userId: string): Promise<StudyGroupMember | undefined>;
+  joinStudyGroup(groupId: string, userId: string): Promise<boolean>;
+  removeStudyGroupMember(groupId: string, userId: string): Promise<boolean>;
+  setStudyGroupMemberRole(groupId: string, userId: string, role: GroupMemberRole): Promise<StudyGroupMember | undefined>;
+  addGroupMessage(message: { groupId: string; userId: string; content: string }): Promise<GroupMessage>;
+  getGroupMessages(groupId: string, limit: number, beforeId?: string): Promise<GroupChatMessage[]>;
+  getUserStudyGroups(userId: string): Promise<StudyGroup[]>;
+
+  // Group session operations
+  createGroupSession(session: InsertGroupSession): Promise<GroupSession>;
+  carryOverLegacyGroupSessions(): Promise<void>;
+  getGroupSession(id: string): Promise<GroupSession | undefined>;
+  getGroupSessions(groupIds: string[]): Promise<GroupSession[]>;
+  updateGroupSession(id: string, updates: Partial<InsertGroupSession>): Promise<GroupSession>;
+  deleteGroupSession(id: string): Promise<void>;
+  getSessionRsvps(sessionIds: string[], from: Date, to: Date): Promise<SessionRsvp[]>;
+  setSessionRsvp(rsvp: { sessionId: string; userId: string; occurrenceStart: Date; status: RsvpStatus }): Promise<SessionRsvp>;
+
+  // Shared group resource operations
+  shareGroupResource(resource: InsertGroupResource): Promise<GroupResource | undefined>;
+  getGroupResources(groupId: string): Promise<SharedResourceRow[]>;
+  getGroupResource(id: string): Promise<GroupResource | undefined>;
+  deleteGroupResource(id: string): Promise<void>;
+  forkTopic(sourceId: string, userId: string): Promise<{ topic: Topic; created: boolean }>;
+  forkDeck(sourceTopicId: string, userId: string): Promise<{ topic: Topic; added: number }>;
+  forkQuiz(sourceId: string, userId: string): Promise<{ quiz: Quiz; created: boolean }>;
+  getTopicForkProgress(topicIds: string[], userIds: string[]): Promise<ForkProgress[]>;
+  getDeckForkProgress(topicIds: string[], userIds: string[]): Promise<ForkProgress[]>;
+  getQuizForkProgress(quizIds: string[], userIds: string[]): Promise<ForkProgress[]>;
   
   // User progress operations
   updateUserXP(userId: string, xpGained: number): Promise<User>;
@@ -90,9 +264,78 @@ export interface IStorage {
     activityType: string;
     duration?: number;
     xpGained?: number;
+    startedAt?: Date;
   }): Promise<LearningSession>;
 }
 
+// The user fields shown to other members of a study group
+const publicUserColumns = {
+  id: users.id,
+  firstName: users.firstName,
+  lastName: users.lastName,
+  profileImageUrl: users.profileImageUrl,
+  level: users.level,
+};
+
+// A group's member count taken from its membership rows, so the cached column can't drift
+const countedMembers = sql<number>`(select count(*)::int from ${studyGroupMembers} where ${studyGroupMembers.groupId} = ${studyGroups.id})`;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type SharedResourceRow = GroupResource & {
+  sharer: PublicUser | null;
+  title: string;
+  description: string | null;
+  itemCount: number | null;
+};
+
+// One user's progress (0-100) on shared material. `copyId` is their own copy, or the original
+// if it's theirs; null if they only used the original, e.g. in a quiz battle.
+export interface ForkProgress {
+  sourceId: string;
+  copyId: string | null;
+  userId: string;
+  percent: number;
+}
+
+// The user's copy of a topic, made on first use. Content, earlier versions and the
+// retrieval index come along; reading progress starts over. Owners get their own topic back.
+async function ensureTopicFork(tx: Transaction, source: Topic, userId: string): Promise<{ topic: Topic; created: boolean }> {
+  if (source.userId === userId) return { topic: source, created: false };
+  const [existing] = await tx
+    .select()
+    .from(topics)
+    .where(and(eq(topics.userId, userId), eq(topics.forkedFromId, source.id)));
+  if (existing) return { topic: existing, created: false };
+
+  const [topic] = await tx
+    .insert(topics)
+    .values({
+      userId,
+      title: source.title,
+      description: source.description,
+      difficulty: source.difficulty,
+      content: source.content,
+      aiGenerated: source.aiGenerated,
+      forkedFromId: source.id,
+      indexedAt: source.indexedAt,
+    })
+    .returning();
+  const versions = await tx.select().from(topicVersions).where(eq(topicVersions.topicId, source.id));
+  if (versions.length > 0) {
+    await tx.insert(topicVersions).values(
+      versions.map(({ id, topicId, ...version }) => ({ ...version, topicId: topic.id })),
+    );
+  }
+  const chunks = await tx.select().from(topicChunks).where(eq(topicChunks.topicId, source.id));
+  if (chunks.length > 0) {
+    await tx.insert(topicChunks).values(
+      chunks.map(({ id, topicId, userId: _owner, ...chunk }) => ({ ...chunk, topicId: topic.id, userId })),
+    );
+  }
+  return { topic, created: true };
+}
+
 export class DatabaseStorage implements IStorage {
   // User operations
   async getUser(id: string): Promise<User | undefined> {
@@ -100,6 +343,35 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async getUserByCalendarToken(token: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.calendarToken, token));
+    return user;
+  }
+
+  async setCalendarToken(userId: string, token: string): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ calendarToken: token, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  async getUserByGoogleId(googleId: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.googleId, googleId));
+    return user;
+  }
+
+  async createUser(userData: UpsertUser): Promise<User> {
+    const [user] = await db.insert(users).values(userData).returning();
+    return user;
+  }
+
   async upsertUser(userData: UpsertUser): Promise<User> {
     const [user] = await db
       .insert(users)
@@ -115,6 +387,15 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateUserRole(id: string, role: UserRole): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ role, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
   // Topic operations
   async createTopic(topic: InsertTopic): Promise<Topic> {
     const [newTopic] = await db.insert(topics).values(topic).returning();
@@ -134,11 +415,110 @@ export class DatabaseStorage implements IStorage {
     return topic;
   }
 
-  async updateTopicProgress(id: string, progress: number): Promise<void> {
-    await db
+  async updateTopic(
+    id: string,
+    updates: Partial<InsertTopic> & { readSections?: number[] },
+  ): Promise<Topic> {
+    const [topic] = await db
+      .update(topics)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(topics.id, id))
+      .returning();
+    return topic;
+  }
+
+  async updateTopicProgress(id: string, progress: number, readSections: number[]): Promise<Topic> {
+    const [topic] = await db
       .update(topics)
-      .set({ progress, updatedAt: new Date() })
-      .where(eq(topics.id, id));
+      .set({ progress, readSections, updatedAt: new Date() })
+      .where(eq(topics.id, id))
+      .returning();
+    return topic;
+  }
+
+  async deleteTopic(id: string): Promise<void> {
+    await db.delete(topics).where(eq(topics.id, id));
+  }
+
+  async createTopicVersion(version: {
+    topicId: string;
+    difficulty: string;
+    content: string;
+    aiGenerated?: boolean;
+  }): Promise<TopicVersion> {
+    const [newVersion] = await db.insert(topicVersions).values(version).returning();
+    return newVersion;
+  }
+
+  async getTopicVersions(topicId: string): Promise<TopicVersion[]> {
+    return await db
+      .select()
+      .from(topicVersions)
+      .where(eq(topicVersions.topicId, topicId))
+      .orderBy(desc(topicVersions.createdAt));
+  }
+
+  async getTopicVersion(id: string): Promise<TopicVersion | undefined> {
+    const [version] = await db.select().from(topicVersions).where(eq(topicVersions.id, id));
+    return version;
+  }
+
+  // Learning path operations
+  async createLearningPath(
+    path: { userId: string; goal: string; title: string; description?: string | null },
+    steps: { title: string; description: string; difficulty: string; prerequisites: number[] }[],
+  ): Promise<LearningPath> {
+    return await db.transaction(async (tx) => {
+      const [newPath] = await tx.insert(learningPaths).values(path).returning();
+      // Each step gets its own topic; content is generated when the student opens it
+      const newTopics = await tx
+        .insert(topics)
+        .values(
+          steps.map((step) => ({
+            userId: path.userId,
+            title: step.title,
+            description: step.description,
+            difficulty: step.difficulty,
+            aiGenerated: true,
+          })),
+        )
+        .returning();
+      await tx.insert(learningPathSteps).values(
+        steps.map((step, position) => ({
+          pathId: newPath.id,
+          topicId: newTopics[position].id,
+          position,
+          prerequisites: step.prerequisites,
+        })),
+      );
+      return newPath;
+    });
+  }
+
+  async getUserLearningPaths(userId: string): Promise<LearningPath[]> {
+    return await db
+      .select()
+      .from(learningPaths)
+      .where(eq(learningPaths.userId, userId))
+      .orderBy(desc(learningPaths.createdAt));
+  }
+
+  async getLearningPath(id: string): Promise<LearningPath | undefined> {
+    const [path] = await db.select().from(learningPaths).where(eq(learningPaths.id, id));
+    return path;
+  }
+
+  async getLearningPathSteps(pathId: string): Promise<{ step: LearningPathStep; topic: Topic }[]> {
+    return await db
+      .select({ step: learningPathSteps, topic: topics })
+      .from(learningPathSteps)
+      .innerJoin(topics, eq(learningPathSteps.topicId, topics.id))
+      .where(eq(learningPathSteps.pathId, pathId))
+      .orderBy(learningPathSteps.position);
+  }
+
+  async deleteLearningPath(id: string): Promise<void> {
+    await db.delete(learningPaths).where(eq(learningPaths.id, id));
   }
 
   // Quiz operations
@@ -155,30 +535,202 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(quizzes.createdAt));
   }
 
+  async getUserQuizzes(userId: string): Promise<Quiz[]> {
+    return await db
+      .select()
+      .from(quizzes)
+      .where(eq(quizzes.userId, userId))
+      .orderBy(desc(quizzes.createdAt));
+  }
+
   async getQuiz(id: string): Promise<Quiz | undefined> {
     const [quiz] = await db.select().from(quizzes).where(eq(quizzes.id, id));
     return quiz;
   }
 
+  async updateQuiz(
+    id: string,
+    updates: Partial<Pick<InsertQuiz, "title" | "questions" | "timeLimitSeconds">>,
+  ): Promise<Quiz> {
+    const [quiz] = await db.update(quizzes).set(updates).where(eq(quizzes.id, id)).returning();
+    return quiz;
+  }
+
+  // Attempts at the quiz go with it
+  async deleteQuiz(id: string): Promise<void> {
+    await db.delete(quizzes).where(eq(quizzes.id, id));
+  }
+
   async submitQuizAttempt(attempt: {
     quizId: string;
     userId: string;
     score: number;
     totalQuestions: number;
     answers: any;
+    questions: any;
+    shortAnswerGrades?: any;
   }): Promise<QuizAttempt> {
-    const [newAttempt] = await db.insert(quizAttempts).values(attempt).returning();
+    const [newAttempt] = await db
+      .insert(quizAttempts)
+      .values({ ...attempt, status: "submitted", completedAt: new Date() })
+      .returning();
     return newAttempt;
   }
 
+  async startQuizAttempt(attempt: {
+    quizId: string;
+    userId: string;
+    totalQuestions: number;
+    answers: any;
+    questions: any;
+    deadline: Date | null;
+  }): Promise<QuizAttempt | undefined> {
+    // Returns undefined if another request started one first; there is only ever one in progress
+    const [newAttempt] = await db
+      .insert(quizAttempts)
+      .values({ ...attempt, status: "in_progress", score: 0 })
+      .onConflictDoNothing()
+      .returning();
+    return newAttempt;
+  }
+
+  async getInProgressQuizAttempt(quizId: string, userId: string): Promise<QuizAttempt | undefined> {
+    const [attempt] = await db
+      .select()
+      .from(quizAttempts)
+      .where(
+        and(
+          eq(quizAttempts.quizId, quizId),
+          eq(quizAttempts.userId, userId),
+          eq(quizAttempts.status, "in_progress"),
+        ),
+      );
+    return attempt;
+  }
+
+  // Returns undefined once the attempt has been submitted
+  async saveQuizAttemptAnswers(id: string, answers: any): Promise<QuizAttempt | undefined> {
+    const [attempt] = await db
+      .update(quizAttempts)
+      .set({ answers })
+      .where(and(eq(quizAttempts.id, id), eq(quizAttempts.status, "in_progress")))
+      .returning();
+    return attempt;
+  }
+
+  // Only one caller can finish an attempt; the others get undefined and must not grade it or award XP again
+  async claimQuizAttempt(
+    id: string,
+    result: { status: Exclude<AttemptStatus, "in_progress">; answers: any },
+  ): Promise<QuizAttempt | undefined> {
+    const [attempt] = await db
+      .update(quizAttempts)
+      .set({ ...result, completedAt: new Date() })
+      .where(and(eq(quizAttempts.id, id), eq(quizAttempts.status, "in_progress")))
+      .returning();
+    return attempt;
+  }
+
+  async gradeQuizAttempt(id: string, grade: { score: number; shortAnswerGrades: any }): Promise<QuizAttempt> {
+    const [attempt] = await db.update(quizAttempts).set(grade).where(eq(quizAttempts.id, id)).returning();
+    return attempt;
+  }
+
+  // Undoes a claim whose grading failed, so the attempt can be finished again later
+  async reopenQuizAttempt(id: string): Promise<void> {
+    await db.update(quizAttempts).set({ status: "in_progress", completedAt: null }).where(eq(quizAttempts.id, id));
+  }
+
+  async getOverdueQuizAttempts(before: Date): Promise<QuizAttempt[]> {
+    return await db
+      .select()
+      .from(quizAttempts)
+      .where(and(eq(quizAttempts.status, "in_progress"), lt(quizAttempts.deadline, before)));
+  }
+
   async getUserQuizAttempts(userId: string): Promise<QuizAttempt[]> {
     return await db
       .select()
       .from(quizAttempts)
-      .where(eq(quizAttempts.userId, userId))
+      .where(and(eq(quizAttempts.userId, userId), ne(quizAttempts.status, "in_progress")))
+      .orderBy(desc(quizAttempts.completedAt));
+  }
+
+  async getQuizAttempts(quizId: string, userId: string): Promise<QuizAttempt[]> {
+    return await db
+      .select()
+      .from(quizAttempts)
+      .where(
+        and(
+          eq(quizAttempts.quizId, quizId),
+          eq(quizAttempts.userId, userId),
+          ne(quizAttempts.status, "in_progress"),
+        ),
+      )
       .orderBy(desc(quizAttempts.completedAt));
   }
 
+  async getQuizAttempt(id: string): Promise<QuizAttempt | undefined> {
+    const [attempt] = await db.select().from(quizAttempts).where(eq(quizAttempts.id, id));
+    return attempt;
+  }
+
+  // Best attempt per topic, as a percentage
+  async getBestQuizScores(userId: string, topicIds: string[]): Promise<Record<string, number>> {
+    if (topicIds.length === 0) return {};
+    const rows = await db
+      .select({
+        topicId: quizzes.topicId,
+        best: max(sql<number>`${quizAttempts.score} * 100 / NULLIF(${quizAttempts.totalQuestions}, 0)`),
+      })
+      .from(quizAttempts)
+      .innerJoin(quizzes, eq(quizAttempts.quizId, quizzes.id))
+      .where(
+        and(
+          eq(quizAttempts.userId, userId),
+          inArray(quizzes.topicId, topicIds),
+          ne(quizAttempts.status, "in_progress"),
+        ),
+      )
+      .groupBy(quizzes.topicId);
+    return Object.fromEntries(rows.map((row) => [row.topicId, Number(row.best ?? 0)]));
+  }
+
+  // Most recent attempts first, with the questions each was answered against
+  async getTopicQuizHistory(
+    userId: string,
+    topicId: string,
+    limit: number,
+  ): Promise<{ questions: unknown; answers: unknown; shortAnswerGrades: unknown }[]> {
+    return await db
+      .select({
+        // Older attempts didn't keep their own copy of the questions
+        questions: sql<unknown>`coalesce(${quizAttempts.questions}, ${quizzes.questions})`,
+        answers: quizAttempts.answers,
+        shortAnswerGrades: quizAttempts.shortAnswerGrades,
+      })
+      .from(quizAttempts)
+      .innerJoin(quizzes, eq(quizAttempts.quizId, quizzes.id))
+      .where(
+        and(
+          eq(quizAttempts.userId, userId),
+          eq(quizzes.topicId, topicId),
+          ne(quizAttempts.status, "in_progress"),
+        ),
+      )
+      .orderBy(desc(quizAttempts.completedAt))
+      .limit(limit);
+  }
+
+  async updateQuizAttemptAnalysis(id: string, analysis: string): Promise<QuizAttempt> {
+    const [attempt] = await db
+      .update(quizAttempts)
+      .set({ analysis })
+      .where(eq(quizAttempts.id, id))
+      .returning();
+    return attempt;
+  }
+
   // Flashcard operations
   async createFlashcard(flashcard: {
     topicId: string;
@@ -198,12 +750,166 @@ export class DatabaseStorage implements IStorage {
       .orderBy(flashcards.nextReview);
   }
 
+  // Imported cards may carry their review schedule with them
+  async createFlashcards(cards: InsertFlashcard[]): Promise<Flashcard[]> {
+    if (cards.length === 0) return [];
+    return await db.insert(flashcards).values(cards).returning();
+  }
+
+  async getFlashcard(id: string): Promise<Flashcard | undefined> {
+    const [flashcard] = await db.select().from(flashcards).where(eq(flashcards.id, id));
+    return flashcard;
+  }
+
+  // Editing a card's text keeps its review schedule
+  async updateFlashcard(id: string, updates: { front?: string; back?: string }): Promise<Flashcard> {
+    const [flashcard] = await db.update(flashcards).set(updates).where(eq(flashcards.id, id)).returning();
+    return flashcard;
+  }
+
+  async deleteFlashcard(id: string): Promise<void> {
+    await db.delete(flashcards).where(eq(flashcards.id, id));
+  }
+
+  async getDueFlashcards(userId: string, dueBefore: Date): Promise<(Flashcard & { topicTitle: string })[]> {
+    return await db
+      .select({ ...getTableColumns(flashcards), topicTitle: topics.title })
+      .from(flashcards)
+      .innerJoin(topics, eq(flashcards.topicId, topics.id))
+      .where(and(eq(flashcards.userId, userId), lte(flashcards.nextReview, dueBefore)))
+      .orderBy(flashcards.nextReview);
+  }
+
+  async updateFlashcardSchedule(id: string, schedule: ReviewSchedule): Promise<Flashcard> {
+    const [flashcard] = await db
+      .update(flashcards)
+      .set(schedule)
+      .where(eq(flashcards.id, id))
+      .returning();
+    return flashcard;
+  }
+
+  // Retrieval index operations
+  async replaceTopicChunks(topicId: string, source: string | null, chunks: InsertTopicChunk[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(topicChunks)
+        .where(
+          and(
+            eq(topicChunks.topicId, topicId),
+            source === null ? isNull(topicChunks.source) : eq(topicChunks.source, source),
+          ),
+        );
+      if (chunks.length > 0) {
+        await tx.insert(topicChunks).values(chunks);
+      }
+      await tx.update(topics).set({ indexedAt: new Date() }).where(eq(topics.id, topicId));
+    });
+  }
+
+  async getUnindexedTopics(userId: string): Promise<Topic[]> {
+    return await db
+      .select()
+      .from(topics)
+      .where(
+        and(
+          eq(topics.userId, userId),
+          isNull(topics.indexedAt),
+          isNotNull(topics.content),
+          ne(topics.content, ""),
+        ),
+      );
+  }
+
+  async searchTopicChunks(userId: string, terms: string[]): Promise<(TopicChunk & { topicTitle: string })[]> {
+    return await db
+      .select({ ...getTableColumns(topicChunks), topicTitle: topics.title })
+      .from(topicChunks)
+      .innerJoin(topics, eq(topicChunks.topicId, topics.id))
+      .where(and(eq(topicChunks.userId, userId), arrayOverlaps(topicChunks.terms, terms)));
+  }
+
+  async getTopicChunkStats(userId: string): Promise<{ chunkCount: number; averageLength: number }> {
+    const [stats] = await db
+      .select({ chunkCount: count(), averageLength: avg(topicChunks.length) })
+      .from(topicChunks)
+      .where(eq(topicChunks.userId, userId));
+    return { chunkCount: stats.chunkCount, averageLength: Number(stats.averageLength ?? 0) };
+  }
+
+  // Tutor conversation operations
+  async createChatConversation(conversation: {
+    userId: string;
+    topicId?: string | null;
+    title?: string | null;
+  }): Promise<ChatConversation> {
+    const [newConversation] = await db.insert(chatConversations).values(conversation).returning();
+    return newConversation;
+  }
+
+  async getUserChatConversations(userId: string): Promise<(ChatConversation & { topicTitle: string | null })[]> {
+    return await db
+      .select({ ...getTableColumns(chatConversations), topicTitle: topics.title })
+      .from(chatConversations)
+      .leftJoin(topics, eq(chatConversations.topicId, topics.id))
+      .where(eq(chatConversations.userId, userId))
+      .orderBy(desc(chatConversations.updatedAt));
+  }
+
+  async getChatConversation(id: string): Promise<ChatConversation | undefined> {
+    const [conversation] = await db.select().from(chatConversations).where(eq(chatConversations.id, id));
+    return conversation;
+  }
+
+  async renameChatConversation(id: string, title: string): Promise<void> {
+    await db
+      .update(chatConversations)
+      .set({ title, updatedAt: new Date() })
+      .where(eq(chatConversations.id, id));
+  }
+
+  async deleteChatConversation(id: string): Promise<void> {
+    await db.delete(chatConversations).where(eq(chatConversations.id, id));
+  }
+
+  async getChatMessages(conversationId: string): Promise<ChatMessage[]> {
+    return await db
+      .select()
+      .from(chatMessages)
+      .where(eq(chatMessages.conversationId, conversationId))
+      .orderBy(chatMessages.createdAt);
+  }
+
+  async addChatMessage(message: {
+    conversationId: string;
+    role: ChatRole;
+    content: string;
+    citations?: unknown;
+  }): Promise<ChatMessage> {
+    const [newMessage] = await db.insert(chatMessages).values(message).returning();
+    // Keep recently used conversations at the top of the list
+    await db
+      .update(chatConversations)
+      .set({ updatedAt: new Date() })
+      .where(eq(chatConversations.id, message.conversationId));
+    return newMessage;
+  }
+
   // Social operations
   async createPost(post: InsertPost): Promise<Post> {
     const [newPost] = await db.insert(posts).values(post).returning();
     return newPost;
   }
 
+  async getPost(id: string): Promise<Post | undefined> {
+    const [post] = await db.select().from(posts).where(eq(posts.id, id));
+    return post;
+  }
+
+  async deletePost(id: string): Promise<void> {
+    await db.delete(posts).where(eq(posts.id, id));
+  }
+
   async createRepost(originalPostId: string, userId: string): Promise<Post> {
     const [originalPost] = await db.select().from(posts).where(eq(posts.id, originalPostId));
     if (!originalPost) {
@@ -243,6 +949,7 @@ export class DatabaseStorage implements IStorage {
           firstName: users.firstName,
           lastName: users.lastName,
           profileImageUrl: users.profileImageUrl,
+          role: users.role,
           xp: users.xp,
           level: users.level,
           streak: users.streak,
@@ -296,57 +1003,423 @@ export class DatabaseStorage implements IStorage {
 
   // Study group operations
   async createStudyGroup(group: InsertStudyGroup): Promise<StudyGroup> {
-    const [newGroup] = await db.insert(studyGroups).values(group).returning();
-    
-    // Add creator as admin member
-    await db.insert(studyGroupMembers).values({
-      groupId: newGroup.id,
-      userId: group.creatorId,
-      role: "admin",
+    return await db.transaction(async (tx) => {
+      const [newGroup] = await tx.insert(studyGroups).values({ ...group, memberCount: 1 }).returning();
+      // The creator is the group's first admin
+      await tx.insert(studyGroupMembers).values({
+        groupId: newGroup.id,
+        userId: group.creatorId,
+        role: "admin",
+      });
+      return newGroup;
     });
-    
-    return newGroup;
   }
 
-  async getStudyGroups(): Promise<(StudyGroup & { creator: User; memberCount: number })[]> {
-    const result = await db
+  async getStudyGroups(viewerId: string): Promise<(StudyGroup & { creator: PublicUser; myRole: GroupMemberRole | null })[]> {
+    const rows = await db
       .select({
-        id: studyGroups.id,
-        name: studyGroups.name,
-        description: studyGroups.description,
-        creatorId: studyGroups.creatorId,
-        isActive: studyGroups.isActive,
-        memberCount: studyGroups.memberCount,
-        nextSession: studyGroups.nextSession,
-        createdAt: studyGroups.createdAt,
-        creator: {
-          id: users.id,
-          email: users.email,
-          firstName: users.firstName,
-          lastName: users.lastName,
-          profileImageUrl: users.profileImageUrl,
-          xp: users.xp,
-          level: users.level,
-          streak: users.streak,
-          lastLearningDate: users.lastLearningDate,
-          createdAt: users.createdAt,
-          updatedAt: users.updatedAt,
-        },
+        group: studyGroups,
+        creator: publicUserColumns,
+        myRole: studyGroupMembers.role,
       })
       .from(studyGroups)
       .innerJoin(users, eq(studyGroups.creatorId, users.id))
+      .leftJoin(
+        studyGroupMembers,
+        and(eq(studyGroupMembers.groupId, studyGroups.id), eq(studyGroupMembers.userId, viewerId)),
+      )
       .where(eq(studyGroups.isActive, true))
       .orderBy(desc(studyGroups.createdAt));
 
-    return result as (StudyGroup & { creator: User; memberCount: number })[];
+    return rows.map(({ group, creator, myRole }) => ({ ...group, creator, myRole }));
   }
 
-  async joinStudyGroup(groupId: string, userId: string): Promise<void> {
-    await db.insert(studyGroupMembers).values({ groupId, userId });
-    await db
-      .update(studyGroups)
-      .set({ memberCount: sql`${studyGroups.memberCount} + 1` })
-      .where(eq(studyGroups.id, groupId));
+  async getStudyGroup(id: string): Promise<StudyGroup | undefined> {
+    const [group] = await db.select().from(studyGroups).where(eq(studyGroups.id, id));
+    return group;
+  }
+
+  async getStudyGroupMembers(groupId: string): Promise<(PublicUser & { role: GroupMemberRole; joinedAt: Date | null })[]> {
+    const rows = await db
+      .select({ ...publicUserColumns, role: studyGroupMembers.role, joinedAt: studyGroupMembers.joinedAt })
+      .from(studyGroupMembers)
+      .innerJoin(users, eq(studyGroupMembers.userId, users.id))
+      .where(eq(studyGroupMembers.groupId, groupId))
+      .orderBy(studyGroupMembers.joinedAt);
+    return rows.map((row) => ({ ...row, role: row.role ?? "member" }));
+  }
+
+  async getStudyGroupMember(groupId: string, userId: string): Promise<StudyGroupMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(studyGroupMembers)
+      .where(and(eq(studyGroupMembers.groupId, groupId), eq(studyGroupMembers.userId, userId)));
+    return member;
+  }
+
+  // False when the user was already a member
+  async joinStudyGroup(groupId: string, userId: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const inserted = await tx
+        .insert(studyGroupMembers)
+        .values({ groupId, userId })
+        .onConflictDoNothing()
+        .returning({ id: studyGroupMembers.id });
+      if (inserted.length === 0) return false;
+      await tx.update(studyGroups).set({ memberCount: countedMembers }).where(eq(studyGroups.id, groupId));
+      return true;
+    });
+  }
+
+  // Used both for leaving and for being removed. A group is never left without an admin:
+  // when the last one goes, the longest-standing member takes over, and a group nobody
+  // is left in is closed. False when the user wasn't a member.
+  async removeStudyGroupMember(groupId: string, userId: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [removed] = await tx
+        .delete(studyGroupMembers)
+        .where(and(eq(studyGroupMembers.groupId, groupId), eq(studyGroupMembers.userId, userId)))
+        .returning();
+      if (!removed) return false;
+
+      if (removed.role === "admin") {
+        const [admin] = await tx
+          .select({ id: studyGroupMembers.id })
+          .from(studyGroupMembers)
+          .where(and(eq(studyGroupMembers.groupId, groupId), eq(studyGroupMembers.role, "admin")))
+          .limit(1);
+        if (!admin) {
+          const [successor] = await tx
+            .select({ id: studyGroupMembers.id })
+            .from(studyGroupMembers)
+            .where(eq(studyGroupMembers.groupId, groupId))
+            .orderBy(studyGroupMembers.joinedAt)
+            .limit(1);
+          if (successor) {
+            await tx.update(studyGroupMembers).set({ role: "admin" }).where(eq(studyGroupMembers.id, successor.id));
+          }
+        }
+      }
+
+      await tx
+        .update(studyGroups)
+        .set({ memberCount: countedMembers, isActive: sql`${countedMembers} > 0` })
+        .where(eq(studyGroups.id, groupId));
+      return true;
+    });
+  }
+
+  async setStudyGroupMemberRole(
+    groupId: string,
+    userId: string,
+    role: GroupMemberRole,
+  ): Promise<StudyGroupMember | undefined> {
+    const [member] = await db
+      .update(studyGroupMembers)
+      .set({ role })
+      .where(and(eq(studyGroupMembers.groupId, groupId), eq(studyGroupMembers.userId, userId)))
+      .returning();
+    return member;
+  }
+
+  async addGroupMessage(message: { groupId: string; userId: string; content: string }): Promise<GroupMessage> {
+    const [newMessage] = await db.insert(groupMessages).values(message).returning();
+    return newMessage;
+  }
+
+  // Newest first, starting below `beforeId` when paging back through history
+  async getGroupMessages(groupId: string, limit: number, beforeId?: string): Promise<GroupChatMessage[]> {
+    const rows = await db
+      .select({ message: groupMessages, user: publicUserColumns })
+      .from(groupMessages)
+      .innerJoin(users, eq(groupMessages.userId, users.id))
+      .where(
+        and(
+          eq(groupMessages.groupId, groupId),
+          beforeId
+            ? sql`(${groupMessages.createdAt}, ${groupMessages.id}) < (select ${groupMessages.createdAt}, ${groupMessages.id} from ${groupMessages} where ${groupMessages.id} = ${beforeId})`
+            : undefined,
+        ),
+      )
+      .orderBy(desc(groupMessages.createdAt), desc(groupMessages.id))
+      .limit(limit);
+    return rows.map(({ message, user }) => ({ ...message, user }));
+  }
+
+  async getUserStudyGroups(userId: string): Promise<StudyGroup[]> {
+    const rows = await db
+      .select({ group: studyGroups })
+      .from(studyGroupMembers)
+      .innerJoin(studyGroups, eq(studyGroupMembers.groupId, studyGroups.id))
+      .where(and(eq(studyGroupMembers.userId, userId), eq(studyGroups.isActive, true)));
+    return rows.map((row) => row.group);
+  }
+
+  // Group session operations
+  async createGroupSession(session: InsertGroupSession): Promise<GroupSession> {
+    const [newSession] = await db.insert(groupSessions).values(session).returning();
+    return newSession;
+  }
+
+  // Turns the session times groups had before scheduling existed into one-off sessions
+  async carryOverLegacyGroupSessions(): Promise<void> {
+    await db.transaction(async (tx) => {
+      // Locked, so servers starting together don't both carry the same group over
+      const groups = await tx
+        .select()
+        .from(studyGroups)
+        .where(isNotNull(studyGroups.nextSession))
+        .for("update");
+      if (groups.length === 0) return;
+      await tx.insert(groupSessions).values(
+        groups.map((group) => ({
+          groupId: group.id,
+          createdBy: group.creatorId,
+          title: "Study Session",
+          startsAt: group.nextSession!,
+          timeZone: "UTC",
+        })),
+      );
+      await tx
+        .update(studyGroups)
+        .set({ nextSession: null })
+        .where(inArray(studyGroups.id, groups.map((group) => group.id)));
+    });
+  }
+
+  async getGroupSession(id: string): Promise<GroupSession | undefined> {
+    const [session] = await db.select().from(groupSessions).where(eq(groupSessions.id, id));
+    return session;
+  }
+
+  async getGroupSessions(groupIds: string[]): Promise<GroupSession[]> {
+    if (groupIds.length === 0) return [];
+    return await db
+      .select()
+      .from(groupSessions)
+      .where(inArray(groupSessions.groupId, groupIds))
+      .orderBy(groupSessions.startsAt);
+  }
+
+  async updateGroupSession(id: string, updates: Partial<InsertGroupSession>): Promise<GroupSession> {
+    const [session] = await db
+      .update(groupSessions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(groupSessions.id, id))
+      .returning();
+    return session;
+  }
+
+  async deleteGroupSession(id: string): Promise<void> {
+    await db.delete(groupSessions).where(eq(groupSessions.id, id));
+  }
+
+  // Replies to the occurrences starting in [from, to)
+  async getSessionRsvps(sessionIds: string[], from: Date, to: Date): Promise<SessionRsvp[]> {
+    if (sessionIds.length === 0) return [];
+    return await db
+      .select()
+      .from(sessionRsvps)
+      .where(
+        and(
+          inArray(sessionRsvps.sessionId, sessionIds),
+          gte(sessionRsvps.occurrenceStart, from),
+          lt(sessionRsvps.occurrenceStart, to),
+        ),
+      );
+  }
+
+  async setSessionRsvp(rsvp: {
+    sessionId: string;
+    userId: string;
+    occurrenceStart: Date;
+    status: RsvpStatus;
+  }): Promise<SessionRsvp> {
+    const [saved] = await db
+      .insert(sessionRsvps)
+      .values(rsvp)
+      .onConflictDoUpdate({
+        target: [sessionRsvps.sessionId, sessionRsvps.userId, sessionRsvps.occurrenceStart],
+        set: { status: rsvp.status, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Shared group resource operations
+  async shareGroupResource(resource: InsertGroupResource): Promise<GroupResource | undefined> {
+    const [shared] = await db.insert(groupResources).values(resource).onConflictDoNothing().returning();
+    return shared;
+  }
+
+  async getGroupResources(groupId: string): Promise<SharedResourceRow[]> {
+    const rows = await db
+      .select({
+        resource: groupResources,
+        sharer: publicUserColumns,
+        title: sql<string>`coalesce(${quizzes.title}, ${topics.title})`,
+        description: topics.description,
+        itemCount: sql<number | null>`case ${groupResources.kind}
+          when 'deck' then (select count(*)::int from ${flashcards} where ${flashcards.topicId} = ${groupResources.topicId})
+          when 'quiz' then jsonb_array_length(${quizzes.questions})
+        end`,
+      })
+      .from(groupResources)
+      .leftJoin(users, eq(groupResources.sharedBy, users.id))
+      .leftJoin(quizzes, eq(groupResources.quizId, quizzes.id))
+      .leftJoin(topics, eq(topics.id, sql`coalesce(${groupResources.topicId}, ${quizzes.topicId})`))
+      .where(eq(groupResources.groupId, groupId))
+      .orderBy(desc(groupResources.createdAt));
+    return rows.map(({ resource, ...row }) => ({ ...resource, ...row }));
+  }
+
+  async getGroupResource(id: string): Promise<GroupResource | undefined> {
+    const [resource] = await db.select().from(groupResources).where(eq(groupResources.id, id));
+    return resource;
+  }
+
+  // Copies made from it stay with the members who made them
+  async deleteGroupResource(id: string): Promise<void> {
+    await db.delete(groupResources).where(eq(groupResources.id, id));
+  }
+
+  async forkTopic(sourceId: string, userId: string): Promise<{ topic: Topic; created: boolean }> {
+    return await db.transaction(async (tx) => {
+      const [source] = await tx.select().from(topics).where(eq(topics.id, sourceId));
+      return await ensureTopicFork(tx, source, userId);
+    });
+  }
+
+  // Adds the deck's cards to the user's copy of its topic, skipping cards copied before.
+  // Copies start with a fresh review schedule.
+  async forkDeck(sourceTopicId: string, userId: string): Promise<{ topic: Topic; added: number }> {
+    return await db.transaction(async (tx) => {
+      const [source] = await tx.select().from(topics).where(eq(topics.id, sourceTopicId));
+      const { topic } = await ensureTopicFork(tx, source, userId);
+      if (topic.id === source.id) return { topic, added: 0 };
+
+      const cards = await tx.select().from(flashcards).where(eq(flashcards.topicId, source.id));
+      if (cards.length === 0) return { topic, added: 0 };
+      const copied = await tx
+        .select({ forkedFromId: flashcards.forkedFromId })
+        .from(flashcards)
+        .where(and(eq(flashcards.userId, userId), inArray(flashcards.forkedFromId, cards.map((card) => card.id))));
+      const copiedIds = new Set(copied.map((card) => card.forkedFromId));
+      const missing = cards.filter((card) => !copiedIds.has(card.id));
+      if (missing.length > 0) {
+        await tx.insert(flashcards).values(
+          missing.map((card) => ({ topicId: topic.id, userId, front: card.front, back: card.back, forkedFromId: card.id })),
+        );
+      }
+      return { topic, added: missing.length };
+    });
+  }
+
+  // The quiz goes into the user's copy of its topic
+  async forkQuiz(sourceId: string, userId: string): Promise<{ quiz: Quiz; created: boolean }> {
+    return await db.transaction(async (tx) => {
+      const [source] = await tx.select().from(quizzes).where(eq(quizzes.id, sourceId));
+      if (source.userId === userId) return { quiz: source, created: false };
+      const [existing] = await tx
+        .select()
+        .from(quizzes)
+        .where(and(eq(quizzes.userId, userId), eq(quizzes.forkedFromId, source.id)));
+      if (existing) return { quiz: existing, created: false };
+
+      const [sourceTopic] = await tx.select().from(topics).where(eq(topics.id, source.topicId));
+      const { topic } = await ensureTopicFork(tx, sourceTopic, userId);
+      const [quiz] = await tx
+        .insert(quizzes)
+        .values({
+          topicId: topic.id,
+          userId,
+          title: source.title,
+          questions: source.questions,
+          timeLimitSeconds: source.timeLimitSeconds,
+          forkedFromId: source.id,
+          readOnly: true,
+        })
+        .returning();
+      return { quiz, created: true };
+    });
+  }
+
+  // Reading progress on copies of the topics
+  async getTopicForkProgress(topicIds: string[], userIds: string[]): Promise<ForkProgress[]> {
+    if (topicIds.length === 0 || userIds.length === 0) return [];
+    const rows = await db
+      .select({
+        sourceId: sql<string>`case when ${inArray(topics.id, topicIds)} then ${topics.id} else ${topics.forkedFromId} end`,
+        copyId: topics.id,
+        userId: topics.userId,
+        percent: topics.progress,
+      })
+      .from(topics)
+      .where(
+        and(
+          or(inArray(topics.id, topicIds), inArray(topics.forkedFromId, topicIds)),
+          inArray(topics.userId, userIds),
+        ),
+      );
+    return rows.map((row) => ({ ...row, percent: row.percent ?? 0 }));
+  }
+
+  // Share of the copied cards that have been reviewed at least once
+  async getDeckForkProgress(topicIds: string[], userIds: string[]): Promise<ForkProgress[]> {
+    if (topicIds.length === 0 || userIds.length === 0) return [];
+    const sourceCards = alias(flashcards, "source_cards");
+    const sourceId = sql<string>`case when ${inArray(flashcards.topicId, topicIds)} then ${flashcards.topicId} else ${sourceCards.topicId} end`;
+    return await db
+      .select({
+        sourceId,
+        copyId: flashcards.topicId,
+        userId: flashcards.userId,
+        percent: sql<number>`round(100.0 * count(${flashcards.lastReviewedAt}) / count(*))::int`,
+      })
+      .from(flashcards)
+      .leftJoin(sourceCards, eq(flashcards.forkedFromId, sourceCards.id))
+      .where(
+        and(
+          or(inArray(flashcards.topicId, topicIds), inArray(sourceCards.topicId, topicIds)),
+          inArray(flashcards.userId, userIds),
+        ),
+      )
+      // Grouped by the columns behind sourceId: Postgres can't match it up with its parameters
+      .groupBy(flashcards.topicId, sourceCards.topicId, flashcards.userId);
+  }
+
+  // Best finished score, as a percentage, on the quizzes or copies of them. Users with a
+  // copy they haven't taken yet are listed at 0.
+  async getQuizForkProgress(quizIds: string[], userIds: string[]): Promise<ForkProgress[]> {
+    if (quizIds.length === 0 || userIds.length === 0) return [];
+    const sourceId = sql<string>`case when ${inArray(quizzes.id, quizIds)} then ${quizzes.id} else ${quizzes.forkedFromId} end`;
+    const inShared = or(inArray(quizzes.id, quizIds), inArray(quizzes.forkedFromId, quizIds));
+    const copies = await db
+      .select({ sourceId, copyId: quizzes.id, userId: quizzes.userId })
+      .from(quizzes)
+      .where(and(inShared, inArray(quizzes.userId, userIds)));
+    const scores = await db
+      .select({
+        sourceId,
+        userId: quizAttempts.userId,
+        percent: sql<number>`max(round(100.0 * ${quizAttempts.score} / nullif(${quizAttempts.totalQuestions}, 0)))::int`,
+      })
+      .from(quizAttempts)
+      .innerJoin(quizzes, eq(quizAttempts.quizId, quizzes.id))
+      .where(and(inShared, inArray(quizAttempts.userId, userIds), ne(quizAttempts.status, "in_progress")))
+      .groupBy(quizzes.id, quizAttempts.userId);
+
+    const progress = new Map<string, ForkProgress>();
+    for (const copy of copies) {
+      progress.set(`${copy.sourceId}:${copy.userId}`, { ...copy, percent: 0 });
+    }
+    for (const score of scores) {
+      const key = `${score.sourceId}:${score.userId}`;
+      const existing = progress.get(key);
+      const percent = Math.max(score.percent ?? 0, existing?.percent ?? 0);
+      progress.set(key, { copyId: null, ...existing, ...score, percent });
+    }
+    return Array.from(progress.values());
   }
 
   // User progress operations
@@ -415,6 +1488,7 @@ export class DatabaseStorage implements IStorage {
     activityType: string;
     duration?: number;
     xpGained?: number;
+    startedAt?: Date;
   }): Promise<LearningSession> {
     const [newSession] = await db.insert(learningSessions).values({
       ...session,
@@ -0,0 +1,157 @@
+// Quiz question types, shared by the quiz generator, the quizzes.questions jsonb
+// column and the client quiz player.
+import { z } from "zod";
+
+export const questionTypes = [
+  "multiple_choice",
+  "true_false",
+  "multi_select",
+  "fill_blank",
+  "ordering",
+  "short_answer",
+] as const;
+export type QuestionType = (typeof questionTypes)[number];
+
+export const questionDifficulties = ["easy", "medium", "hard"] as const;
+export type QuestionDifficulty = (typeof questionDifficulties)[number];
+
+const text = z.string().trim().min(1);
+
+// concept and difficulty let later quizzes adapt to what was missed; older quizzes lack them
+const questionBase = {
+  question: text,
+  explanation: text,
+  concept: text.optional(),
+  difficulty: z.enum(questionDifficulties).optional(),
+};
+
+export const quizQuestionSchema = z
+  .discriminatedUnion("type", [
+    z.object({
+      ...questionBase,
+      type: z.literal("multiple_choice"),
+      options: z.array(text).min(2).max(6),
+      correctAnswer: z.number().int().min(0),
+    }),
+    z.object({
+      ...questionBase,
+      type: z.literal("true_false"),
+      correctAnswer: z.boolean(),
+    }),
+    z.object({
+      ...questionBase,
+      type: z.literal("multi_select"),
+      options: z.array(text).min(2).max(8),
+      correctAnswers: z.array(z.number().int().min(0)).min(1),
+    }),
+    z.object({
+      ...questionBase,
+      type: z.literal("fill_blank"), // the question marks the blank with ___
+      acceptedAnswers: z.array(text).min(1),
+    }),
+    z.object({
+      ...questionBase,
+      type: z.literal("ordering"),
+      items: z.array(text).min(2).max(8), // in the correct order
+    }),
+    z.object({
+      ...questionBase,
+      type: z.literal("short_answer"),
+      rubric: text,
+      sampleAnswer: text,
+    }),
+  ])
+  .superRefine((question, ctx) => {
+    if (question.type === "multiple_choice" && question.correctAnswer >= question.options.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "correctAnswer must index into options" });
+    }
+    if (question.type === "multi_select" && question.correctAnswers.some((i) => i >= question.options.length)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "correctAnswers must index into options" });
+    }
+    if (
+      question.type === "multi_select" &&
+      new Set(question.correctAnswers).size !== question.correctAnswers.length
+    ) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "correctAnswers must be distinct" });
+    }
+    if (question.type === "ordering" && new Set(question.items).size !== question.items.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "ordering items must be distinct" });
+    }
+  });
+
+export type QuizQuestion = z.infer<typeof quizQuestionSchema>;
+export type QuizQuestionOf<T extends QuestionType> = Extract<QuizQuestion, { type: T }>;
+
+// What the client sees before submitting: no answer key, rubric or explanation.
+// Ordering items are shuffled.
+export type PublicQuizQuestion =
+  | { type: "multiple_choice"; question: string; options: string[] }
+  | { type: "true_false"; question: string }
+  | { type: "multi_select"; question: string; options: string[] }
+  | { type: "fill_blank"; question: string }
+  | { type: "ordering"; question: string; items: string[] }
+  | { type: "short_answer"; question: string };
+
+// Option index (multiple choice), true/false, option indexes (multi-select),
+// text (fill in the blank, short answer) or items in order (ordering); null if skipped
+export const quizAnswerSchema = z
+  .union([
+    z.number().int().min(0),
+    z.boolean(),
+    z.string().max(2000),
+    z.array(z.number().int().min(0)).max(8),
+    z.array(z.string().max(500)).max(8),
+  ])
+  .nullable();
+
+export type QuizAnswer = z.infer<typeof quizAnswerSchema>;
+
+// Quizzes saved before question types existed are all 4-option multiple choice
+export function normalizeQuestions(stored: unknown): QuizQuestion[] {
+  return ((stored as Record<string, unknown>[] | null) ?? []).map((question) =>
+    question.type ? question : { ...question, type: "multiple_choice" },
+  ) as QuizQuestion[];
+}
+
+export function isUnanswered(answer: QuizAnswer | undefined): boolean {
+  if (answer === null || answer === undefined) return true;
+  if (typeof answer === "string") return answer.trim() === "";
+  if (Array.isArray(answer)) return answer.length === 0;
+  return false;
+}
+
+// Human-readable form of an answer, for results pages and analysis prompts
+export function formatAnswer(question: QuizQuestion | PublicQuizQuestion, answer: QuizAnswer | undefined): string {
+  if (isUnanswered(answer)) return "(no answer)";
+  switch (question.type) {
+    case "multiple_choice":
+      return typeof answer === "number" ? (question.options[answer] ?? "(invalid option)") : "(invalid answer)";
+    case "true_false":
+      return answer === true ? "True" : answer === false ? "False" : "(invalid answer)";
+    case "multi_select":
+      return Array.isArray(answer)
+        ? answer.map((i) => (typeof i === "number" ? question.options[i] : i)).join(", ")
+        : "(invalid answer)";
+    case "ordering":
+      return Array.isArray(answer) ? answer.join(" → ") : "(invalid answer)";
+    default:
+      return String(answer);
+  }
+}
+
+export function formatCorrectAnswer(question: QuizQuestion): string {
+  switch (question.type) {
+    case "multiple_choice":
+      return question.options[question.correctAnswer];
+    case "true_false":
+      return question.correctAnswer ? "True" : "False";
+    case "multi_select":
+      return question.correctAnswers.map((i) => question.options[i]).join(", ");
+    case "fill_blank":
+      return question.acceptedAnswers.join(" / ");
+    case "ordering":
+      return question.items.join(" → ");
+    case "short_answer":
+      return question.sampleAnswer;
+  }
+}
@@ -0,0 +1,118 @@
+// Messages exchanged over the /ws WebSocket. Every message is a JSON object with a
+// `type`; group chat messages are namespaced "group:" and quiz battles "battle:".
+import { z } from "zod";
+import { quizAnswerSchema, type PublicQuizQuestion } from "./questions";
+import type { GroupChatMessage, PublicUser } from "./schema";
+
+export const GROUP_CHAT_PAGE_SIZE = 50;
+
+export const BATTLE_SECONDS_PER_QUESTION = { min: 10, max: 120, default: 20 };
+
+export const groupMessageContentSchema = z.string().trim().min(1, "Message is empty").max(2000);
+
+const groupId = z.string().min(1);
+
+export const clientMessageSchema = z.discriminatedUnion("type", [
+  // Subscribe to a group's room; answered with "group:joined"
+  z.object({ type: z.literal("group:join"), groupId }),
+  z.object({ type: z.literal("group:leave"), groupId }),
+  z.object({ type: z.literal("group:message"), groupId, content: groupMessageContentSchema }),
+  z.object({ type: z.literal("group:typing"), groupId, typing: z.boolean() }),
+  // Follow the group's quiz battle, if any; answered with "battle:state"
+  z.object({ type: z.literal("battle:watch"), groupId }),
+  z.object({ type: z.literal("battle:unwatch"), groupId }),
+  // Group admins open a lobby with one of their quizzes, then start it
+  z.object({
+    type: z.literal("battle:host"),
+    groupId,
+    quizId: z.string().min(1),
+    secondsPerQuestion: z
+      .number()
+      .int()
+      .min(BATTLE_SECONDS_PER_QUESTION.min)
+      .max(BATTLE_SECONDS_PER_QUESTION.max)
+      .default(BATTLE_SECONDS_PER_QUESTION.default),
+  }),
+  z.object({ type: z.literal("battle:start"), groupId }),
+  z.object({ type: z.literal("battle:cancel"), groupId }),
+  // Members take part; joining mid-battle starts from the current question
+  z.object({ type: z.literal("battle:join"), groupId }),
+  z.object({
+    type: z.literal("battle:answer"),
+    groupId,
+    questionIndex: z.number().int().min(0),
+    answer: quizAnswerSchema,
+  }),
+]);
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+export type GroupChatClientMessage = Extract<ClientMessage, { type: `group:${string}` }>;
+export type QuizBattleClientMessage = Extract<ClientMessage, { type: `battle:${string}` }>;
+
+export const isQuizBattleMessage = (message: ClientMessage): message is QuizBattleClientMessage =>
+  message.type.startsWith("battle:");
+
+export type QuizBattleStatus = "lobby" | "question" | "reveal" | "finished";
+
+export interface QuizBattleStanding {
+  user: PublicUser;
+  points: number;
+  correct: number;
+}
+
+// What everyone following a battle sees, whenever it changes
+export interface QuizBattleState {
+  id: string;
+  groupId: string;
+  quizTitle: string;
+  host: PublicUser;
+  status: QuizBattleStatus;
+  secondsPerQuestion: number;
+  questionCount: number;
+  // The question being asked or revealed; -1 in the lobby
+  questionIndex: number;
+  // Highest points first
+  standings: QuizBattleStanding[];
+}
+
+// A player's own result for a question
+export interface QuizBattleResult {
+  answered: boolean;
+  isCorrect: boolean;
+  points: number;
+}
+
+export type ServerMessage =
+  // The latest page of history (oldest first) and who is in the room
+  | { type: "group:joined"; groupId: string; messages: GroupChatMessage[]; hasMore: boolean; online: PublicUser[] }
+  | { type: "group:message"; groupId: string; message: GroupChatMessage }
+  | { type: "group:typing"; groupId: string; user: PublicUser; typing: boolean }
+  | { type: "group:presence"; groupId: string; online: PublicUser[] }
+  // Sent when a member is removed from, or leaves, the group while connected
+  | { type: "group:removed"; groupId: string }
+  // The group's battle, or null when there is none
+  | { type: "battle:state"; groupId: string; battle: QuizBattleState | null }
+  | {
+      type: "battle:question";
+      groupId: string;
+      battleId: string;
+      index: number;
+      question: PublicQuizQuestion;
+      // When answers stop counting; the sooner a correct answer arrives, the more it earns
+      deadline: string;
+      // Set when this player already answered, e.g. after reconnecting
+      answered: boolean;
+    }
+  | { type: "battle:progress"; groupId: string; battleId: string; index: number; answered: number; players: number }
+  | {
+      type: "battle:reveal";
+      groupId: string;
+      battleId: string;
+      index: number;
+      correctAnswer: string;
+      explanation: string;
+      // Only sent to players
+      result?: QuizBattleResult;
+    }
+  // Players get the attempt their answers were saved as
+  | { type: "battle:finished"; groupId: string; battleId: string; attemptId?: string; xpGained?: number }
+  | { type: "error"; message: string; groupId?: string };
@@ -9,11 +9,14 @@ import {
   integer,
   boolean,
   unique,
+  uniqueIndex,
   pgTable,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { quizAnswerSchema, quizQuestionSchema } from "./questions";
 
 // Session storage table for Replit Auth
 export const sessions = pgTable(
@@ -26,13 +29,19 @@ export const sessions = pgTable(
   (table) => [index("IDX_session_expire").on(table.expire)],
 );
 
-// User storage table for Replit Auth
+export const userRoles = ["student", "teacher", "admin"] as const;
+
+// User storage table
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   email: varchar("email").unique(),
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
+  passwordHash: varchar("password_hash"), // null for accounts without a local password
+  googleId: varchar("google_id").unique(),
+  calendarToken: varchar("calendar_token").unique(), // secret in the user's calendar feed URLs
+  role: varchar("role", { enum: userRoles }).notNull().default("student"),
   xp: integer("xp").default(0),
   level: integer("level").default(1),
   streak: integer("streak").default(0),
@@ -41,6 +50,8 @@ export const users = pgTable("users", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const topicDifficulties = ["beginner", "intermediate", "advanced"] as const;
+
 // Learning topics/content
 export const topics = pgTable("topics", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -51,10 +62,50 @@ export const topics = pgTable("topics", {
   content: text("content"),
   aiGenerated: boolean("ai_generated").default(false),
   progress: integer("progress").default(0), // 0-100
+  readSections: jsonb("read_sections").default([]), // Indexes of the sections the student has read
+  // The topic this was copied from out of a study group, if any
+  forkedFromId: varchar("forked_from_id").references((): AnyPgColumn => topics.id, { onDelete: "set null" }),
+  // When the retrieval index was last built, even if the content gave no passages; null until then
+  indexedAt: timestamp("indexed_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  // One copy of a shared topic per user
+  uniqueIndex("IDX_topics_fork").on(table.userId, table.forkedFromId),
+]);
+
+// Earlier renderings of a topic's content, so students can switch between difficulties
+export const topicVersions = pgTable("topic_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  topicId: varchar("topic_id").notNull().references(() => topics.id, { onDelete: "cascade" }),
+  difficulty: varchar("difficulty").notNull(),
+  content: text("content").notNull(),
+  aiGenerated: boolean("ai_generated").default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_topic_versions_topic").on(table.topicId, table.createdAt),
+]);
+
+// AI-generated curricula: an ordered set of topics where some depend on others
+export const learningPaths = pgTable("learning_paths", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  goal: text("goal").notNull(), // What the student asked for, e.g. "become a backend developer"
+  title: varchar("title").notNull(),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const learningPathSteps = pgTable("learning_path_steps", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  pathId: varchar("path_id").notNull().references(() => learningPaths.id, { onDelete: "cascade" }),
+  topicId: varchar("topic_id").notNull().references(() => topics.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  prerequisites: jsonb("prerequisites").default([]), // Positions of earlier steps that must be completed first
+}, (table) => [
+  unique().on(table.pathId, table.position),
+]);
+
 // Quizzes
 export const quizzes = pgTable("quizzes", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -62,19 +113,41 @@ export const quizzes = pgTable("quizzes", {
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   title: varchar("title").notNull(),
   questions: jsonb("questions").notNull(), // Array of question objects
+  timeLimitSeconds: integer("time_limit_seconds"), // Exams: every attempt is timed
+  forkedFromId: varchar("forked_from_id").references((): AnyPgColumn => quizzes.id, { onDelete: "set null" }),
+  // Copies of shared quizzes can be taken but never opened in the editor, which shows the answer key
+  readOnly: boolean("read_only").notNull().default(false),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("IDX_quizzes_fork").on(table.userId, table.forkedFromId),
+]);
 
 // Quiz attempts
+export const attemptStatuses = ["in_progress", "submitted", "expired"] as const;
+
 export const quizAttempts = pgTable("quiz_attempts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   quizId: varchar("quiz_id").notNull().references(() => quizzes.id, { onDelete: "cascade" }),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  // Started attempts autosave their answers; an expired one was submitted when time ran out
+  status: varchar("status", { enum: attemptStatuses }).notNull().default("submitted"),
   score: integer("score").notNull(),
   totalQuestions: integer("total_questions").notNull(),
   answers: jsonb("answers").notNull(), // User's answers
-  completedAt: timestamp("completed_at").defaultNow(),
-});
+  // The questions as answered, since the quiz can be edited afterwards; null on older attempts
+  questions: jsonb("questions"),
+  // Model grades for short-answer questions, so reopening results never re-grades them
+  shortAnswerGrades: jsonb("short_answer_grades"),
+  analysis: text("analysis"), // AI feedback, generated on demand and cached here
+  startedAt: timestamp("started_at").defaultNow(),
+  deadline: timestamp("deadline"), // null for untimed attempts
+  completedAt: timestamp("completed_at"), // null while in progress
+}, (table) => [
+  // A student has at most one unfinished attempt per quiz, which reloading the page resumes
+  uniqueIndex("IDX_quiz_attempts_in_progress")
+    .on(table.quizId, table.userId)
+    .where(sql`status = 'in_progress'`),
+]);
 
 // Flashcards
 export const flashcards = pgTable("flashcards", {
@@ -83,10 +156,17 @@ export const flashcards = pgTable("flashcards", {
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   front: text("front").notNull(),
   back: text("back").notNull(),
-  difficulty: integer("difficulty").default(0), // Spaced repetition difficulty
+  difficulty: integer("difficulty").default(0), // Last review rating, 0 (again) to 3 (easy)
+  ease: integer("ease").default(250), // SM-2 ease factor x100
+  interval: integer("interval").default(0), // Days until the next review
+  repetitions: integer("repetitions").default(0), // Successful reviews in a row
   nextReview: timestamp("next_review").defaultNow(),
+  lastReviewedAt: timestamp("last_reviewed_at"),
+  forkedFromId: varchar("forked_from_id").references((): AnyPgColumn => flashcards.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("IDX_flashcards_fork").on(table.userId, table.forkedFromId),
+]);
 
 // Study groups
 export const studyGroups = pgTable("study_groups", {
@@ -96,20 +176,88 @@ export const studyGroups = pgTable("study_groups", {
   creatorId: varchar("creator_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   isActive: boolean("is_active").default(true),
   memberCount: integer("member_count").default(1),
+  // Superseded by group_sessions. Values are carried over into one-off sessions at startup and
+  // cleared; the column stays until every database has run that, so `db:push` loses nothing.
   nextSession: timestamp("next_session"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 // Study group memberships
+export const groupMemberRoles = ["admin", "member"] as const;
+
 export const studyGroupMembers = pgTable("study_group_members", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   groupId: varchar("group_id").notNull().references(() => studyGroups.id, { onDelete: "cascade" }),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-  role: varchar("role").default("member"), // "admin", "member"
+  role: varchar("role", { enum: groupMemberRoles }).default("member"),
+  joinedAt: timestamp("joined_at").defaultNow(),
 }, (table) => [
   unique().on(table.groupId, table.userId)
 ]);
 
+// Study group chat, delivered live over the /ws WebSocket
+export const groupMessages = pgTable("group_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  groupId: varchar("group_id").notNull().references(() => studyGroups.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_group_messages_group").on(table.groupId, table.createdAt),
+]);
+
+// Scheduled study sessions. `startsAt` is the first occurrence; `recurrence` is an RRULE
+// (without DTSTART) repeating it on the wall-clock time in `timeZone`.
+export const groupSessions = pgTable("group_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  groupId: varchar("group_id").notNull().references(() => studyGroups.id, { onDelete: "cascade" }),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  title: varchar("title").notNull(),
+  description: text("description"),
+  location: varchar("location"),
+  startsAt: timestamp("starts_at").notNull(),
+  durationMinutes: integer("duration_minutes").notNull().default(60),
+  timeZone: varchar("time_zone").notNull(),
+  recurrence: text("recurrence"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_group_sessions_group").on(table.groupId),
+]);
+
+export const rsvpStatuses = ["going", "maybe", "declined"] as const;
+
+// Replies to one occurrence of a session, identified by its start time
+export const sessionRsvps = pgTable("session_rsvps", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull().references(() => groupSessions.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  occurrenceStart: timestamp("occurrence_start").notNull(),
+  status: varchar("status", { enum: rsvpStatuses }).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique().on(table.sessionId, table.userId, table.occurrenceStart),
+]);
+
+export const groupResourceKinds = ["topic", "deck", "quiz"] as const;
+
+// Topics, flashcard decks and quizzes members shared into a group. A deck is a topic's
+// flashcards, so it points at the topic. Members fork shared material into their own library.
+export const groupResources = pgTable("group_resources", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  groupId: varchar("group_id").notNull().references(() => studyGroups.id, { onDelete: "cascade" }),
+  sharedBy: varchar("shared_by").references(() => users.id, { onDelete: "set null" }),
+  kind: varchar("kind", { enum: groupResourceKinds }).notNull(),
+  topicId: varchar("topic_id").references(() => topics.id, { onDelete: "cascade" }), // topics and decks
+  quizId: varchar("quiz_id").references(() => quizzes.id, { onDelete: "cascade" }), // quizzes
+  note: text("note"), // Why it was shared, shown to members
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_group_resources_group").on(table.groupId),
+  // Shared once per group; the id that doesn't apply is null on every row of a kind
+  unique().on(table.groupId, table.kind, table.topicId, table.quizId).nullsNotDistinct(),
+]);
+
 // Social feed posts
 export const posts = pgTable("posts", {
     id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -173,6 +321,48 @@ export const learningSessions = pgTable("learning_sessions", {
   completedAt: timestamp("completed_at"),
 });
 
+// Retrieval index over topic content and uploaded documents, used to ground tutor answers
+export const topicChunks = pgTable("topic_chunks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  topicId: varchar("topic_id").notNull().references(() => topics.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  chunkIndex: integer("chunk_index").notNull(),
+  source: varchar("source"), // Uploaded file name, or null for the topic's own content
+  content: text("content").notNull(),
+  terms: text("terms").array().notNull(), // Distinct search terms, for candidate lookup
+  termFrequencies: jsonb("term_frequencies").notNull(), // term -> occurrences, for BM25 scoring
+  length: integer("length").notNull(), // Total search terms in the chunk
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_topic_chunks_user").on(table.userId),
+  index("IDX_topic_chunks_terms").using("gin", table.terms),
+]);
+
+export const chatRoles = ["user", "model"] as const;
+
+// AI tutor conversations, optionally bound to the topic being studied
+export const chatConversations = pgTable("chat_conversations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  topicId: varchar("topic_id").references(() => topics.id, { onDelete: "set null" }),
+  title: varchar("title"), // Taken from the first question when not given
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_chat_conversations_user").on(table.userId, table.updatedAt),
+]);
+
+export const chatMessages = pgTable("chat_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  conversationId: varchar("conversation_id").notNull().references(() => chatConversations.id, { onDelete: "cascade" }),
+  role: varchar("role", { enum: chatRoles }).notNull(),
+  content: text("content").notNull(),
+  citations: jsonb("citations"), // Sources retrieved for a tutor reply
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_chat_messages_conversation").on(table.conversationId, table.createdAt),
+]);
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   topics: many(topics),
@@ -186,6 +376,7 @@ export const usersRelations = relations(users, ({ many }) => ({
   postComments: many(postComments),
   achievements: many(achievements),
   learningSessions: many(learningSessions),
+  chatConversations: many(chatConversations),
 }));
 
 export const topicsRelations = relations(topics, ({ one, many }) => ({
@@ -196,6 +387,41 @@ export const topicsRelations = relations(topics, ({ one, many }) => ({
   quizzes: many(quizzes),
   flashcards: many(flashcards),
   learningSessions: many(learningSessions),
+  chunks: many(topicChunks),
+  versions: many(topicVersions),
+}));
+
+export const learningPathsRelations = relations(learningPaths, ({ one, many }) => ({
+  user: one(users, {
+    fields: [learningPaths.userId],
+    references: [users.id],
+  }),
+  steps: many(learningPathSteps),
+}));
+
+export const learningPathStepsRelations = relations(learningPathSteps, ({ one }) => ({
+  path: one(learningPaths, {
+    fields: [learningPathSteps.pathId],
+    references: [learningPaths.id],
+  }),
+  topic: one(topics, {
+    fields: [learningPathSteps.topicId],
+    references: [topics.id],
+  }),
+}));
+
+export const topicVersionsRelations = relations(topicVersions, ({ one }) => ({
+  topic: one(topics, {
+    fields: [topicVersions.topicId],
+    references: [topics.id],
+  }),
+}));
+
+export const topicChunksRelations = relations(topicChunks, ({ one }) => ({
+  topic: one(topics, {
+    fields: [topicChunks.topicId],
+    references: [topics.id],
+  }),
 }));
 
 export const quizzesRelations = relations(quizzes, ({ one, many }) => ({
@@ -218,6 +444,25 @@ export const studyGroupsRelations = relations(studyGroups, ({ one, many }) => ({
   members: many(studyGroupMembers),
 }));
 
+export const chatConversationsRelations = relations(chatConversations, ({ one, many }) => ({
+  user: one(users, {
+    fields: [chatConversations.userId],
+    references: [users.id],
+  }),
+  topic: one(topics, {
+    fields: [chatConversations.topicId],
+    references: [topics.id],
+  }),
+  messages: many(chatMessages),
+}));
+
+export const chatMessagesRelations = relations(chatMessages, ({ one }) => ({
+  conversation: one(chatConversations, {
+    fields: [chatMessages.conversationId],
+    references: [chatConversations.id],
+  }),
+}));
+
 export const postsRelations = relations(posts, ({ one, many }) => ({
   user: one(users, {
     fields: [posts.userId],
@@ -238,17 +483,112 @@ export const insertUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
 });
 
+export const registerUserSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  firstName: z.string().optional(),
+  lastName: z.string().optional(),
+});
+
+export const loginUserSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1, "Password is required"),
+});
+
 export const insertTopicSchema = createInsertSchema(topics).omit({
   id: true,
+  readSections: true,
+  forkedFromId: true,
+  indexedAt: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const updateTopicSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200).optional(),
+  description: z.string().nullable().optional(),
+  difficulty: z.enum(topicDifficulties).optional(),
+  content: z.string().nullable().optional(),
+});
+
+export const regenerateTopicSchema = z.object({
+  difficulty: z.enum(topicDifficulties),
+});
+
+export const createLearningPathSchema = z.object({
+  goal: z.string().trim().min(3, "Describe what you want to learn").max(300),
+});
+
+export const updateTopicProgressSchema = z.object({
+  readSections: z.array(z.number().int().min(0)),
+  // Active reading time since the last report; a study session is logged when present
+  durationSeconds: z.number().int().min(0).max(24 * 60 * 60).optional(),
+});
+
 export const insertQuizSchema = createInsertSchema(quizzes).omit({
   id: true,
+  forkedFromId: true,
+  readOnly: true,
   createdAt: true,
 });
 
+export const submitQuizAttemptSchema = z.object({
+  // One entry per question, shaped by its type; null if skipped
+  answers: z.array(quizAnswerSchema),
+});
+
+const timeLimitMinutesSchema = z.number().int().min(1).max(24 * 60);
+
+export const createQuizSchema = z.object({
+  topicId: z.string().min(1),
+  title: z.string().trim().min(1).max(200),
+  questions: z.array(quizQuestionSchema).min(1).max(100),
+  timeLimitMinutes: timeLimitMinutesSchema.nullable().optional(), // set for exams
+});
+
+export const updateQuizSchema = createQuizSchema.omit({ topicId: true }).partial();
+
+// Asking the model for a quiz. Unknown question types are ignored; with none left the quiz mixes every type.
+export const generateQuizSchema = z.object({
+  topic: z.string().trim().min(1).max(200),
+  topicId: z.string().min(1),
+  questionCount: z.number().int().min(1).max(20).default(5),
+  questionTypes: z.array(z.string()).max(20).optional(),
+  draft: z.boolean().optional(),
+  timeLimitMinutes: timeLimitMinutesSchema.nullable().optional(), // set for exams
+});
+
+export const flashcardContentSchema = z.object({
+  front: z.string().trim().min(1).max(1000),
+  back: z.string().trim().min(1).max(2000),
+});
+
+export const createFlashcardsSchema = z.object({
+  cards: z.array(flashcardContentSchema).min(1).max(100),
+});
+
+export const updateFlashcardSchema = flashcardContentSchema.partial();
+
+export const startQuizAttemptSchema = z.object({
+  // Ignored for exams, which carry their own limit
+  timeLimitMinutes: timeLimitMinutesSchema.optional(),
+});
+
+export const reviewRatings = ["again", "hard", "good", "easy"] as const;
+
+export const reviewFlashcardSchema = z.object({
+  rating: z.enum(reviewRatings),
+});
+
+export const createChatConversationSchema = z.object({
+  topicId: z.string().optional(),
+  title: z.string().trim().min(1).max(120).optional(),
+});
+
+export const sendChatMessageSchema = z.object({
+  prompt: z.string().trim().min(1, "Prompt is required").max(4000),
+});
+
 export const insertPostSchema = createInsertSchema(posts).omit({
   id: true,
   createdAt: true,
@@ -259,17 +599,107 @@ export const insertStudyGroupSchema = createInsertSchema(studyGroups).omit({
   createdAt: true,
 });
 
+export const createStudyGroupSchema = z.object({
+  name: z.string().trim().min(1, "Group name is required").max(100),
+  description: z.string().trim().max(1000).optional(),
+});
+
+const isTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// `start` is wall-clock time in `timeZone`, e.g. "2026-10-20T19:00"
+export const groupSessionSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200),
+  description: z.string().trim().max(2000).nullable().optional(),
+  location: z.string().trim().max(500).nullable().optional(),
+  start: z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/, "Start time must look like 2026-10-20T19:00"),
+  timeZone: z.string().refine(isTimeZone, "Unknown time zone"),
+  durationMinutes: z.number().int().min(5).max(12 * 60).default(60),
+  recurrence: z.string().trim().max(500).nullable().optional(),
+});
+
+export const updateGroupSessionSchema = groupSessionSchema.partial();
+
+export const sessionRsvpSchema = z.object({
+  occurrence: z.coerce.date(),
+  status: z.enum(rsvpStatuses),
+});
+
+// `id` is the topic (for topics and decks) or quiz being shared; it must be the sharer's own
+export const shareGroupResourceSchema = z.object({
+  kind: z.enum(groupResourceKinds),
+  id: z.string().min(1),
+  note: z.string().trim().max(1000).nullable().optional(),
+});
+
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
+export type UserRole = (typeof userRoles)[number];
+export type RegisterUser = z.infer<typeof registerUserSchema>;
 export type InsertTopic = z.infer<typeof insertTopicSchema>;
 export type Topic = typeof topics.$inferSelect;
+export type TopicDifficulty = (typeof topicDifficulties)[number];
+export type UpdateTopic = z.infer<typeof updateTopicSchema>;
+export type TopicVersion = typeof topicVersions.$inferSelect;
+export type LearningPath = typeof learningPaths.$inferSelect;
+export type LearningPathStep = typeof learningPathSteps.$inferSelect;
 export type InsertQuiz = z.infer<typeof insertQuizSchema>;
 export type Quiz = typeof quizzes.$inferSelect;
+export type UpdateQuiz = z.infer<typeof updateQuizSchema>;
 export type QuizAttempt = typeof quizAttempts.$inferSelect;
+export type AttemptStatus = (typeof attemptStatuses)[number];
 export type Flashcard = typeof flashcards.$inferSelect;
+export type InsertFlashcard = typeof flashcards.$inferInsert;
+export type ReviewRating = (typeof reviewRatings)[number];
+export type TopicChunk = typeof topicChunks.$inferSelect;
+export type InsertTopicChunk = typeof topicChunks.$inferInsert;
+export type ChatRole = (typeof chatRoles)[number];
+export type ChatConversation = typeof chatConversations.$inferSelect;
+export type ChatMessage = typeof chatMessages.$inferSelect;
 export type StudyGroup = typeof studyGroups.$inferSelect;
 export type InsertStudyGroup = z.infer<typeof insertStudyGroupSchema>;
+export type StudyGroupMember = typeof studyGroupMembers.$inferSelect;
+export type GroupMemberRole = (typeof groupMemberRoles)[number];
+// What other members may see of a user
+export type PublicUser = Pick<User, "id" | "firstName" | "lastName" | "profileImageUrl" | "level">;
+export type GroupMessage = typeof groupMessages.$inferSelect;
+export type GroupChatMessage = GroupMessage & { user: PublicUser };
+export type GroupSession = typeof groupSessions.$inferSelect;
+export type InsertGroupSession = typeof groupSessions.$inferInsert;
+export type RsvpStatus = (typeof rsvpStatuses)[number];
+export type GroupSessionInput = z.infer<typeof groupSessionSchema>;
+export type SessionRsvp = typeof sessionRsvps.$inferSelect;
+export type GroupResource = typeof groupResources.$inferSelect;
+export type InsertGroupResource = typeof groupResources.$inferInsert;
+export type GroupResourceKind = (typeof groupResourceKinds)[number];
+// How far the group's current members have got with shared material, on their own copies
+// (or the original, for whoever shared it)
+export interface GroupResourceProgress {
+  members: number;
+  // Members with it in their library
+  copied: number;
+  started: number;
+  completed: number;
+  // Across all members, counting those who haven't started as 0
+  averagePercent: number;
+}
+export type SharedGroupResource = GroupResource & {
+  sharer: PublicUser | null;
+  title: string;
+  description: string | null;
+  // Cards in a deck or questions in a quiz
+  itemCount: number | null;
+  // The viewer's own copy: a topic id for topics and decks, a quiz id for quizzes
+  mine: string | null;
+  progress: GroupResourceProgress;
+};
 export type Post = typeof posts.$inferSelect & { isLiked?: boolean };
 export type InsertPost = z.infer<typeof insertPostSchema>;
 export type Achievement = typeof achievements.$inferSelect;
@@ -0,0 +1,65 @@
+// Splits topic content into the sections the topic page shows and tracks progress by.
+// Shared so the server computes progress against exactly what the student sees.
+
+export interface TopicSection {
+  title: string;
+  body: string; // Markdown, without the section's own heading
+}
+
+// Unheaded text longer than this is broken into parts at paragraph boundaries
+const MAX_SECTION_LENGTH = 4000;
+
+const HEADING_PATTERN = /^(#{1,2})\s+(.+?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+function splitLongBody(title: string, body: string): TopicSection[] {
+  if (body.length <= MAX_SECTION_LENGTH) {
+    return [{ title, body }];
+  }
+
+  const parts: string[] = [];
+  let current = "";
+  for (const paragraph of body.split(/\n{2,}/)) {
+    if (current && current.length + paragraph.length > MAX_SECTION_LENGTH) {
+      parts.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) parts.push(current);
+
+  return parts.map((part, i) => ({
+    title: i === 0 ? title : `${title} (part ${i + 1})`,
+    body: part,
+  }));
+}
+
+// Sections start at level 1 and 2 headings; fenced code blocks are never split
+export function splitIntoSections(content: string | null | undefined): TopicSection[] {
+  if (!content?.trim()) return [];
+
+  const sections: TopicSection[] = [];
+  let title = "Introduction";
+  let lines: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const body = lines.join("\n").trim();
+    if (body) sections.push(...splitLongBody(title, body));
+    lines = [];
+  };
+
+  for (const line of content.replace(/\r\n/g, "\n").split("\n")) {
+    if (FENCE_PATTERN.test(line)) inFence = !inFence;
+    const heading = inFence ? null : line.match(HEADING_PATTERN);
+    if (heading) {
+      flush();
+      title = heading[2];
+    } else {
+      lines.push(line);
+    }
+  }
+  flush();
+
+  return sections;
+}